@@ -1,100 +1,108 @@
-import { useState, useEffect, useMemo } from 'react';
-import { Plus, Trash2, TrendingUp, Settings, RefreshCw, AlertCircle, X, Filter, ArrowUp, ArrowDown, Moon, Sun, History } from 'lucide-react';
-
-// --- 介面定義 ---
-
-type MarketType = 'TW' | 'US';
-type CurrencyType = 'TWD' | 'USD';
-
-interface Transaction {
-  id: string;
-  date: string;
-  ticker: string;
-  name: string;
-  type: 'buy' | 'sell';
-  market: MarketType;
-  price: number;
-  shares: number;
-  isETF: boolean;
-  fee: number;
-  tax: number;
-  totalAmount: number;
-}
-
-interface Holding {
-  ticker: string;
-  name: string;
-  market: MarketType;
-  currency: CurrencyType;
-  shares: number;       
-  avgCost: number;      
-  totalCost: number;    
-  marketValue: number;  
-  unrealizedPL: number; 
-  roi: number;          
-  isETF: boolean;
-}
-
-interface RealizedItem {
-  ticker: string;
-  name: string;
-  market: MarketType;
-  currency: CurrencyType;
-  realizedPL: number;   
-  totalCost: number;    
-  totalRevenue: number; 
-  roi: number;
-  tradeCount: number;
-  isETF: boolean; // 新增：為了在已實現列表也能顯示 ETF
-}
-
-interface AppSettings {
-  // 台股設定
-  twFeeRate: number;
-  twDiscount: number;
-  twTaxRateStock: number;
-  twTaxRateETF: number;
-  twMinFee: number;
-  // 美股設定
-  usFeeRate: number;    
-  usMinFee: number;     
-  usTaxRate: number;    
-}
-
-interface VisualSettings {
-  darkMode: boolean;
-  density: 'compact' | 'normal';
-}
-
-const DEFAULT_SETTINGS: AppSettings = {
-  twFeeRate: 0.001425,
-  twDiscount: 0.6,
-  twTaxRateStock: 0.003,
-  twTaxRateETF: 0.001,
-  twMinFee: 20,
-  usFeeRate: 0.001,   
-  usMinFee: 0,        
-  usTaxRate: 0.000008 
-};
+import { useState, useEffect, useMemo, useCallback, useRef, Fragment } from 'react';
+import { Plus, Trash2, TrendingUp, Settings, RefreshCw, AlertCircle, X, Filter, ArrowUp, ArrowDown, Moon, Sun, History, Layers, Globe, Upload, Download, RotateCcw, Pencil, Undo2, Redo2, Clock, Bell, NotebookPen, NotebookText, Search, AlertTriangle, Landmark } from 'lucide-react';
+import type { AppSettings, MarketType, Transaction, VisualSettings, Holding, CostBasisMethod, LotSelection, FxRate, CurrencyType, TransactionType, AppData, QuoteSettings, QuoteProviderId, PricePoint, PortfolioSnapshot, Account, AlertLevels, AlertSettings, WatchlistItem, RebalanceSettings, CreditType, CashEntry, InvestmentPlan } from './types';
+import { DEFAULT_SETTINGS, DEFAULT_QUOTE_SETTINGS, DEFAULT_ALERT_SETTINGS, DEFAULT_REBALANCE_SETTINGS, DEFAULT_ACCOUNT, DEFAULT_ACCOUNT_ID, COST_BASIS_LABELS, QUOTE_PROVIDER_LABELS, TRANSACTION_TYPE_LABELS } from './settings';
+import { getTheme, getPLColor, getPLBgColor } from './theme';
+import { formatCurrency, formatNumber } from './format';
+import { consolidate, sortFxRates } from './fx';
+import ConsolidatedView from './components/ConsolidatedView';
+import ChartsView from './components/ChartsView';
+import PerformanceView from './components/PerformanceView';
+import TaxReportView from './components/TaxReportView';
+import WatchlistView from './components/WatchlistView';
+import RebalanceView from './components/RebalanceView';
+import TickerJournal from './components/TickerJournal';
+import MarkdownNote from './components/MarkdownNote';
+import IntegrityPanel from './components/IntegrityPanel';
+import TransactionFilterBar from './components/TransactionFilterBar';
+import CreditView from './components/CreditView';
+import CashView from './components/CashView';
+import PlanView from './components/PlanView';
+import { buildAllocationByMarket, buildAllocationByTicker, buildMonthlyRealized, buildValueTimeline } from './charts';
+import ImportModal from './components/ImportModal';
+import AccountManager from './components/AccountManager';
+import AlertPanel from './components/AlertPanel';
+import AlertLevelsEditor from './components/AlertLevelsEditor';
+import { ALERT_KIND_LABELS, cleanAlertLevels, evaluateAlerts, getPeakPrice } from './alerts';
+import type { TriggeredAlert } from './alerts';
+import { getTransactionNotes } from './notes';
+import { countActiveFilters, filterTransactions, readFiltersFromSearch, summarizeTransactions, writeFiltersToSearch } from './transactionFilters';
+import type { TransactionFilters } from './transactionFilters';
+import { checkLedgerIntegrity, getIntroducedIssues, groupIssuesByTransaction } from './integrity';
+import { CREDIT_LABELS, estimateCreditAmounts, getCreditActionLabel, getCreditRates, getMarginMaintenance, opensCreditPosition, summarizeCredit } from './credit';
+import { CASH_ENTRY_LABELS, buildCashBalances, getCashAccountId, getRequiredCash, getSecuritiesEquity } from './cash';
+import { confirmPendingTransaction, getPlanFeeSettings, schedulePlans } from './plans';
+import type { ImportPreset } from './csvImport';
+import RestoreModal from './components/RestoreModal';
+import { createBackup, downloadFile, holdingsToCsv, mergeAppData, parseBackup, realizedToCsv, transactionsToCsv } from './backup';
+import type { RestoreMode } from './backup';
+import { loadAppData, quarantineUnreadable, saveAppData } from './storage';
+import { useUndoHistory } from './useUndoHistory';
+import { useVirtualRows } from './useVirtualRows';
+import type { RowHeight } from './useVirtualRows';
+import { createId } from './ids';
+import { createQuoteProvider, formatUpdatedAt, isPriceStale } from './quotes';
+import { buildHoldingsAsOf, dateKeyToTimestamp, getLocalDateKey, getPriceChange, recordPrices, takeSnapshot, toDateKey, upsertSnapshot } from './snapshots';
+import type { PriceChange } from './snapshots';
+import { buildLedger, calculateTransactionAmount as calculateAmount, getAccountId, getAccountSettings, getCostBasisMethod, getCurrency, getSettlementAmount, involvesAccount, isOddLot, isSameDayTrade, sortTransactionsByDate } from './ledger';
+import type { LedgerOptions } from './ledger';
+
+// 交易紀錄超過此筆數時改用虛擬捲動；列高 (px) 在量到實際高度前依顯示密度估計，展開的筆記限制在固定高度內捲動
+const VIRTUALIZE_THRESHOLD = 200;
+const TRANSACTION_ROW_HEIGHT = { compact: 53, normal: 69 };
+const NOTE_ROW_HEIGHT = { compact: 177, normal: 193 };
 
 export default function StockTrackerApp() {
   // --- State 管理 ---
   const [transactions, setTransactions] = useState<Transaction[]>([]);
   const [settings, setSettings] = useState<AppSettings>(DEFAULT_SETTINGS);
   const [manualPrices, setManualPrices] = useState<Record<string, number>>({});
+  const [priceUpdatedAt, setPriceUpdatedAt] = useState<Record<string, string>>({});
+  const [priceHistory, setPriceHistory] = useState<Record<string, PricePoint[]>>({});
+  const [snapshots, setSnapshots] = useState<PortfolioSnapshot[]>([]);
+  const [quoteSettings, setQuoteSettings] = useState<QuoteSettings>(DEFAULT_QUOTE_SETTINGS);
+  const [fxRates, setFxRates] = useState<FxRate[]>([]);
+  const [importPresets, setImportPresets] = useState<ImportPreset[]>([]);
+  const [accounts, setAccounts] = useState<Account[]>([DEFAULT_ACCOUNT]);
+  const [alertLevels, setAlertLevels] = useState<Record<string, AlertLevels>>({});
+  const [alertSettings, setAlertSettings] = useState<AlertSettings>(DEFAULT_ALERT_SETTINGS);
+  const [watchlist, setWatchlist] = useState<WatchlistItem[]>([]);
+  const [rebalanceSettings, setRebalanceSettings] = useState<RebalanceSettings>(DEFAULT_REBALANCE_SETTINGS);
+  const [tickerNotes, setTickerNotes] = useState<Record<string, string>>({});
+  const [cashEntries, setCashEntries] = useState<CashEntry[]>([]);
+  const [investmentPlans, setInvestmentPlans] = useState<InvestmentPlan[]>([]);
+  const [pendingTransactions, setPendingTransactions] = useState<Transaction[]>([]);
+
+  // 網址帶有交易紀錄的篩選條件時直接開啟交易紀錄
+  const [urlFilters] = useState(() => readFiltersFromSearch(window.location.search));
 
   // UI 狀態
-  const [activeTab, setActiveTab] = useState<'portfolio' | 'realized' | 'transactions' | 'settings'>('portfolio');
+  const [activeTab, setActiveTab] = useState<'portfolio' | 'watchlist' | 'plans' | 'rebalance' | 'realized' | 'charts' | 'performance' | 'transactions' | 'settings'>(urlFilters.present ? 'transactions' : 'portfolio');
   const [showAddModal, setShowAddModal] = useState(false);
+  const [showImportModal, setShowImportModal] = useState(false);
   
   // 刪除控制
   const [deleteTargetId, setDeleteTargetId] = useState<string | null>(null); // 單筆刪除
   const [deleteTargetTicker, setDeleteTargetTicker] = useState<string | null>(null); // 整檔刪除
   
-  // 篩選與排序
-  const [filterTicker, setFilterTicker] = useState<string | null>(null);
+  // 篩選與排序 (交易紀錄的篩選條件同步到網址)
+  const [filterTicker, setFilterTicker] = useState<string | null>(urlFilters.ticker);
+  const [accountFilter, setAccountFilter] = useState('all');
+  const [transactionFilters, setTransactionFilters] = useState<TransactionFilters>(urlFilters.filters);
+  const [showFilterBar, setShowFilterBar] = useState(countActiveFilters(urlFilters.filters) > 0);
+  const [issueFilter, setIssueFilter] = useState<string[] | null>(null); // 只顯示帳務檢查相關的交易 id
   const [sortConfig, setSortConfig] = useState<{ key: string; direction: 'asc' | 'desc' } | null>(null);
 
+  // 批次明細展開
+  const [expandedHolding, setExpandedHolding] = useState<string | null>(null);
+  const [expandedRealized, setExpandedRealized] = useState<string | null>(null);
+  const [journalTicker, setJournalTicker] = useState<string | null>(null);
+  const [expandedNoteId, setExpandedNoteId] = useState<string | null>(null);
+  const [editingAlertTicker, setEditingAlertTicker] = useState<string | null>(null);
+
+  // 持股明細檢視日期 (空字串為今天)
+  const [viewDate, setViewDate] = useState('');
+
   // 視覺設定
   const [visualSettings, setVisualSettings] = useState<VisualSettings>({
     darkMode: true,
@@ -103,155 +111,233 @@ export default function StockTrackerApp() {
 
   // 新增交易表單
   const [form, setForm] = useState({
-    date: new Date().toISOString().split('T')[0],
+    date: getLocalDateKey(),
     ticker: '',
     name: '',
-    type: 'buy' as 'buy' | 'sell',
+    type: 'buy' as TransactionType,
     market: 'TW' as MarketType,
     price: '',
     shares: '',
-    isETF: false
+    ratio: '',
+    isETF: false,
+    isBondETF: false,
+    // null 代表依同日買進自動判斷
+    isDayTrade: null as boolean | null,
+    accountId: DEFAULT_ACCOUNT_ID,
+    toAccountId: '',
+    lotSelections: {} as Record<string, string>,
+    // 空字串代表依公式計算
+    feeOverride: '',
+    taxOverride: '',
+    note: '',
+    // 信用交易 (買進 / 賣出才適用)；融資金額、保證金與借券費空字串代表依成數估算
+    credit: '' as CreditType | '',
+    loanAmount: '',
+    borrowFee: ''
   });
+  const [editingId, setEditingId] = useState<string | null>(null);
 
   // --- 初始化與資料保存 ---
+  // loading：尚未讀完，不可存檔；locked：既有資料讀不懂，暫停存檔以免覆蓋
+  const [storageStatus, setStorageStatus] = useState<'loading' | 'ready' | 'locked'>('loading');
+  const [unreadableData, setUnreadableData] = useState<{ raw: string; reason: string } | null>(null);
+  // 最近一次存檔的問題：fallback 為 IndexedDB 失敗、已改存 localStorage；failed 為兩處都寫不進去
+  const [saveProblem, setSaveProblem] = useState<{ level: 'fallback' | 'failed'; reason: string } | null>(null);
+  const [toast, setToast] = useState<string | null>(null);
+
+  const appData: AppData = useMemo(
+    () => ({ transactions, settings, manualPrices, priceUpdatedAt, quoteSettings, priceHistory, snapshots, visualSettings, fxRates, importPresets, accounts, alertLevels, alertSettings, watchlist, rebalanceSettings, tickerNotes, cashEntries, investmentPlans, pendingTransactions }),
+    [transactions, settings, manualPrices, priceUpdatedAt, quoteSettings, priceHistory, snapshots, visualSettings, fxRates, importPresets, accounts, alertLevels, alertSettings, watchlist, rebalanceSettings, tickerNotes, cashEntries, investmentPlans, pendingTransactions]
+  );
+
+  const applyAppData = useCallback((data: AppData) => {
+    setTransactions(data.transactions);
+    setSettings(data.settings);
+    setManualPrices(data.manualPrices);
+    setPriceUpdatedAt(data.priceUpdatedAt);
+    setQuoteSettings(data.quoteSettings);
+    setPriceHistory(data.priceHistory);
+    setSnapshots(data.snapshots);
+    setVisualSettings(data.visualSettings);
+    setFxRates(data.fxRates);
+    setImportPresets(data.importPresets);
+    setAccounts(data.accounts);
+    setAlertLevels(data.alertLevels);
+    setAlertSettings(data.alertSettings);
+    setWatchlist(data.watchlist);
+    setRebalanceSettings(data.rebalanceSettings);
+    setTickerNotes(data.tickerNotes);
+    setCashEntries(data.cashEntries);
+    setInvestmentPlans(data.investmentPlans);
+    setPendingTransactions(data.pendingTransactions);
+  }, []);
+
   useEffect(() => {
-    const savedData = localStorage.getItem('stock_tracker_data_v4');
-    if (savedData) {
-      try {
-        const parsed = JSON.parse(savedData);
-        const migratedTransactions = (parsed.transactions || []).map((t: any) => ({
-          ...t,
-          market: t.market || 'TW'
-        }));
-        setTransactions(migratedTransactions);
-        setSettings({ ...DEFAULT_SETTINGS, ...parsed.settings });
-        setManualPrices(parsed.manualPrices || {});
-        if (parsed.visualSettings) setVisualSettings(parsed.visualSettings);
-      } catch (e) {
-        console.error("讀取舊資料失敗", e);
+    let cancelled = false;
+    loadAppData().then(result => {
+      if (cancelled) return;
+      if (result.status === 'unreadable') {
+        setUnreadableData({ raw: result.raw, reason: result.reason });
+        setStorageStatus('locked');
+        return;
+      }
+      if (result.status === 'loaded') {
+        // 開啟時產生到今天為止到期的定期定額扣款
+        const scheduled = schedulePlans(result.data, getLocalDateKey());
+        applyAppData({ ...result.data, investmentPlans: scheduled.investmentPlans, pendingTransactions: scheduled.pendingTransactions });
+        if (scheduled.added > 0) setToast(`定期定額：${scheduled.added} 筆扣款待確認成交價`);
       }
+      setStorageStatus('ready');
+    });
+    return () => { cancelled = true; };
+  }, [applyAppData]);
+
+  useEffect(() => {
+    if (storageStatus !== 'ready') return;
+    const timer = setTimeout(() => {
+      saveAppData(appData)
+        .then(result => setSaveProblem(result.fallbackReason ? { level: 'fallback', reason: result.fallbackReason } : null))
+        .catch(e => {
+          console.error('儲存資料失敗', e);
+          setSaveProblem({ level: 'failed', reason: e instanceof Error ? e.message : String(e) });
+        });
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [storageStatus, appData]);
+
+  // --- 復原 / 重做 (交易、定期定額計畫與待確認扣款、現金帳、個股筆記、現價與交易參數) ---
+  // 計畫的 generatedThrough 與待確認扣款放在同一份快照，一起還原才不會漏產生或重複產生扣款；
+  // 開啟時排程的扣款不另外記錄，復原到更早的快照後，下次開啟會依計畫重新產生
+  const ledgerSnapshot = useMemo(
+    () => ({ transactions, investmentPlans, pendingTransactions, cashEntries, tickerNotes, manualPrices, priceUpdatedAt, priceHistory, settings, accounts }),
+    [transactions, investmentPlans, pendingTransactions, cashEntries, tickerNotes, manualPrices, priceUpdatedAt, priceHistory, settings, accounts]
+  );
+  const history = useUndoHistory('stock_tracker_history', ledgerSnapshot, (snapshot) => {
+    setTransactions(snapshot.transactions);
+    // 加入計畫前留下的快照沒有此欄位，計畫與待確認扣款都保留目前狀態
+    if (snapshot.investmentPlans) {
+      setInvestmentPlans(snapshot.investmentPlans);
+      setPendingTransactions(snapshot.pendingTransactions ?? []);
     }
-  }, []);
+    setCashEntries(snapshot.cashEntries ?? []);
+    // 加入筆記前留下的快照沒有此欄位，保留目前筆記
+    if (snapshot.tickerNotes) setTickerNotes(snapshot.tickerNotes);
+    setManualPrices(snapshot.manualPrices);
+    setPriceUpdatedAt(snapshot.priceUpdatedAt ?? {});
+    setPriceHistory(snapshot.priceHistory ?? {});
+    setSettings(snapshot.settings);
+    setAccounts(snapshot.accounts ?? [DEFAULT_ACCOUNT]);
+  });
+
+  const showToast = (message: string) => setToast(message);
 
   useEffect(() => {
-    const dataToSave = { transactions, settings, manualPrices, visualSettings };
-    localStorage.setItem('stock_tracker_data_v4', JSON.stringify(dataToSave));
-  }, [transactions, settings, manualPrices, visualSettings]);
+    if (!toast) return;
+    const timer = setTimeout(() => setToast(null), 2500);
+    return () => clearTimeout(timer);
+  }, [toast]);
+
+  const handleUndo = () => {
+    const label = history.undo();
+    if (label) showToast(`已復原：${label}`);
+  };
 
+  const handleRedo = () => {
+    const label = history.redo();
+    if (label) showToast(`已重做：${label}`);
+  };
 
-  // --- 核心邏輯 ---
-  const { holdings, realizedGains } = useMemo(() => {
-    const tempHoldings: Record<string, {
-      ticker: string;
-      name: string;
-      market: MarketType;
-      shares: number;
-      totalCost: number; 
-      isETF: boolean;
-    }> = {};
-
-    const tempRealized: Record<string, RealizedItem> = {};
-
-    const sortedTrans = [...transactions].sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
-
-    sortedTrans.forEach(t => {
-      // Init Holdings
-      if (!tempHoldings[t.ticker]) {
-        tempHoldings[t.ticker] = {
-          ticker: t.ticker,
-          name: t.name,
-          market: t.market,
-          shares: 0,
-          totalCost: 0,
-          isETF: t.isETF
-        };
-      }
-      
-      // Init Realized
-      if (!tempRealized[t.ticker]) {
-        tempRealized[t.ticker] = {
-          ticker: t.ticker,
-          name: t.name,
-          market: t.market,
-          currency: t.market === 'TW' ? 'TWD' : 'USD',
-          realizedPL: 0,
-          totalCost: 0,
-          totalRevenue: 0,
-          roi: 0,
-          tradeCount: 0,
-          isETF: t.isETF
-        };
+  // Ctrl/Cmd+Z 復原、Ctrl/Cmd+Shift+Z 或 Ctrl+Y 重做；輸入框內保留瀏覽器原生行為
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement | null;
+      if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.tagName === 'SELECT' || target.isContentEditable)) return;
+      if (!(e.ctrlKey || e.metaKey)) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        handleUndo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        handleRedo();
       }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  });
 
-      const h = tempHoldings[t.ticker];
-      const r = tempRealized[t.ticker];
-
-      if (t.type === 'buy') {
-        h.totalCost += t.totalAmount;
-        h.shares += t.shares;
-      } else {
-        if (h.shares > 0) {
-          const avgCost = h.totalCost / h.shares;
-          const costOfSoldShares = avgCost * t.shares;
-          const realizedAmount = t.totalAmount - costOfSoldShares;
-          
-          h.totalCost -= costOfSoldShares;
-          h.shares -= t.shares;
-
-          r.realizedPL += realizedAmount;
-          r.totalCost += costOfSoldShares;
-          r.totalRevenue += t.totalAmount;
-          r.tradeCount += 1;
-        }
-      }
-      
-      if (h.shares <= 0.000001) {
-        h.shares = 0;
-        h.totalCost = 0;
-      }
-    });
+  const updateSettings = (next: AppSettings) => {
+    history.record('修改交易參數', true);
+    setSettings(next);
+  };
 
-    const finalHoldings = Object.values(tempHoldings)
-      .filter(h => h.shares > 0)
-      .map(h => {
-        const currentPrice = manualPrices[h.ticker] || 0;
-        const avgCost = h.shares > 0 ? h.totalCost / h.shares : 0;
-        
-        let estSellFee = 0;
-        let estSellTax = 0;
-
-        if (h.market === 'TW') {
-           estSellFee = Math.max(settings.twMinFee, Math.floor(currentPrice * h.shares * settings.twFeeRate * settings.twDiscount));
-           estSellTax = Math.floor(currentPrice * h.shares * (h.isETF ? settings.twTaxRateETF : settings.twTaxRateStock));
-        } else {
-           estSellFee = Math.max(settings.usMinFee, (currentPrice * h.shares * settings.usFeeRate));
-           estSellTax = (currentPrice * h.shares * settings.usTaxRate); 
-        }
+  const updateAccounts = (next: Account[]) => {
+    history.record('修改帳戶', true);
+    setAccounts(next);
+  };
 
-        const marketValue = (currentPrice * h.shares) - estSellFee - estSellTax;
-        const unrealizedPL = marketValue - h.totalCost;
-        const roi = h.totalCost > 0 ? (unrealizedPL / h.totalCost) * 100 : 0;
-
-        return {
-          ...h,
-          currency: h.market === 'TW' ? 'TWD' : 'USD' as CurrencyType,
-          avgCost,
-          marketValue,
-          unrealizedPL,
-          roi
-        } as Holding;
-      });
+  // 使用者確認後，先另存讀不懂的原始資料，再恢復自動儲存
+  const discardUnreadableData = async () => {
+    if (unreadableData) await quarantineUnreadable(unreadableData.raw);
+    setUnreadableData(null);
+    setStorageStatus('ready');
+  };
 
-    const finalRealized = Object.values(tempRealized)
-      .filter(r => r.tradeCount > 0)
-      .map(r => ({
-        ...r,
-        roi: r.totalCost > 0 ? (r.realizedPL / r.totalCost) * 100 : 0
-      }));
+  // --- 核心邏輯 ---
+  // 選定帳戶時只看該帳戶的部位，否則合併所有帳戶 (帳戶被刪除時自動回到全部)
+  const activeAccountId = accountFilter !== 'all' && accounts.some(a => a.id === accountFilter) ? accountFilter : null;
+  const ledgerOptions: LedgerOptions = useMemo(
+    () => ({ accounts, accountId: activeAccountId }),
+    [accounts, activeAccountId]
+  );
+
+  const today = getLocalDateKey();
 
-    return { holdings: finalHoldings, realizedGains: finalRealized };
+  // 融資利息與借券費計算到今天；圖表與績效的歷史時點不計應計利息
+  const { holdings, realizedGains, shorts, cashFlows } = useMemo(
+    () => buildLedger(transactions, settings, manualPrices, { ...ledgerOptions, asOf: today }),
+    [transactions, manualPrices, settings, ledgerOptions, today]
+  );
 
-  }, [transactions, manualPrices, settings]);
+  // 現金餘額跟著目前檢視的帳戶；尚未記錄任何入金時不顯示
+  const cash = useMemo(
+    () => buildCashBalances(transactions, cashEntries, cashFlows, { accountId: activeAccountId }),
+    [transactions, cashEntries, cashFlows, activeAccountId]
+  );
+  const viewCashEntries = useMemo(
+    () => cashEntries.filter(e => !activeAccountId || getCashAccountId(e) === activeAccountId),
+    [cashEntries, activeAccountId]
+  );
+
+  // 整戶維持率依帳戶分別計算；沒有信用交易時不必重算
+  const hasCreditTrades = useMemo(() => transactions.some(t => t.credit), [transactions]);
+  const creditAccounts = useMemo(() => {
+    if (!hasCreditTrades) return [];
+    return accounts
+      .filter(a => !activeAccountId || a.id === activeAccountId)
+      .map(a => {
+        const ledger = buildLedger(transactions, settings, manualPrices, { accounts, accountId: a.id, asOf: today });
+        return { accountId: a.id, name: a.name, summaries: summarizeCredit(ledger.holdings, ledger.shorts) };
+      })
+      .filter(a => a.summaries.length > 0);
+  }, [hasCreditTrades, accounts, activeAccountId, transactions, settings, manualPrices, today]);
+
+  // 快照一律記錄全部帳戶，不受目前檢視的帳戶影響
+  const allHoldings = useMemo(
+    () => activeAccountId ? buildLedger(transactions, settings, manualPrices, { accounts }).holdings : holdings,
+    [activeAccountId, holdings, transactions, settings, manualPrices, accounts]
+  );
+
+  const accountTransactionCounts = useMemo(() => {
+    const counts: Record<string, number> = {};
+    transactions.forEach(t => {
+      counts[getAccountId(t)] = (counts[getAccountId(t)] || 0) + 1;
+      if (t.type === 'transfer' && t.toAccountId) counts[t.toAccountId] = (counts[t.toAccountId] || 0) + 1;
+    });
+    return counts;
+  }, [transactions]);
+
+  const accountName = (id: string) => accounts.find(a => a.id === id)?.name ?? id;
 
 
   // --- 排序邏輯 ---
@@ -277,47 +363,209 @@ export default function StockTrackerApp() {
     return sortConfig.direction === 'asc' ? <ArrowUp size={12} className="ml-1" /> : <ArrowDown size={12} className="ml-1" />;
   };
 
+  // --- 帳務檢查 ---
+  const ledgerIssues = useMemo(() => checkLedgerIntegrity(transactions), [transactions]);
+  const issuesByTransaction = useMemo(() => groupIssuesByTransaction(ledgerIssues), [ledgerIssues]);
+
+  const showIssueTransactions = (ids: string[]) => {
+    setIssueFilter(ids);
+    setFilterTicker(null);
+    setActiveTab('transactions');
+  };
+
   // --- 交易紀錄篩選 ---
   const displayedTransactions = useMemo(() => {
     let list = [...transactions];
+    if (issueFilter) {
+      list = list.filter(t => issueFilter.includes(t.id));
+    }
     if (filterTicker) {
       list = list.filter(t => t.ticker === filterTicker);
     }
+    if (activeAccountId) {
+      list = list.filter(t => involvesAccount(t, activeAccountId));
+    }
+    // 進階篩選；關鍵字比對代號、名稱、交易筆記與該檔筆記
+    list = filterTransactions(list, transactionFilters, tickerNotes);
     return list.sort((a,b) => new Date(b.date).getTime() - new Date(a.date).getTime());
-  }, [transactions, filterTicker]);
+  }, [transactions, issueFilter, filterTicker, activeAccountId, transactionFilters, tickerNotes]);
+
+  const transactionSubtotals = useMemo(() => summarizeTransactions(displayedTransactions), [displayedTransactions]);
+  const searchingNotes = transactionFilters.text.trim() !== '';
+
+  useEffect(() => {
+    const search = writeFiltersToSearch(window.location.search, transactionFilters, filterTicker);
+    if (search !== window.location.search) window.history.replaceState(window.history.state, '', `${window.location.pathname}${search}${window.location.hash}`);
+  }, [transactionFilters, filterTicker]);
 
 
   // --- 功能函數 ---
-  const calculateTransactionAmount = (type: 'buy' | 'sell', market: MarketType, price: number, shares: number, isETF: boolean) => {
-    const rawAmount = price * shares;
-    let fee = 0;
-    let tax = 0;
-
-    if (market === 'TW') {
-      fee = Math.max(settings.twMinFee, Math.floor(rawAmount * settings.twFeeRate * settings.twDiscount));
-      tax = type === 'sell' ? Math.floor(rawAmount * (isETF ? settings.twTaxRateETF : settings.twTaxRateStock)) : 0;
-    } else {
-      fee = Math.max(settings.usMinFee, rawAmount * settings.usFeeRate);
-      tax = type === 'sell' ? rawAmount * settings.usTaxRate : 0; 
-    }
-    
-    let total = 0;
-    if (type === 'buy') {
-      total = rawAmount + fee; 
-    } else {
-      total = rawAmount - fee - tax; 
-    }
-    return { fee, tax, total };
+  // 編輯定期定額產生的買進時沿用定期定額低消
+  const formPlanId = editingId ? transactions.find(t => t.id === editingId)?.planId : undefined;
+  const calculateTransactionAmount = (type: TransactionType, market: MarketType, price: number, shares: number, isETF: boolean) => {
+    const accountSettings = getAccountSettings(settings, accounts, form.accountId);
+    return calculateAmount(type, market, price, shares, isETF, formPlanId && type === 'buy' ? getPlanFeeSettings(accountSettings) : accountSettings, formTradeAttributes);
   };
 
-  const handleAddTransaction = () => {
-    if (!form.ticker || !form.price || !form.shares) return;
-    const priceNum = parseFloat(form.price);
-    const sharesNum = parseFloat(form.shares);
-    const { fee, tax, total } = calculateTransactionAmount(form.type, form.market, priceNum, sharesNum, form.isETF);
+  // 以表單所選帳戶的部位為準；編輯時排除該筆，批次與持股才不會把自己算進去
+  const formHoldings = useMemo(
+    () => buildLedger(transactions.filter(t => t.id !== editingId), settings, manualPrices, { accounts, accountId: form.accountId }).holdings,
+    [editingId, transactions, settings, manualPrices, accounts, form.accountId]
+  );
+  const formHolding = formHoldings.find(h => h.ticker === form.ticker.toUpperCase());
+
+  // 指定批次賣出：列出該代號目前未沖銷的買進批次
+  const isSpecificLotSell = form.type === 'sell' && getCostBasisMethod(form.market, settings) === 'specific';
+  const formOpenLots = formHolding?.lots || [];
+
+  // 公司行動的股數預設為該代號目前持股
+  const formHeldShares = formHolding?.shares || 0;
+  const isCorporateAction = form.type !== 'buy' && form.type !== 'sell';
+
+  const parseForm = () => {
+    // 轉帳的價格只作為移轉時的參考市價 (績效計算用)，預設帶入現價
+    const defaultPrice = form.type === 'capitalReduction' ? '0' : form.type === 'transfer' ? String(manualPrices[form.ticker.toUpperCase()] || 0) : '';
+    const price = form.type === 'stockDividend' || form.type === 'split' ? 0 : parseFloat(form.price || defaultPrice);
+    const shares = form.type === 'split' ? formHeldShares : parseFloat(form.shares || (form.type === 'dividend' || form.type === 'capitalReduction' || form.type === 'transfer' ? String(formHeldShares) : ''));
+    const ratio = form.type === 'split' || form.type === 'capitalReduction' ? parseFloat(form.ratio) : undefined;
+    if (!form.ticker || isNaN(price) || isNaN(shares) || (ratio !== undefined && !(ratio > 0))) return null;
+    if (form.type !== 'split' && shares <= 0) return null;
+    if (form.type === 'transfer' && (!form.toAccountId || form.toAccountId === form.accountId)) return null;
+    return { price, shares, ratio };
+  };
+  const parsedForm = parseForm();
+
+  // 台股當沖：同帳戶同日已有買進時自動套用，使用者可手動取消或勾選
+  const isTwSell = form.type === 'sell' && form.market === 'TW';
+  const detectedDayTrade = isTwSell && !!parsedForm && isSameDayTrade(transactions, {
+    id: editingId || '',
+    date: form.date,
+    ticker: form.ticker.toUpperCase(),
+    market: form.market,
+    shares: parsedForm.shares,
+    accountId: form.accountId
+  });
+  const formTradeAttributes = {
+    isBondETF: form.market === 'TW' && form.isETF && form.isBondETF,
+    isDayTrade: isTwSell && !form.isETF && (form.isDayTrade ?? detectedDayTrade)
+  };
+  const formFeeRules = [
+    form.market === 'TW' && (form.type === 'buy' || form.type === 'sell') && parsedForm && isOddLot(form.market, parsedForm.shares) && `零股 (最低手續費 ${getAccountSettings(settings, accounts, form.accountId).twOddLotMinFee} 元)`,
+    isTwSell && formTradeAttributes.isBondETF && '債券 ETF 免證交稅',
+    formTradeAttributes.isDayTrade && '當沖證交稅減半'
+  ].filter((rule): rule is string => !!rule);
+
+  // 公式估算的費用，手動輸入時以輸入值取代並重算交割金額
+  const formAmounts = (() => {
+    if (!parsedForm) return null;
+    const estimated = calculateTransactionAmount(form.type, form.market, parsedForm.price, parsedForm.shares, form.isETF);
+    const feeInput = parseFloat(form.feeOverride);
+    const taxInput = parseFloat(form.taxOverride);
+    const fee = isNaN(feeInput) ? estimated.fee : feeInput;
+    const tax = isNaN(taxInput) ? estimated.tax : taxInput;
+    const manualFee = !isNaN(feeInput) || !isNaN(taxInput);
+    return { estimated, fee, tax, manualFee, total: getSettlementAmount(form.type, parsedForm.price, parsedForm.shares, fee, tax) };
+  })();
+
+  // 融資買進的借款、融券賣出的保證金與借券費；留空依帳戶成數估算
+  const formCredit = form.type === 'buy' || form.type === 'sell' ? form.credit || undefined : undefined;
+  const formCreditAmounts = (() => {
+    if (!parsedForm || !formCredit || !opensCreditPosition(form.type, formCredit)) return null;
+    const estimated = estimateCreditAmounts(form.type, formCredit, form.market, parsedForm.price, parsedForm.shares, getAccountSettings(settings, accounts, form.accountId));
+    const loanInput = parseFloat(form.loanAmount);
+    const feeInput = parseFloat(form.borrowFee);
+    return {
+      estimated,
+      loanAmount: isNaN(loanInput) ? estimated.loanAmount : loanInput,
+      borrowFee: isNaN(feeInput) ? estimated.borrowFee : feeInput
+    };
+  })();
+
+  const openAddModal = () => {
+    setEditingId(null);
+    setForm({ ...form, accountId: activeAccountId || form.accountId, price: '', shares: '', ratio: '', lotSelections: {}, feeOverride: '', taxOverride: '', isDayTrade: null, note: '', credit: '', loanAmount: '', borrowFee: '' });
+    setShowAddModal(true);
+  };
+
+  const openEditModal = (t: Transaction) => {
+    setEditingId(t.id);
+    setForm({
+      date: t.date,
+      ticker: t.ticker,
+      name: t.name,
+      type: t.type,
+      market: t.market,
+      price: String(t.price),
+      shares: String(t.shares),
+      ratio: t.ratio !== undefined ? String(t.ratio) : '',
+      isETF: t.isETF,
+      isBondETF: !!t.isBondETF,
+      isDayTrade: t.isDayTrade ?? null,
+      accountId: getAccountId(t),
+      toAccountId: t.toAccountId || '',
+      lotSelections: Object.fromEntries((t.lotSelections || []).map(sel => [sel.lotId, String(sel.shares)])),
+      feeOverride: t.manualFee ? String(t.fee) : '',
+      taxOverride: t.manualFee ? String(t.tax) : '',
+      note: t.note || '',
+      credit: t.credit || '',
+      loanAmount: t.loanAmount !== undefined ? String(t.loanAmount) : '',
+      borrowFee: t.borrowFee !== undefined ? String(t.borrowFee) : ''
+    });
+    setShowAddModal(true);
+  };
 
-    const newTrans: Transaction = {
-      id: Date.now().toString(),
+  // 觀察清單的「記錄買進」：以進場價 (沒有時用現價) 帶入新增表單
+  const openBuyFromWatchlist = (item: WatchlistItem) => {
+    const price = item.entryPrice || manualPrices[item.ticker] || item.referencePrice;
+    setEditingId(null);
+    setForm({
+      ...form,
+      type: 'buy',
+      ticker: item.ticker,
+      name: item.name,
+      market: item.market,
+      isETF: item.isETF,
+      isBondETF: false,
+      isDayTrade: null,
+      accountId: activeAccountId || form.accountId,
+      price: price ? String(price) : '',
+      shares: '',
+      ratio: '',
+      lotSelections: {},
+      feeOverride: '',
+      taxOverride: '',
+      note: '',
+      credit: '',
+      loanAmount: '',
+      borrowFee: ''
+    });
+    setShowAddModal(true);
+  };
+
+  const closeAddModal = () => {
+    setShowAddModal(false);
+    setEditingId(null);
+  };
+
+  // 更新現價時一併記錄更新時間與當天的價格歷史
+  const applyPrices = (updates: { ticker: string; price: number; at: string }[]) => {
+    if (updates.length === 0) return;
+    setManualPrices(prev => ({ ...prev, ...Object.fromEntries(updates.map(u => [u.ticker, u.price])) }));
+    setPriceUpdatedAt(prev => ({ ...prev, ...Object.fromEntries(updates.map(u => [u.ticker, u.at])) }));
+    setPriceHistory(prev => updates.reduce((acc, u) => recordPrices(acc, { [u.ticker]: u.price }, toDateKey(u.at)), prev));
+  };
+
+  // 由表單組出交易；新增時的 id 由呼叫端決定 (預覽檢查用暫時 id)
+  const buildFormTransaction = (id: string): Transaction | null => {
+    if (!parsedForm || !formAmounts) return null;
+    const { price: priceNum, shares: sharesNum, ratio } = parsedForm;
+    const { fee, tax, total, manualFee } = formAmounts;
+    const lotSelections: LotSelection[] = Object.entries(form.lotSelections)
+      .map(([lotId, shares]) => ({ lotId, shares: parseFloat(shares) }))
+      .filter(sel => sel.shares > 0);
+
+    return {
+      id,
       date: form.date,
       ticker: form.ticker.toUpperCase(),
       name: form.name || form.ticker.toUpperCase(),
@@ -326,21 +574,193 @@ export default function StockTrackerApp() {
       price: priceNum,
       shares: sharesNum,
       isETF: form.isETF,
+      ...(formTradeAttributes.isBondETF ? { isBondETF: true } : {}),
+      ...(isTwSell ? { isDayTrade: formTradeAttributes.isDayTrade } : {}),
       fee,
       tax,
-      totalAmount: total
+      totalAmount: total,
+      accountId: form.accountId,
+      ...(form.type === 'transfer' ? { toAccountId: form.toAccountId } : {}),
+      ...(form.type === 'sell' && isSpecificLotSell && lotSelections.length > 0 ? { lotSelections } : {}),
+      ...(ratio !== undefined ? { ratio } : {}),
+      ...(manualFee ? { manualFee } : {}),
+      ...(form.note.trim() ? { note: form.note.trim() } : {}),
+      ...(formCredit ? { credit: formCredit } : {}),
+      ...(formCreditAmounts ? { loanAmount: formCreditAmounts.loanAmount } : {}),
+      ...(formCreditAmounts && formCreditAmounts.borrowFee > 0 ? { borrowFee: formCreditAmounts.borrowFee } : {}),
+      ...(formPlanId && form.type === 'buy' ? { planId: formPlanId } : {})
     };
+  };
+
+  // 儲存前檢查：會造成無持股賣出或賣超的交易直接擋下，補登在既有賣出之前只提示
+  const formDraft = showAddModal ? buildFormTransaction(editingId || 'draft') : null;
+  // 表單每次重新渲染都會產生新的草稿物件，以內容作為快取鍵，只在草稿或交易紀錄變更時重新檢查
+  // (以 String 標明為字串，React Compiler 才不會把快取鍵當成之後可能被修改的草稿物件)
+  const formDraftKey = String(formDraft ? JSON.stringify(formDraft) : '');
+  const formIssues = useMemo(
+    () => (formDraftKey ? getIntroducedIssues(transactions, JSON.parse(formDraftKey) as Transaction, ledgerIssues) : []),
+    [transactions, formDraftKey, ledgerIssues]
+  );
+  const formBlocked = formIssues.some(i => i.severity === 'error');
+
+  // 購買力：以交易日當天 (含) 以前的現金餘額比對需付金額；只提醒、不阻擋
+  const formCashShortfall = (() => {
+    if (!formDraft || !cash.tracked) return null;
+    const required = getRequiredCash(formDraft);
+    if (required <= 0) return null;
+    const currency = getCurrency(formDraft.market);
+    const available = buildCashBalances(transactions, cashEntries, cashFlows, { accountId: form.accountId, asOf: formDraft.date, excludeId: editingId }).balances[currency].balance;
+    return required > available + 0.005 ? { required, available, currency } : null;
+  })();
+
+  const handleAddTransaction = () => {
+    if (!parsedForm || formBlocked) return;
+    const newTrans = buildFormTransaction(editingId || createId());
+    if (!newTrans) return;
+    const { price: priceNum, ratio } = parsedForm;
+    history.record(editingId ? `編輯 ${form.ticker.toUpperCase()} 交易` : `新增 ${form.ticker.toUpperCase()} 交易`);
+
+    if (editingId) {
+      setTransactions(transactions.map(t => t.id === editingId ? newTrans : t));
+      closeAddModal();
+      return;
+    }
 
     setTransactions([...transactions, newTrans]);
+    // 以成交日為現價時間，補登舊交易時會正確顯示為過期
     if (form.type === 'buy') {
-      setManualPrices(prev => ({...prev, [newTrans.ticker]: priceNum}));
+      applyPrices([{ ticker: newTrans.ticker, price: priceNum, at: dateKeyToTimestamp(newTrans.date) }]);
+    }
+    // 分割與減資後股價同步換算，避免市值失真
+    if (ratio !== undefined && manualPrices[newTrans.ticker]) {
+      applyPrices([{ ticker: newTrans.ticker, price: manualPrices[newTrans.ticker] / ratio, at: dateKeyToTimestamp(newTrans.date) }]);
     }
     setShowAddModal(false);
-    setForm({ ...form, price: '', shares: '' });
+    setForm({ ...form, price: '', shares: '', ratio: '', lotSelections: {}, feeOverride: '', taxOverride: '', isDayTrade: null, note: '', credit: '', loanAmount: '', borrowFee: '' });
+  };
+
+  // 批次匯入：尚無現價的代號以最後一筆買進價帶入
+  const handleImportTransactions = (imported: Transaction[]) => {
+    history.record(`匯入 ${imported.length} 筆交易`);
+    setTransactions(prev => [...prev, ...imported]);
+    const latestBuys = new Map<string, Transaction>();
+    sortTransactionsByDate(imported).forEach(t => {
+      if (t.type === 'buy' && !manualPrices[t.ticker]) latestBuys.set(t.ticker, t);
+    });
+    applyPrices([...latestBuys.values()].map(t => ({ ticker: t.ticker, price: t.price, at: dateKeyToTimestamp(t.date) })));
+    setShowImportModal(false);
+  };
+
+  // 每檔筆記；清空時移除該鍵
+  const saveTickerNote = (ticker: string, note: string) => {
+    history.record(`修改 ${ticker} 筆記`);
+    setTickerNotes(prev => {
+      const next = { ...prev };
+      if (note) next[ticker] = note;
+      else delete next[ticker];
+      return next;
+    });
+  };
+
+  // 再平衡建議確認後一次寫入，可整批復原
+  const handleApplyRebalance = (generated: Transaction[]) => {
+    history.record(`再平衡 ${generated.length} 筆交易`);
+    setTransactions(prev => [...prev, ...generated]);
+    showToast(`已新增 ${generated.length} 筆再平衡交易`);
+  };
+
+  const addCashEntry = (entry: CashEntry) => {
+    history.record(`新增${CASH_ENTRY_LABELS[entry.type]}`);
+    setCashEntries(prev => [...prev, entry]);
+  };
+
+  const deleteCashEntry = (id: string) => {
+    history.record('刪除現金帳紀錄');
+    setCashEntries(prev => prev.filter(e => e.id !== id));
+  };
+
+  // 定期定額：儲存計畫後立即產生已到期的扣款 (例如起始日在今天以前)
+  const saveInvestmentPlan = (plan: InvestmentPlan) => {
+    const scheduled = schedulePlans({ investmentPlans: [plan], pendingTransactions, transactions, manualPrices, settings, accounts }, today);
+    const [next] = scheduled.investmentPlans;
+    history.record(`${investmentPlans.some(p => p.id === plan.id) ? '編輯' : '新增'} ${plan.ticker} 定期定額`);
+    setInvestmentPlans(prev => prev.some(p => p.id === plan.id) ? prev.map(p => (p.id === plan.id ? next : p)) : [...prev, next]);
+    if (scheduled.added > 0) {
+      setPendingTransactions(scheduled.pendingTransactions);
+      showToast(`已產生 ${scheduled.added} 筆待確認扣款`);
+    }
+  };
+
+  // 刪除計畫時一併移除尚未確認的扣款；已確認的交易保留
+  const deleteInvestmentPlan = (id: string) => {
+    const plan = investmentPlans.find(p => p.id === id);
+    if (!plan) return;
+    history.record(`刪除 ${plan.ticker} 定期定額`);
+    setInvestmentPlans(prev => prev.filter(p => p.id !== id));
+    setPendingTransactions(prev => prev.filter(t => t.planId !== id));
+  };
+
+  const confirmPlanBuy = (pending: Transaction, price: number, date: string) => {
+    const confirmed = confirmPendingTransaction(pending, investmentPlans.find(p => p.id === pending.planId), price, date, settings, accounts);
+    if (!confirmed) return;
+    history.record(`確認 ${pending.ticker} 定期定額`);
+    setTransactions(prev => [...prev, confirmed]);
+    setPendingTransactions(prev => prev.filter(t => t.id !== pending.id));
+  };
+
+  const skipPlanBuy = (pending: Transaction) => {
+    history.record(`略過 ${pending.ticker} 定期定額`);
+    setPendingTransactions(prev => prev.filter(t => t.id !== pending.id));
+  };
+
+  const saveImportPreset = (preset: ImportPreset) =>
+    setImportPresets(prev => [...prev.filter(p => p.name !== preset.name), preset]);
+
+  const deleteImportPreset = (name: string) =>
+    setImportPresets(prev => prev.filter(p => p.name !== name));
+
+  // --- 備份與還原 ---
+  const [restoreTarget, setRestoreTarget] = useState<{ fileName: string; data: AppData | null; errors: string[] } | null>(null);
+
+  const exportFile = (kind: 'json' | 'transactions' | 'holdings' | 'realized') => {
+    const stamp = getLocalDateKey();
+    if (kind === 'json') {
+      downloadFile(`stock-tracker-backup-${stamp}.json`, JSON.stringify(createBackup(appData), null, 2), 'application/json');
+    } else if (kind === 'transactions') {
+      downloadFile(`transactions-${stamp}.csv`, transactionsToCsv(sortTransactionsByDate(transactions), accounts), 'text/csv;charset=utf-8');
+    } else if (kind === 'holdings') {
+      downloadFile(`holdings-${stamp}.csv`, holdingsToCsv(holdings), 'text/csv;charset=utf-8');
+    } else {
+      downloadFile(`realized-${stamp}.csv`, realizedToCsv(realizedGains), 'text/csv;charset=utf-8');
+    }
+  };
+
+  const handleRestoreFile = (file: File | undefined) => {
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = () => {
+      try {
+        const result = parseBackup(JSON.parse(String(reader.result || '')));
+        setRestoreTarget({ fileName: file.name, data: result.data, errors: result.errors });
+      } catch {
+        setRestoreTarget({ fileName: file.name, data: null, errors: ['檔案不是有效的 JSON'] });
+      }
+    };
+    reader.readAsText(file);
+  };
+
+  const confirmRestore = (mode: RestoreMode) => {
+    if (!restoreTarget?.data) return;
+    // 復原快照不含自選股、匯率、警示、計畫等資料，還原後無法正確復原，改為清空復原紀錄
+    history.clear();
+    applyAppData(mergeAppData(appData, restoreTarget.data, mode));
+    setRestoreTarget(null);
+    showToast('已還原備份，復原紀錄已清除');
   };
 
   const confirmDelete = () => {
     if (deleteTargetId) {
+      history.record('刪除交易');
       setTransactions(transactions.filter(t => t.id !== deleteTargetId));
       setDeleteTargetId(null);
     }
@@ -349,6 +769,7 @@ export default function StockTrackerApp() {
   // 確認刪除整檔
   const confirmDeleteTicker = () => {
     if (deleteTargetTicker) {
+      history.record(`刪除 ${deleteTargetTicker} 全部紀錄`);
       setTransactions(prev => prev.filter(t => t.ticker !== deleteTargetTicker));
       setManualPrices(prev => {
          const next = { ...prev };
@@ -362,79 +783,223 @@ export default function StockTrackerApp() {
   const updatePrice = (ticker: string, newPrice: string) => {
     const price = parseFloat(newPrice);
     if (!isNaN(price)) {
-      setManualPrices(prev => ({ ...prev, [ticker]: price }));
+      history.record(`修改 ${ticker} 現價`, true);
+      applyPrices([{ ticker, price, at: new Date().toISOString() }]);
     }
   };
 
+  // --- 報價更新 ---
+  const [quoteStatus, setQuoteStatus] = useState<{ loading: boolean; errors: string[] }>({ loading: false, errors: [] });
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 60 * 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  // 一次查詢所有持股；查不到的標的保留原本的手動現價
+  const refreshQuotes = async () => {
+    const provider = createQuoteProvider(quoteSettings);
+    if (!provider) {
+      showToast('請先到設定頁選擇報價來源');
+      return;
+    }
+    setQuoteStatus({ loading: true, errors: [] });
+    try {
+      // 持股與觀察清單一起更新
+      const requests = [...holdings, ...watchlist.filter(w => !holdings.some(h => h.ticker === w.ticker))]
+        .map(item => ({ ticker: item.ticker, market: item.market }));
+      const { quotes, errors } = await provider.fetchQuotes(requests);
+      if (quotes.length > 0) {
+        history.record('更新報價');
+        applyPrices(quotes.map(q => ({ ticker: q.ticker, price: q.price, at: q.asOf })));
+      }
+      setQuoteStatus({ loading: false, errors: errors.map(e => `${e.ticker}：${e.message}`) });
+      showToast(`已更新 ${quotes.length} 檔報價${errors.length > 0 ? `，${errors.length} 檔失敗` : ''}`);
+    } catch (e) {
+      setQuoteStatus({ loading: false, errors: [`無法取得報價：${e instanceof Error ? e.message : String(e)}`] });
+    }
+    setNow(Date.now());
+  };
+
+  const isStale = (ticker: string) => isPriceStale(priceUpdatedAt[ticker], quoteSettings.staleHours, now);
+
   const handleTickerClick = (ticker: string) => {
     setFilterTicker(ticker);
     setActiveTab('transactions');
   };
 
   const stats = useMemo(() => {
-    const twHoldings = holdings.filter(h => h.market === 'TW');
-    const usHoldings = holdings.filter(h => h.market === 'US');
-
-    const calc = (list: Holding[]) => {
+    const calc = (market: MarketType) => {
+      const list = holdings.filter(h => h.market === market);
       const marketValue = list.reduce((sum, h) => sum + h.marketValue, 0);
       const totalCost = list.reduce((sum, h) => sum + h.totalCost, 0);
       const unrealizedPL = marketValue - totalCost;
       const roi = totalCost > 0 ? (unrealizedPL / totalCost) * 100 : 0;
-      return { marketValue, totalCost, unrealizedPL, roi };
+      // 帳戶總值 = 現金 + 證券淨值 (扣除融資借款)；與淨投入本金相比即為累計損益
+      const { balance: cashBalance, netContributed } = cash.balances[getCurrency(market)];
+      const accountValue = cashBalance + getSecuritiesEquity(list, shorts.filter(s => s.market === market));
+      return { marketValue, totalCost, unrealizedPL, roi, cashBalance, netContributed, accountValue };
     };
 
-    return { TW: calc(twHoldings), US: calc(usHoldings) };
-  }, [holdings]);
+    return { TW: calc('TW'), US: calc('US') };
+  }, [holdings, shorts, cash]);
+
+
+  // 以基準幣別合併換算
+  const consolidated = useMemo(
+    () => consolidate(holdings, realizedGains, fxRates, settings.baseCurrency),
+    [holdings, realizedGains, fxRates, settings.baseCurrency]
+  );
+
+
+  // --- 圖表 (只在切到圖表頁時才重建走勢，避免每次輸入都重跑整段歷史) ---
+  const chartData = useMemo(() => {
+    if (activeTab !== 'charts') return null;
+    return {
+      byTicker: buildAllocationByTicker(consolidated.holdings),
+      byMarket: buildAllocationByMarket(consolidated.holdings),
+      timeline: buildValueTimeline(transactions, settings, manualPrices, priceHistory, snapshots, fxRates, settings.baseCurrency, today, ledgerOptions),
+      monthly: buildMonthlyRealized(realizedGains, fxRates, settings.baseCurrency)
+    };
+  }, [activeTab, consolidated.holdings, transactions, settings, manualPrices, priceHistory, snapshots, fxRates, realizedGains, today, ledgerOptions]);
+
+  // --- 每日快照 ---
+  // 持股或現價變動後稍待片刻，把今天的狀態寫入快照 (同一天覆蓋，內容相同時不更新)
+  useEffect(() => {
+    if (storageStatus !== 'ready') return;
+    const timer = setTimeout(() => setSnapshots(prev => upsertSnapshot(prev, takeSnapshot(today, allHoldings, manualPrices))), 1000);
+    return () => clearTimeout(timer);
+  }, [storageStatus, allHoldings, manualPrices, today]);
+
+  // --- 價格警示 ---
+  // 以全部帳戶的持股檢查，不受目前檢視的帳戶影響
+  const triggeredAlerts = useMemo(
+    () => evaluateAlerts(allHoldings, manualPrices, alertLevels, priceHistory),
+    [allHoldings, manualPrices, alertLevels, priceHistory]
+  );
+  const pendingAlerts = triggeredAlerts.filter(a => !alertSettings.acknowledged.includes(a.key));
+  const alertsByTicker = useMemo(() => {
+    const map = new Map<string, TriggeredAlert[]>();
+    triggeredAlerts.forEach(a => map.set(a.ticker, [...(map.get(a.ticker) || []), a]));
+    return map;
+  }, [triggeredAlerts]);
+
+  // 現價變動後稍待片刻再通知 (逐字輸入現價時只看最後結果)；同一則警示只通知一次
+  const notifiedAlerts = useRef<Set<string>>(new Set());
+  useEffect(() => {
+    if (storageStatus !== 'ready') return;
+    const timer = setTimeout(() => {
+      const active = new Set(triggeredAlerts.map(a => a.key));
+      const fresh = triggeredAlerts.filter(a => !notifiedAlerts.current.has(a.key) && !alertSettings.acknowledged.includes(a.key));
+      notifiedAlerts.current = active;
+      if (fresh.length > 0) {
+        setToast(fresh.length === 1 ? `${fresh[0].ticker} ${ALERT_KIND_LABELS[fresh[0].kind]}` : `${fresh.length} 則價格警示`);
+        if (alertSettings.browserNotifications && typeof Notification !== 'undefined' && Notification.permission === 'granted') {
+          fresh.forEach(a => new Notification(`${a.ticker} ${ALERT_KIND_LABELS[a.kind]}`, { body: a.message, tag: a.key }));
+        }
+      }
+      // 價格回到區間內的警示取消確認，下次觸及時重新通知
+      if (alertSettings.acknowledged.some(key => !active.has(key))) {
+        setAlertSettings(prev => ({ ...prev, acknowledged: prev.acknowledged.filter(key => active.has(key)) }));
+      }
+    }, 800);
+    return () => clearTimeout(timer);
+  }, [storageStatus, triggeredAlerts, alertSettings]);
+
+  const acknowledgeAlerts = (keys: string[]) =>
+    setAlertSettings(prev => ({ ...prev, acknowledged: [...new Set([...prev.acknowledged, ...keys])] }));
+
+  const saveAlertLevels = (ticker: string, levels: AlertLevels) => {
+    const cleaned = cleanAlertLevels(levels);
+    setAlertLevels(prev => {
+      const next = { ...prev };
+      if (cleaned) next[ticker] = cleaned;
+      else delete next[ticker];
+      return next;
+    });
+    setEditingAlertTicker(null);
+  };
+
+  // 開啟瀏覽器通知前先取得權限
+  const toggleBrowserNotifications = async (enabled: boolean) => {
+    if (enabled && typeof Notification !== 'undefined' && Notification.permission !== 'granted') {
+      const permission = await Notification.requestPermission();
+      if (permission !== 'granted') {
+        showToast('瀏覽器未允許通知');
+        return;
+      }
+    }
+    setAlertSettings(prev => ({ ...prev, browserNotifications: enabled }));
+  };
 
+  // 檢視過去日期時以當時的交易與歷史價重建持股
+  const refDate = viewDate && viewDate < today ? viewDate : today;
+  const asOfView = useMemo(
+    () => refDate < today ? buildHoldingsAsOf(transactions, settings, priceHistory, refDate, ledgerOptions) : null,
+    [refDate, today, transactions, settings, priceHistory, ledgerOptions]
+  );
+  const tableHoldings = asOfView ? asOfView.holdings : holdings;
+  const tablePrices = asOfView ? asOfView.prices : manualPrices;
+
+  // 匯率表維護
+  const [fxForm, setFxForm] = useState({ date: getLocalDateKey(), rate: '' });
+
+  const addFxRate = () => {
+    const rate = parseFloat(fxForm.rate);
+    if (!fxForm.date || isNaN(rate) || rate <= 0) return;
+    setFxRates(prev => sortFxRates([...prev.filter(r => r.date !== fxForm.date), { date: fxForm.date, rate }]));
+    setFxForm({ ...fxForm, rate: '' });
+  };
+
+  const removeFxRate = (date: string) => setFxRates(prev => prev.filter(r => r.date !== date));
 
   // --- UI 輔助 ---
   const isDark = visualSettings.darkMode;
   const isCompact = visualSettings.density === 'compact';
 
-  const getColor = (val: number) => val > 0 ? 'text-red-500' : val < 0 ? 'text-green-500' : (isDark ? 'text-gray-400' : 'text-gray-500');
-  const getBgColor = (val: number) => {
-    if (val > 0) return isDark ? 'bg-red-900/30' : 'bg-red-50';
-    if (val < 0) return isDark ? 'bg-green-900/30' : 'bg-green-50';
-    return isDark ? 'bg-gray-700' : 'bg-gray-50';
-  };
-  
-  const theme = {
-    bg: isDark ? 'bg-gray-950' : 'bg-gray-100',
-    text: isDark ? 'text-gray-100' : 'text-gray-800',
-    subText: isDark ? 'text-gray-400' : 'text-gray-500',
-    card: isDark ? 'bg-gray-900 border-gray-800' : 'bg-white border-gray-200',
-    header: isDark ? 'bg-gray-900 border-gray-800' : 'bg-white border-gray-100',
-    tableHeader: isDark ? 'bg-gray-800 text-gray-400' : 'bg-gray-50 text-gray-500',
-    tableRowHover: isDark ? 'hover:bg-gray-800' : 'hover:bg-gray-50',
-    input: isDark ? 'bg-gray-800 border-gray-700 text-white focus:bg-gray-700' : 'bg-white border-gray-200 text-gray-900 focus:bg-white',
-    divider: isDark ? 'divide-gray-800' : 'divide-gray-100',
-    buttonSecondary: isDark ? 'text-gray-400 hover:text-gray-200' : 'text-gray-500 hover:text-gray-700',
-    activeTab: isDark ? 'bg-red-900/30 text-red-400' : 'bg-red-50 text-red-600',
-    inactiveTab: isDark ? 'text-gray-400 hover:text-gray-200' : 'text-gray-500 hover:text-gray-700',
-    yellowBg: isDark ? 'bg-yellow-900/20 text-yellow-500 border-yellow-900' : 'bg-yellow-50 text-yellow-800 border-yellow-100',
-    modalBg: isDark ? 'bg-gray-900' : 'bg-white',
-    priceInput: isDark ? 'bg-gray-800 border-gray-700 text-white' : 'bg-white border-yellow-200 text-gray-800',
-    priceInputWrapper: isDark ? 'bg-gray-800/50' : 'bg-yellow-50/30',
-  };
+  const getColor = (val: number) => getPLColor(val, isDark);
+  const getBgColor = (val: number) => getPLBgColor(val, isDark);
+  const theme = getTheme(isDark);
 
   const paddingClass = isCompact ? 'px-3 py-2' : 'px-6 py-4';
 
-  const formatCurrency = (val: number, currency: CurrencyType) => {
-    return new Intl.NumberFormat('zh-TW', { 
-      style: 'currency', 
-      currency: currency,
-      maximumFractionDigits: currency === 'TWD' ? 0 : 2,
-      minimumFractionDigits: currency === 'TWD' ? 0 : 2
-    }).format(val);
-  };
-  
-  const formatNumber = (val: number, decimals: number = 0) => new Intl.NumberFormat('zh-TW', { minimumFractionDigits: decimals, maximumFractionDigits: decimals }).format(val);
+  const virtualizeTransactions = displayedTransactions.length > VIRTUALIZE_THRESHOLD;
+  // 帳戶名稱、當沖或定期定額標籤會讓列變高，因此實測高度以「密度 + 交易 id」為鍵
+  const density = isCompact ? 'compact' : 'normal';
+  const getTransactionRowHeight = useCallback<RowHeight>((index, measured) => {
+    const t = displayedTransactions[index];
+    const noteOpen = !!t.note && (expandedNoteId === t.id || searchingNotes);
+    return (measured(`${density}|${t.id}`) ?? TRANSACTION_ROW_HEIGHT[density]) +
+      (noteOpen ? measured(`${density}|${t.id}|note`) ?? NOTE_ROW_HEIGHT[density] : 0);
+  }, [displayedTransactions, density, expandedNoteId, searchingNotes]);
+  const {
+    containerRef: transactionListRef,
+    onScroll: onTransactionListScroll,
+    measureRow: measureTransactionRow,
+    start: transactionStart,
+    end: transactionEnd,
+    paddingTop: transactionPaddingTop,
+    paddingBottom: transactionPaddingBottom
+  } = useVirtualRows<HTMLDivElement>(displayedTransactions.length, getTransactionRowHeight, activeTab === 'transactions' && virtualizeTransactions);
+  const visibleTransactions = virtualizeTransactions ? displayedTransactions.slice(transactionStart, transactionEnd) : displayedTransactions;
+
+  const renderChange = (change: PriceChange | null, h: Holding) => (
+    <td className={`${paddingClass} text-right ${change ? getColor(change.change) : theme.subText}`} title={change ? `與 ${change.since} 比較` : '尚無歷史價'}>
+      {change ? (
+        <>
+          <div className="font-medium">{change.pct > 0 ? '+' : ''}{change.pct.toFixed(2)}%</div>
+          <div className="text-xs">{change.valueChange > 0 ? '+' : ''}{formatNumber(change.valueChange, h.market === 'US' ? 2 : 0)}</div>
+        </>
+      ) : '—'}
+    </td>
+  );
 
   return (
     <div className={`min-h-screen font-sans transition-colors duration-200 ${theme.bg} ${theme.text}`}>
       
       {/* Header */}
-      <header className={`shadow-sm sticky top-0 z-10 transition-colors ${theme.header}`}>
+      <header className={`shadow-sm sticky top-0 z-10 transition-colors print:hidden ${theme.header}`}>
         <div className="max-w-6xl mx-auto px-4 h-16 flex items-center justify-between">
           <div className="flex items-center space-x-2">
             <div className="bg-red-600 p-2 rounded-lg text-white">
@@ -443,8 +1008,33 @@ export default function StockTrackerApp() {
             <h1 className="text-xl font-bold hidden md:block">持股損益追蹤</h1>
           </div>
           <div className="flex space-x-1 overflow-x-auto no-scrollbar">
+             {accounts.length > 1 && (
+               <select value={activeAccountId || 'all'} onChange={(e) => setAccountFilter(e.target.value)} title="檢視帳戶" className={`my-1 px-2 border rounded-md text-sm ${theme.input}`}>
+                 <option value="all">全部帳戶</option>
+                 {accounts.map(a => <option key={a.id} value={a.id}>{a.name}</option>)}
+               </select>
+             )}
+             {ledgerIssues.length > 0 && (
+               <button
+                 onClick={() => showIssueTransactions([...new Set(ledgerIssues.flatMap(i => i.transactionIds))])}
+                 title="帳務檢查發現問題，查看相關交易"
+                 className={`flex items-center space-x-1 px-2 py-1 rounded-full text-xs font-bold ${ledgerIssues.some(i => i.severity === 'error') ? 'bg-red-100 text-red-600' : 'bg-yellow-100 text-yellow-700'}`}
+               >
+                 <AlertTriangle size={14} />
+                 <span>{ledgerIssues.length}</span>
+               </button>
+             )}
+             <button onClick={handleUndo} disabled={!history.canUndo} title={history.nextUndoLabel ? `復原：${history.nextUndoLabel} (Ctrl+Z)` : '復原 (Ctrl+Z)'} className={`p-2 rounded-full transition-colors disabled:opacity-30 ${theme.buttonSecondary}`}><Undo2 size={18} /></button>
+             <button onClick={handleRedo} disabled={!history.canRedo} title={history.nextRedoLabel ? `重做：${history.nextRedoLabel} (Ctrl+Shift+Z)` : '重做 (Ctrl+Shift+Z)'} className={`p-2 rounded-full transition-colors disabled:opacity-30 ${theme.buttonSecondary}`}><Redo2 size={18} /></button>
              <button onClick={() => setActiveTab('portfolio')} className={`px-3 py-2 whitespace-nowrap rounded-md text-sm font-medium transition-colors ${activeTab === 'portfolio' ? theme.activeTab : theme.inactiveTab}`}>持股損益</button>
+             <button onClick={() => setActiveTab('watchlist')} className={`px-3 py-2 whitespace-nowrap rounded-md text-sm font-medium transition-colors ${activeTab === 'watchlist' ? theme.activeTab : theme.inactiveTab}`}>觀察清單</button>
+             <button onClick={() => setActiveTab('plans')} className={`px-3 py-2 whitespace-nowrap rounded-md text-sm font-medium transition-colors ${activeTab === 'plans' ? theme.activeTab : theme.inactiveTab}`}>
+               定期定額{pendingTransactions.length > 0 && <span className="ml-1 px-1.5 rounded-full text-[10px] bg-red-600 text-white">{pendingTransactions.length}</span>}
+             </button>
+             <button onClick={() => setActiveTab('rebalance')} className={`px-3 py-2 whitespace-nowrap rounded-md text-sm font-medium transition-colors ${activeTab === 'rebalance' ? theme.activeTab : theme.inactiveTab}`}>再平衡</button>
              <button onClick={() => setActiveTab('realized')} className={`px-3 py-2 whitespace-nowrap rounded-md text-sm font-medium transition-colors ${activeTab === 'realized' ? theme.activeTab : theme.inactiveTab}`}>已實現損益</button>
+             <button onClick={() => setActiveTab('charts')} className={`px-3 py-2 whitespace-nowrap rounded-md text-sm font-medium transition-colors ${activeTab === 'charts' ? theme.activeTab : theme.inactiveTab}`}>圖表</button>
+             <button onClick={() => setActiveTab('performance')} className={`px-3 py-2 whitespace-nowrap rounded-md text-sm font-medium transition-colors ${activeTab === 'performance' ? theme.activeTab : theme.inactiveTab}`}>績效</button>
              <button onClick={() => setActiveTab('transactions')} className={`px-3 py-2 whitespace-nowrap rounded-md text-sm font-medium transition-colors ${activeTab === 'transactions' ? theme.activeTab : theme.inactiveTab}`}>交易紀錄</button>
              <button onClick={() => setActiveTab('settings')} className={`p-2 rounded-full transition-colors ${activeTab === 'settings' ? 'text-red-600' : theme.buttonSecondary}`}><Settings size={20} /></button>
           </div>
@@ -452,10 +1042,45 @@ export default function StockTrackerApp() {
       </header>
 
       <main className="max-w-6xl mx-auto px-4 py-6">
+
+        {storageStatus === 'locked' && unreadableData && (
+          <div className={`mb-6 p-4 rounded-xl border text-sm ${isDark ? 'bg-red-900/20 border-red-900 text-red-300' : 'bg-red-50 border-red-200 text-red-700'}`}>
+            <div className="flex items-center font-bold mb-1"><AlertCircle size={16} className="mr-2" />無法讀取已儲存的資料，已暫停自動儲存</div>
+            <p className="text-xs mb-3">原因：{unreadableData.reason}。原始資料仍完整保留，請先下載保存，再決定是否重新開始。</p>
+            <div className="flex flex-wrap gap-2">
+              <button onClick={() => downloadFile(`stock-tracker-unreadable-${getLocalDateKey()}.json`, unreadableData.raw, 'application/json')} className="flex items-center px-3 py-1.5 bg-red-600 hover:bg-red-700 text-white rounded-lg text-xs"><Download size={14} className="mr-1" />下載原始資料</button>
+              <button onClick={discardUnreadableData} className={`px-3 py-1.5 border rounded-lg text-xs ${isDark ? 'border-red-800 hover:bg-red-900/40' : 'border-red-300 hover:bg-red-100'}`}>另存並重新開始</button>
+            </div>
+          </div>
+        )}
+
+        {saveProblem && (
+          <div className={`mb-6 p-4 rounded-xl border text-sm ${saveProblem.level === 'failed'
+            ? (isDark ? 'bg-red-900/20 border-red-900 text-red-300' : 'bg-red-50 border-red-200 text-red-700')
+            : (isDark ? 'bg-yellow-900/20 border-yellow-900 text-yellow-300' : 'bg-yellow-50 border-yellow-200 text-yellow-800')}`}>
+            <div className="flex items-center font-bold mb-1">
+              <AlertCircle size={16} className="mr-2" />
+              {saveProblem.level === 'failed' ? '資料無法儲存，重新整理或關閉頁面後變更會遺失' : '本機資料庫寫入失敗，已暫存到 localStorage'}
+            </div>
+            <p className="text-xs mb-3">
+              原因：{saveProblem.reason}。{saveProblem.level === 'failed' ? '請先下載備份，並檢查瀏覽器的儲存空間設定。' : 'localStorage 容量較小，資料持續增加時可能存不下，建議下載備份。'}
+            </p>
+            <button onClick={() => exportFile('json')} className={`flex items-center px-3 py-1.5 rounded-lg text-xs text-white ${saveProblem.level === 'failed' ? 'bg-red-600 hover:bg-red-700' : 'bg-yellow-600 hover:bg-yellow-700'}`}><Download size={14} className="mr-1" />下載備份</button>
+          </div>
+        )}
         
         {/* Dashboard Cards */}
         {activeTab === 'portfolio' && (
           <>
+            <ConsolidatedView
+              summary={consolidated.summary}
+              holdings={consolidated.holdings}
+              realized={consolidated.realized}
+              theme={theme}
+              isDark={isDark}
+              paddingClass={paddingClass}
+            />
+
             <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-6">
               {/* TWD Card */}
               <div className={`rounded-xl shadow-sm border p-4 ${theme.card}`}>
@@ -483,6 +1108,27 @@ export default function StockTrackerApp() {
                     </p>
                   </div>
                 </div>
+                {cash.tracked && (
+                  <div className={`grid grid-cols-3 gap-4 text-center mt-4 pt-3 border-t ${isDark ? 'border-gray-700' : 'border-gray-200'}`}>
+                    <div>
+                      <p className={`text-xs ${theme.subText} mb-1`}>現金</p>
+                      <p className={`font-bold ${stats.TW.cashBalance < 0 ? 'text-red-500' : ''}`} title={stats.TW.cashBalance < 0 ? '現金為負，可能漏記入金或換匯' : undefined}>{formatCurrency(stats.TW.cashBalance, 'TWD')}</p>
+                    </div>
+                    <div>
+                      <p className={`text-xs ${theme.subText} mb-1`}>淨投入本金</p>
+                      <p className="font-bold">{formatCurrency(stats.TW.netContributed, 'TWD')}</p>
+                    </div>
+                    <div>
+                      <p className={`text-xs ${theme.subText} mb-1`}>帳戶總值</p>
+                      <p className="font-bold">{formatCurrency(stats.TW.accountValue, 'TWD')}</p>
+                      {stats.TW.netContributed > 0 && (
+                        <p className={`text-xs ${getColor(stats.TW.accountValue - stats.TW.netContributed)}`} title="帳戶總值 - 淨投入本金">
+                          {stats.TW.accountValue - stats.TW.netContributed > 0 ? '+' : ''}{formatNumber(stats.TW.accountValue - stats.TW.netContributed)}
+                        </p>
+                      )}
+                    </div>
+                  </div>
+                )}
               </div>
 
               {/* USD Card */}
@@ -511,21 +1157,80 @@ export default function StockTrackerApp() {
                     </p>
                   </div>
                 </div>
+                {cash.tracked && (
+                  <div className={`grid grid-cols-3 gap-4 text-center mt-4 pt-3 border-t ${isDark ? 'border-gray-700' : 'border-gray-200'}`}>
+                    <div>
+                      <p className={`text-xs ${theme.subText} mb-1`}>現金</p>
+                      <p className={`font-bold ${stats.US.cashBalance < 0 ? 'text-red-500' : ''}`} title={stats.US.cashBalance < 0 ? '現金為負，可能漏記入金或換匯' : undefined}>{formatCurrency(stats.US.cashBalance, 'USD')}</p>
+                    </div>
+                    <div>
+                      <p className={`text-xs ${theme.subText} mb-1`}>淨投入本金</p>
+                      <p className="font-bold">{formatCurrency(stats.US.netContributed, 'USD')}</p>
+                    </div>
+                    <div>
+                      <p className={`text-xs ${theme.subText} mb-1`}>帳戶總值</p>
+                      <p className="font-bold">{formatCurrency(stats.US.accountValue, 'USD')}</p>
+                      {stats.US.netContributed > 0 && (
+                        <p className={`text-xs ${getColor(stats.US.accountValue - stats.US.netContributed)}`} title="帳戶總值 - 淨投入本金">
+                          {stats.US.accountValue - stats.US.netContributed > 0 ? '+' : ''}{formatNumber(stats.US.accountValue - stats.US.netContributed, 2)}
+                        </p>
+                      )}
+                    </div>
+                  </div>
+                )}
               </div>
             </div>
 
+            <AlertPanel alerts={pendingAlerts} onAcknowledge={acknowledgeAlerts} theme={theme} isDark={isDark} />
+
             {/* Portfolio Table */}
             <div className={`rounded-xl shadow-sm border overflow-hidden transition-colors ${theme.card}`}>
               <div className={`px-6 py-4 border-b flex justify-between items-center ${isDark ? 'border-gray-800' : 'border-gray-100 bg-gray-50'}`}>
                 <h2 className="font-semibold">持股明細</h2>
+                <div className="flex items-center space-x-2">
+                <input
+                  type="date"
+                  value={refDate}
+                  max={today}
+                  onChange={(e) => setViewDate(e.target.value)}
+                  title="檢視過去某天的持股"
+                  className={`p-1 border rounded text-sm ${theme.input}`}
+                />
+                {asOfView && (
+                  <button onClick={() => setViewDate('')} className={`text-sm ${theme.buttonSecondary}`}>回到今天</button>
+                )}
+                <button
+                  onClick={refreshQuotes}
+                  disabled={quoteStatus.loading || holdings.length === 0}
+                  title={quoteSettings.provider === 'manual' ? '尚未設定報價來源' : `來源：${QUOTE_PROVIDER_LABELS[quoteSettings.provider]}`}
+                  className={`flex items-center space-x-1 px-3 py-1.5 border rounded-lg text-sm transition-colors disabled:opacity-50 ${isDark ? 'border-gray-700 hover:bg-gray-800' : 'border-gray-300 hover:bg-gray-50'}`}
+                >
+                  <RefreshCw size={16} className={quoteStatus.loading ? 'animate-spin' : ''} />
+                  <span>更新報價</span>
+                </button>
                 <button 
-                  onClick={() => setShowAddModal(true)}
+                  onClick={openAddModal}
                   className="flex items-center space-x-1 bg-red-600 hover:bg-red-700 text-white px-3 py-1.5 rounded-lg text-sm transition-colors"
                 >
                   <Plus size={16} />
                   <span>記一筆</span>
                 </button>
+                </div>
               </div>
+
+              {asOfView && (
+                <div className={`mx-4 mt-3 p-2 rounded border text-xs flex items-center ${theme.yellowBg}`}>
+                  <History size={14} className="mr-1" />顯示 {refDate} 的持股，現價取當天或之前最近的歷史價 (沒有時用當時成交價)。
+                </div>
+              )}
+              {!asOfView && (quoteStatus.errors.length > 0 || holdings.some(h => isStale(h.ticker))) && (
+                <div className={`mx-4 mt-3 p-2 rounded border text-xs ${theme.yellowBg}`}>
+                  {holdings.some(h => isStale(h.ticker)) && (
+                    <div className="flex items-center"><AlertCircle size={14} className="mr-1" />{holdings.filter(h => isStale(h.ticker)).length} 檔現價超過 {quoteSettings.staleHours} 小時未更新，市值與損益可能失真。</div>
+                  )}
+                  {quoteStatus.errors.map(e => <div key={e} className="mt-1">{e}</div>)}
+                </div>
+              )}
               
               <div className="overflow-x-auto">
                 <table className="w-full text-sm text-left">
@@ -537,20 +1242,25 @@ export default function StockTrackerApp() {
                       <th className={`${paddingClass} font-semibold text-xs uppercase tracking-wider text-right`}><button onClick={() => requestSort('avgCost')} className="flex items-center ml-auto">均價 {getSortIcon('avgCost')}</button></th>
                       <th className={`${paddingClass} font-semibold text-xs uppercase tracking-wider text-right w-32 ${isDark ? 'bg-yellow-900/20 text-yellow-600 border-yellow-800' : 'bg-yellow-50/60 text-yellow-800 border-yellow-100'} border-b`}>現價 (輸入)</th>
                       <th className={`${paddingClass} font-semibold text-xs uppercase tracking-wider text-right`}><button onClick={() => requestSort('marketValue')} className="flex items-center ml-auto">市值 {getSortIcon('marketValue')}</button></th>
+                      <th className={`${paddingClass} font-semibold text-xs uppercase tracking-wider text-right`}>日變動</th>
+                      <th className={`${paddingClass} font-semibold text-xs uppercase tracking-wider text-right`}>週變動</th>
                       <th className={`${paddingClass} font-semibold text-xs uppercase tracking-wider text-right`}><button onClick={() => requestSort('unrealizedPL')} className="flex items-center ml-auto">損益 {getSortIcon('unrealizedPL')}</button></th>
+                      <th className={`${paddingClass} font-semibold text-xs uppercase tracking-wider text-right`}><button onClick={() => requestSort('totalReturn')} className="flex items-center ml-auto" title="未實現損益 + 持有期間股利">總報酬 {getSortIcon('totalReturn')}</button></th>
                       <th className={`${paddingClass} font-semibold text-xs uppercase tracking-wider text-right`}><button onClick={() => requestSort('roi')} className="flex items-center ml-auto">報酬率 {getSortIcon('roi')}</button></th>
                       <th className={`${paddingClass} font-semibold text-xs uppercase tracking-wider text-center`}>操作</th>
                     </tr>
                   </thead>
                   <tbody className={`divide-y ${theme.divider}`}>
-                    {getSortedData(holdings).length === 0 ? (
-                      <tr><td colSpan={9} className={`px-6 py-8 text-center ${theme.subText}`}>無持倉，請新增交易</td></tr>
-                    ) : getSortedData(holdings).map((h) => (
-                      <tr key={h.ticker} className={`transition-colors ${theme.tableRowHover}`}>
+                    {getSortedData(tableHoldings).length === 0 ? (
+                      <tr><td colSpan={12} className={`px-6 py-8 text-center ${theme.subText}`}>{asOfView ? `${refDate} 無持倉` : '無持倉，請新增交易'}</td></tr>
+                    ) : getSortedData(tableHoldings).map((h) => (
+                      <Fragment key={h.ticker}>
+                      <tr className={`transition-colors ${theme.tableRowHover} ${!asOfView && alertsByTicker.has(h.ticker) ? (isDark ? 'bg-amber-900/20 shadow-[inset_3px_0_0_#f59e0b]' : 'bg-amber-50 shadow-[inset_3px_0_0_#f59e0b]') : ''}`}>
                         <td className={paddingClass}>
                           <button
                             onClick={() => handleTickerClick(h.ticker)}
                             className="text-left group"
+                            title={!asOfView && alertsByTicker.has(h.ticker) ? alertsByTicker.get(h.ticker)!.map(a => a.message).join('\n') : undefined}
                           >
                             <div className={`font-bold text-base group-hover:underline transition-colors ${
                               h.market === 'TW'
@@ -580,9 +1290,19 @@ export default function StockTrackerApp() {
                              )}
                           </div>
                         </td>
-                        <td className={`${paddingClass} text-right font-medium`}>{formatNumber(h.shares, h.market === 'US' ? 2 : 0)}</td>
+                        <td className={`${paddingClass} text-right font-medium`}>
+                          {formatNumber(h.shares, h.market === 'US' ? 2 : 0)}
+                          {h.loanBalance > 0 && (() => {
+                            const ratio = getMarginMaintenance(h);
+                            const below = ratio !== null && ratio < getCreditRates(h.market, settings).maintenance;
+                            return <div className={`text-[10px] font-normal ${below ? 'text-red-500 font-bold' : theme.subText}`} title={`融資金額 ${formatNumber(h.loanBalance, 0)}`}>融資維持率 {ratio !== null ? `${(ratio * 100).toFixed(0)}%` : '—'}</div>;
+                          })()}
+                        </td>
                         <td className={`${paddingClass} text-right ${theme.subText}`}>{formatNumber(h.avgCost, 2)}</td>
                         <td className={`${paddingClass} text-right ${theme.priceInputWrapper}`}>
+                          {asOfView ? (
+                            <div className="font-bold">{formatNumber(tablePrices[h.ticker] || 0, 2)}</div>
+                          ) : (<>
                           <input
                             type="number"
                             className={`w-20 text-right p-1 border rounded focus:ring-2 focus:ring-red-500 outline-none font-bold shadow-sm ${theme.priceInput}`}
@@ -590,17 +1310,48 @@ export default function StockTrackerApp() {
                             placeholder="輸入"
                             onChange={(e) => updatePrice(h.ticker, e.target.value)}
                           />
+                          <div className={`text-[10px] mt-1 flex items-center justify-end ${isStale(h.ticker) ? 'text-yellow-500' : theme.subText}`} title={priceUpdatedAt[h.ticker] ? `更新於 ${new Date(priceUpdatedAt[h.ticker]).toLocaleString('zh-TW')}` : '尚未記錄更新時間'}>
+                            {isStale(h.ticker) && <Clock size={10} className="mr-0.5" />}{formatUpdatedAt(priceUpdatedAt[h.ticker])}
+                          </div>
+                          </>)}
                         </td>
                         <td className={`${paddingClass} text-right font-medium`}>{formatCurrency(h.marketValue, h.currency)}</td>
+                        {renderChange(getPriceChange(priceHistory, h, tablePrices[h.ticker] || 0, refDate, 1), h)}
+                        {renderChange(getPriceChange(priceHistory, h, tablePrices[h.ticker] || 0, refDate, 7), h)}
                         <td className={`${paddingClass} text-right font-bold ${getColor(h.unrealizedPL)}`}>
                           {h.unrealizedPL > 0 ? '+' : ''}{formatNumber(h.unrealizedPL, h.market === 'US' ? 2 : 0)}
                         </td>
+                        <td className={`${paddingClass} text-right ${getColor(h.totalReturn)}`}>
+                          <div className="font-bold">{h.totalReturn > 0 ? '+' : ''}{formatNumber(h.totalReturn, h.market === 'US' ? 2 : 0)}</div>
+                          {h.dividendIncome !== 0 && <div className={`text-xs ${theme.subText}`}>股利 {formatNumber(h.dividendIncome, h.market === 'US' ? 2 : 0)}</div>}
+                        </td>
                         <td className={`${paddingClass} text-right`}>
                           <span className={`inline-block px-2 py-1 rounded text-xs font-bold ${getBgColor(h.roi)} ${getColor(h.roi)}`}>
                              {h.roi > 0 ? '+' : ''}{h.roi.toFixed(2)}%
                           </span>
                         </td>
-                        <td className={`${paddingClass} text-center`}>
+                        <td className={`${paddingClass} text-center whitespace-nowrap`}>
+                          <button
+                            onClick={() => setExpandedHolding(expandedHolding === h.ticker ? null : h.ticker)}
+                            className={`${expandedHolding === h.ticker ? 'text-red-500' : theme.buttonSecondary} p-1 transition-colors`}
+                            title="查看買進批次"
+                          >
+                            <Layers size={16} />
+                          </button>
+                          <button
+                            onClick={() => setEditingAlertTicker(editingAlertTicker === h.ticker ? null : h.ticker)}
+                            className={`${editingAlertTicker === h.ticker || alertLevels[h.ticker] ? 'text-amber-500' : theme.buttonSecondary} p-1 transition-colors`}
+                            title="設定目標價 / 停損價"
+                          >
+                            <Bell size={16} />
+                          </button>
+                          <button
+                            onClick={() => setJournalTicker(journalTicker === h.ticker ? null : h.ticker)}
+                            className={`${journalTicker === h.ticker || tickerNotes[h.ticker] ? 'text-blue-500' : theme.buttonSecondary} p-1 transition-colors`}
+                            title="筆記"
+                          >
+                            <NotebookPen size={16} />
+                          </button>
                           <button
                             onClick={() => setDeleteTargetTicker(h.ticker)}
                             className={`${theme.buttonSecondary} p-1 transition-colors hover:text-red-500`}
@@ -610,17 +1361,175 @@ export default function StockTrackerApp() {
                           </button>
                         </td>
                       </tr>
+                      {editingAlertTicker === h.ticker && (
+                        <tr className={isDark ? 'bg-gray-800/40' : 'bg-gray-50'}>
+                          <td colSpan={12} className={paddingClass}>
+                            <AlertLevelsEditor
+                              levels={alertLevels[h.ticker]}
+                              currentPrice={manualPrices[h.ticker] || 0}
+                              peakPrice={getPeakPrice(priceHistory, h, manualPrices[h.ticker] || 0)}
+                              onSave={(levels) => saveAlertLevels(h.ticker, levels)}
+                              onCancel={() => setEditingAlertTicker(null)}
+                              theme={theme}
+                            />
+                          </td>
+                        </tr>
+                      )}
+                      {journalTicker === h.ticker && (
+                        <tr className={isDark ? 'bg-gray-800/40' : 'bg-gray-50'}>
+                          <td colSpan={12} className={paddingClass}>
+                            <TickerJournal
+                              ticker={h.ticker}
+                              note={tickerNotes[h.ticker] || ''}
+                              entries={getTransactionNotes(transactions, h.ticker)}
+                              onSave={(note) => saveTickerNote(h.ticker, note)}
+                              theme={theme}
+                              isDark={isDark}
+                            />
+                          </td>
+                        </tr>
+                      )}
+                      {expandedHolding === h.ticker && (
+                        <tr className={isDark ? 'bg-gray-800/40' : 'bg-gray-50'}>
+                          <td colSpan={12} className={paddingClass}>
+                            <div className={`text-xs mb-2 ${theme.subText}`}>未沖銷批次 · 成本法：{COST_BASIS_LABELS[getCostBasisMethod(h.market, settings)]}</div>
+                            <table className="w-full text-xs">
+                              <thead className={theme.subText}>
+                                <tr>
+                                  <th className="text-left py-1">買進日期</th>
+                                  <th className="text-right py-1">原始股數</th>
+                                  <th className="text-right py-1">剩餘股數</th>
+                                  <th className="text-right py-1">每股成本</th>
+                                  <th className="text-right py-1">剩餘成本</th>
+                                </tr>
+                              </thead>
+                              <tbody>
+                                {h.lots.map(lot => (
+                                  <tr key={lot.lotId}>
+                                    <td className="py-1">{lot.date}</td>
+                                    <td className="text-right py-1">{formatNumber(lot.originalShares, h.market === 'US' ? 2 : 0)}</td>
+                                    <td className="text-right py-1">{formatNumber(lot.shares, h.market === 'US' ? 2 : 0)}</td>
+                                    <td className="text-right py-1">{formatNumber(lot.costPerShare, 2)}</td>
+                                    <td className="text-right py-1">{formatCurrency(lot.totalCost, h.currency)}</td>
+                                  </tr>
+                                ))}
+                              </tbody>
+                            </table>
+                          </td>
+                        </tr>
+                      )}
+                      </Fragment>
                     ))}
                   </tbody>
                 </table>
               </div>
             </div>
+
+            {!asOfView && (
+              <CreditView
+                holdings={holdings}
+                shorts={shorts}
+                accountSummaries={creditAccounts}
+                settings={settings}
+                theme={theme}
+                isDark={isDark}
+                paddingClass={paddingClass}
+              />
+            )}
           </>
         )}
 
+        {/* Plans Tab */}
+        {activeTab === 'plans' && (
+          <PlanView
+            plans={investmentPlans}
+            pending={pendingTransactions}
+            prices={manualPrices}
+            settings={settings}
+            accounts={accounts}
+            defaultAccountId={activeAccountId || DEFAULT_ACCOUNT_ID}
+            today={today}
+            onSavePlan={saveInvestmentPlan}
+            onDeletePlan={deleteInvestmentPlan}
+            onConfirm={confirmPlanBuy}
+            onSkip={skipPlanBuy}
+            theme={theme}
+            isDark={isDark}
+            paddingClass={paddingClass}
+          />
+        )}
+
+        {/* Watchlist Tab */}
+        {activeTab === 'watchlist' && (
+          <WatchlistView
+            items={watchlist}
+            prices={manualPrices}
+            holdings={allHoldings}
+            realizedGains={realizedGains}
+            today={today}
+            refreshing={quoteStatus.loading}
+            onChange={setWatchlist}
+            onUpdatePrice={updatePrice}
+            onRecordBuy={openBuyFromWatchlist}
+            onRefresh={refreshQuotes}
+            theme={theme}
+            isDark={isDark}
+            paddingClass={paddingClass}
+          />
+        )}
+
+        {/* Rebalance Tab */}
+        {activeTab === 'rebalance' && (
+          <RebalanceView
+            transactions={transactions}
+            settings={settings}
+            accounts={accounts}
+            defaultAccountId={activeAccountId}
+            prices={manualPrices}
+            fxRates={fxRates}
+            watchlist={watchlist}
+            options={rebalanceSettings}
+            today={today}
+            onChangeOptions={setRebalanceSettings}
+            onApply={handleApplyRebalance}
+            theme={theme}
+            isDark={isDark}
+            paddingClass={paddingClass}
+          />
+        )}
+
+        {/* Charts Tab */}
+        {activeTab === 'charts' && chartData && (
+          <ChartsView
+            byTicker={chartData.byTicker}
+            byMarket={chartData.byMarket}
+            timeline={chartData.timeline}
+            monthly={chartData.monthly}
+            baseCurrency={settings.baseCurrency}
+            theme={theme}
+            isDark={isDark}
+          />
+        )}
+
+        {/* Performance Tab */}
+        {activeTab === 'performance' && (
+          <PerformanceView
+            transactions={transactions}
+            settings={settings}
+            prices={manualPrices}
+            fxRates={fxRates}
+            today={today}
+            ledgerOptions={ledgerOptions}
+            theme={theme}
+            isDark={isDark}
+            paddingClass={paddingClass}
+          />
+        )}
+
         {/* Realized Gains Tab */}
         {activeTab === 'realized' && (
-          <div className={`rounded-xl shadow-sm border transition-colors ${theme.card}`}>
+          <>
+          <div className={`rounded-xl shadow-sm border transition-colors print:hidden ${theme.card}`}>
             <div className={`px-6 py-4 border-b ${isDark ? 'border-gray-800' : 'border-gray-100 bg-gray-50'}`}>
               <h2 className="font-semibold flex items-center"><History size={18} className="mr-2"/>已實現損益 (已賣出)</h2>
             </div>
@@ -633,17 +1542,19 @@ export default function StockTrackerApp() {
                       <th className={`${paddingClass} font-medium text-right`}>賣出總收入</th>
                       <th className={`${paddingClass} font-medium text-right`}>總成本</th>
                       <th className={`${paddingClass} font-medium text-right`}>已實現損益</th>
+                      <th className={`${paddingClass} font-medium text-right`}>股利收入</th>
                       <th className={`${paddingClass} font-medium text-right`}>報酬率</th>
                     </tr>
                   </thead>
                   <tbody className={`divide-y ${theme.divider}`}>
                     {realizedGains.length === 0 ? (
-                      <tr><td colSpan={6} className={`px-6 py-8 text-center ${theme.subText}`}>尚無已實現損益紀錄</td></tr>
+                      <tr><td colSpan={7} className={`px-6 py-8 text-center ${theme.subText}`}>尚無已實現損益紀錄</td></tr>
                     ) : realizedGains.map((r) => (
-                      <tr key={r.ticker} className={`transition-colors ${theme.tableRowHover}`}>
+                      <Fragment key={r.ticker}>
+                      <tr className={`transition-colors cursor-pointer ${theme.tableRowHover}`} onClick={() => setExpandedRealized(expandedRealized === r.ticker ? null : r.ticker)}>
                          <td className={paddingClass}>
                           <button 
-                            onClick={() => handleTickerClick(r.ticker)}
+                            onClick={(e) => { e.stopPropagation(); handleTickerClick(r.ticker); }}
                             className="text-left group"
                             title="查看交易紀錄"
                           >
@@ -668,21 +1579,101 @@ export default function StockTrackerApp() {
                         <td className={`${paddingClass} text-right font-bold ${getColor(r.realizedPL)}`}>
                           {r.realizedPL > 0 ? '+' : ''}{formatCurrency(r.realizedPL, r.currency)}
                         </td>
+                        <td className={`${paddingClass} text-right ${theme.subText}`}>{formatCurrency(r.dividendIncome, r.currency)}</td>
                          <td className={`${paddingClass} text-right`}>
                           <span className={`inline-block px-2 py-1 rounded text-xs font-bold ${getBgColor(r.roi)} ${getColor(r.roi)}`}>
                              {r.roi > 0 ? '+' : ''}{r.roi.toFixed(2)}%
                           </span>
                         </td>
                       </tr>
+                      {expandedRealized === r.ticker && (
+                        <tr className={isDark ? 'bg-gray-800/40' : 'bg-gray-50'}>
+                          <td colSpan={7} className={paddingClass}>
+                            <table className="w-full text-xs">
+                              <thead className={theme.subText}>
+                                <tr>
+                                  <th className="text-left py-1">買進日期</th>
+                                  <th className="text-left py-1">賣出日期</th>
+                                  <th className="text-right py-1">股數</th>
+                                  <th className="text-right py-1">成本</th>
+                                  <th className="text-right py-1">收入</th>
+                                  <th className="text-right py-1">損益</th>
+                                </tr>
+                              </thead>
+                              <tbody>
+                                {r.closedLots.map(lot => (
+                                  <tr key={`${lot.sellId}-${lot.lotId}`}>
+                                    <td className="py-1">
+                                      {lot.buyDate}
+                                      {lot.isShort && <span className="ml-1 text-[10px] font-bold text-green-500" title="融券：買進日期欄為放空日期，賣出日期欄為回補日期">融券</span>}
+                                    </td>
+                                    <td className="py-1">{lot.sellDate}</td>
+                                    <td className="text-right py-1">{formatNumber(lot.shares, r.market === 'US' ? 2 : 0)}</td>
+                                    <td className="text-right py-1" title={lot.interest ? `含${lot.isShort ? '借券費' : '融資利息'} ${formatCurrency(lot.interest, r.currency)}` : undefined}>
+                                      {formatCurrency(lot.cost, r.currency)}
+                                      {lot.interest ? <span className={`block text-[10px] ${theme.subText}`}>{lot.isShort ? '借券費' : '利息'} {formatNumber(lot.interest, 0)}</span> : null}
+                                    </td>
+                                    <td className="text-right py-1">{formatCurrency(lot.proceeds, r.currency)}</td>
+                                    <td className={`text-right py-1 font-bold ${getColor(lot.realizedPL)}`}>{lot.realizedPL > 0 ? '+' : ''}{formatCurrency(lot.realizedPL, r.currency)}</td>
+                                  </tr>
+                                ))}
+                              </tbody>
+                            </table>
+                            <div className={`mt-3 pt-3 border-t ${isDark ? 'border-gray-700' : 'border-gray-200'}`}>
+                              <TickerJournal
+                                ticker={r.ticker}
+                                note={tickerNotes[r.ticker] || ''}
+                                entries={getTransactionNotes(transactions, r.ticker)}
+                                onSave={(note) => saveTickerNote(r.ticker, note)}
+                                theme={theme}
+                                isDark={isDark}
+                              />
+                            </div>
+                          </td>
+                        </tr>
+                      )}
+                      </Fragment>
                     ))}
                   </tbody>
                 </table>
              </div>
           </div>
+
+          <div className="mt-6">
+            <TaxReportView
+              realizedGains={realizedGains}
+              transactions={transactions}
+              theme={theme}
+              isDark={isDark}
+              paddingClass={paddingClass}
+            />
+          </div>
+          </>
         )}
 
         {/* Transactions Tab */}
         {activeTab === 'transactions' && (
+          <>
+          <IntegrityPanel
+            issues={ledgerIssues}
+            accountName={accountName}
+            showAccounts={accounts.length > 1}
+            onShow={showIssueTransactions}
+            theme={theme}
+            isDark={isDark}
+          />
+          <CashView
+            entries={viewCashEntries}
+            balances={cash.balances}
+            accounts={accounts}
+            defaultAccountId={activeAccountId || DEFAULT_ACCOUNT_ID}
+            today={today}
+            onAdd={addCashEntry}
+            onDelete={deleteCashEntry}
+            theme={theme}
+            isDark={isDark}
+            paddingClass={paddingClass}
+          />
           <div className={`rounded-xl shadow-sm border transition-colors ${theme.card}`}>
              <div className={`px-6 py-4 border-b flex flex-col md:flex-row md:justify-between md:items-center gap-4 ${isDark ? 'border-gray-800' : 'border-gray-100 bg-gray-50'}`}>
                 <div className="flex items-center space-x-4">
@@ -694,18 +1685,53 @@ export default function StockTrackerApp() {
                       <button onClick={() => setFilterTicker(null)} className="ml-2 hover:bg-blue-200 dark:hover:bg-blue-800 rounded-full p-0.5 transition-colors"><X size={14} /></button>
                     </div>
                   )}
+                  {issueFilter && (
+                    <div className="flex items-center bg-red-100 dark:bg-red-900/40 text-red-700 dark:text-red-300 px-3 py-1 rounded-full text-sm">
+                      <AlertTriangle size={14} className="mr-1" />
+                      <span>帳務問題 {issueFilter.length} 筆</span>
+                      <button onClick={() => setIssueFilter(null)} className="ml-2 hover:bg-red-200 dark:hover:bg-red-800 rounded-full p-0.5 transition-colors"><X size={14} /></button>
+                    </div>
+                  )}
+                </div>
+                <div className="flex items-center space-x-2">
+                  <div className="relative">
+                    <Search size={14} className={`absolute left-2 top-1/2 -translate-y-1/2 ${theme.subText}`} />
+                    <input
+                      type="search"
+                      value={transactionFilters.text}
+                      onChange={(e) => setTransactionFilters({ ...transactionFilters, text: e.target.value })}
+                      placeholder="搜尋代號、名稱或筆記"
+                      className={`pl-7 pr-2 py-1.5 w-44 border rounded-lg text-sm ${theme.input}`}
+                    />
+                  </div>
+                  <button
+                    onClick={() => setShowFilterBar(!showFilterBar)}
+                    title="進階篩選"
+                    className={`flex items-center space-x-1 border px-3 py-1.5 rounded-lg text-sm ${showFilterBar || countActiveFilters(transactionFilters) > 0 ? 'border-blue-500 text-blue-500' : isDark ? 'border-gray-700 hover:bg-gray-800' : 'border-gray-300 hover:bg-gray-50 text-gray-700'}`}
+                  >
+                    <Filter size={16} />
+                    <span>篩選{countActiveFilters(transactionFilters) > 0 && ` (${countActiveFilters(transactionFilters)})`}</span>
+                  </button>
+                  <button
+                    onClick={() => setShowImportModal(true)}
+                    className={`flex items-center justify-center space-x-1 border px-3 py-1.5 rounded-lg text-sm ${isDark ? 'border-gray-700 hover:bg-gray-800' : 'border-gray-300 hover:bg-gray-50 text-gray-700'}`}
+                  >
+                    <Upload size={16} />
+                    <span>匯入</span>
+                  </button>
+                  <button 
+                    onClick={openAddModal}
+                    className="flex items-center justify-center space-x-1 bg-red-600 hover:bg-red-700 text-white px-3 py-1.5 rounded-lg text-sm"
+                  >
+                    <Plus size={16} />
+                    <span>記一筆</span>
+                  </button>
                 </div>
-                <button 
-                  onClick={() => setShowAddModal(true)}
-                  className="flex items-center justify-center space-x-1 bg-red-600 hover:bg-red-700 text-white px-3 py-1.5 rounded-lg text-sm"
-                >
-                  <Plus size={16} />
-                  <span>記一筆</span>
-                </button>
               </div>
-              <div className="overflow-x-auto">
+              {showFilterBar && <TransactionFilterBar filters={transactionFilters} onChange={setTransactionFilters} theme={theme} isDark={isDark} />}
+              <div ref={transactionListRef} onScroll={onTransactionListScroll} className={virtualizeTransactions ? 'overflow-auto max-h-[70vh]' : 'overflow-x-auto'}>
                 <table className="w-full text-sm text-left">
-                  <thead className={`${theme.tableHeader}`}>
+                  <thead className={`${theme.tableHeader} ${virtualizeTransactions ? 'sticky top-0 z-[1]' : ''}`}>
                     <tr>
                       <th className={`${paddingClass} font-medium`}>日期</th>
                       <th className={`${paddingClass} font-medium`}>市場</th>
@@ -719,38 +1745,99 @@ export default function StockTrackerApp() {
                     </tr>
                   </thead>
                   <tbody className={`divide-y ${theme.divider}`}>
+                    {virtualizeTransactions && transactionPaddingTop > 0 && <tr aria-hidden="true" style={{ height: transactionPaddingTop }}><td colSpan={9} /></tr>}
                     {displayedTransactions.length === 0 ? (
-                       <tr><td colSpan={9} className={`px-6 py-8 text-center ${theme.subText}`}>{filterTicker ? '此代號無交易紀錄' : '尚無紀錄'}</td></tr>
-                    ) : displayedTransactions.map((t) => (
-                      <tr key={t.id} className={`transition-colors ${theme.tableRowHover}`}>
-                        <td className={`${paddingClass} ${theme.subText}`}>{t.date}</td>
+                       <tr><td colSpan={9} className={`px-6 py-8 text-center ${theme.subText}`}>{searchingNotes || countActiveFilters(transactionFilters) > 0 ? '沒有符合的交易' : filterTicker ? '此代號無交易紀錄' : '尚無紀錄'}</td></tr>
+                    ) : visibleTransactions.map((t) => (
+                      <Fragment key={t.id}>
+                      <tr ref={virtualizeTransactions ? measureTransactionRow(`${density}|${t.id}`) : undefined} className={`transition-colors ${issuesByTransaction.has(t.id) ? (isDark ? 'bg-red-900/10' : 'bg-red-50/60') : ''} ${theme.tableRowHover}`}>
+                        <td className={`${paddingClass} ${theme.subText}`}>
+                          <div className="flex items-center">
+                            {t.date}
+                            {issuesByTransaction.has(t.id) && (
+                              <span title={issuesByTransaction.get(t.id)!.map(i => i.message).join('\n')}>
+                                <AlertTriangle size={14} className={`ml-1 ${issuesByTransaction.get(t.id)!.some(i => i.severity === 'error') ? 'text-red-500' : 'text-amber-500'}`} />
+                              </span>
+                            )}
+                          </div>
+                        </td>
                         <td className={paddingClass}>
                            <span className={`text-[10px] font-bold px-1 rounded ${t.market === 'TW' ? 'text-green-600 bg-green-50' : 'text-blue-600 bg-blue-50'}`}>{t.market}</span>
                         </td>
                         <td className={paddingClass}>
-                          <span className={`px-2 py-0.5 rounded text-xs ${t.type === 'buy' ? (isDark ? 'bg-red-900/30 text-red-400' : 'bg-red-100 text-red-600') : (isDark ? 'bg-green-900/30 text-green-400' : 'bg-green-100 text-green-600')}`}>
-                            {t.type === 'buy' ? '買進' : '賣出'}
+                          <span className={`px-2 py-0.5 rounded text-xs ${t.type === 'buy' ? (isDark ? 'bg-red-900/30 text-red-400' : 'bg-red-100 text-red-600') : t.type === 'sell' ? (isDark ? 'bg-green-900/30 text-green-400' : 'bg-green-100 text-green-600') : (isDark ? 'bg-amber-900/30 text-amber-400' : 'bg-amber-100 text-amber-700')}`}>
+                            {TRANSACTION_TYPE_LABELS[t.type]}
                           </span>
+                          {(t.isDayTrade || t.isBondETF) && <span className={`ml-1 text-[10px] ${theme.subText}`}>{t.isDayTrade ? '當沖' : '債券ETF'}</span>}
+                          {t.planId && <span className={`ml-1 text-[10px] ${theme.subText}`}>定期定額</span>}
+                          {t.credit && (t.type === 'buy' || t.type === 'sell') && (
+                            <span className={`ml-1 text-[10px] font-bold ${t.credit === 'margin' ? 'text-red-500' : 'text-green-500'}`} title={t.loanAmount ? `${t.credit === 'margin' ? '融資金額' : '保證金'} ${formatNumber(t.loanAmount, 0)}` : undefined}>{getCreditActionLabel(t.type, t.credit)}</span>
+                          )}
+                          {accounts.length > 1 && (
+                            <div className={`text-xs mt-1 whitespace-nowrap ${theme.subText}`}>
+                              {accountName(getAccountId(t))}{t.type === 'transfer' && t.toAccountId && ` → ${accountName(t.toAccountId)}`}
+                            </div>
+                          )}
                         </td>
                         <td className={`${paddingClass} font-medium`}>
                            <div>{t.name}</div>
                            <div className={`text-xs ${theme.subText}`}>{t.ticker}</div>
                         </td>
-                        <td className={`${paddingClass} text-right ${theme.subText}`}>{formatNumber(t.price, 2)}</td>
-                        <td className={`${paddingClass} text-right ${theme.subText}`}>{formatNumber(t.shares, t.market === 'US' ? 2 : 0)}</td>
-                        <td className={`${paddingClass} text-right ${theme.subText}`}>{formatNumber(t.fee + t.tax, 2)}</td>
+                        <td className={`${paddingClass} text-right ${theme.subText}`}>{t.type === 'stockDividend' || t.type === 'split' || t.type === 'transfer' ? '-' : formatNumber(t.price, 2)}</td>
+                        <td className={`${paddingClass} text-right ${theme.subText}`}>{t.type === 'split' ? `× ${t.ratio}` : formatNumber(t.shares, t.market === 'US' ? 2 : 0)}{t.type === 'capitalReduction' && ` (× ${t.ratio})`}</td>
+                        <td className={`${paddingClass} text-right ${theme.subText}`} title={t.manualFee ? '手動輸入費用' : undefined}>{formatNumber(t.fee + t.tax, 2)}{t.manualFee && <span className="ml-1 text-amber-500">*</span>}</td>
                         <td className={`${paddingClass} text-right font-medium`}>
                           {t.market === 'TW' ? 'NT$' : 'US$'} {formatNumber(t.totalAmount, 0)}
                         </td>
-                        <td className={`${paddingClass} text-center`}>
-                          <button onClick={() => setDeleteTargetId(t.id)} className={`${theme.buttonSecondary} p-1 transition-colors hover:text-red-500`}><Trash2 size={16} /></button>
+                        <td className={`${paddingClass} text-center whitespace-nowrap`}>
+                          {t.note && (
+                            <button onClick={() => setExpandedNoteId(expandedNoteId === t.id ? null : t.id)} className={`${expandedNoteId === t.id ? 'text-blue-500' : theme.buttonSecondary} p-1 transition-colors`} title="查看筆記"><NotebookText size={16} /></button>
+                          )}
+                          <button onClick={() => openEditModal(t)} className={`${theme.buttonSecondary} p-1 transition-colors hover:text-blue-500`} title="編輯"><Pencil size={16} /></button>
+                          <button onClick={() => setDeleteTargetId(t.id)} className={`${theme.buttonSecondary} p-1 transition-colors hover:text-red-500`} title="刪除"><Trash2 size={16} /></button>
                         </td>
                       </tr>
+                      {/* 搜尋時直接展開筆記，方便回顧 */}
+                      {t.note && (expandedNoteId === t.id || searchingNotes) && (
+                        <tr ref={virtualizeTransactions ? measureTransactionRow(`${density}|${t.id}|note`) : undefined} className={isDark ? 'bg-gray-800/40' : 'bg-gray-50'}>
+                          <td colSpan={9} className={paddingClass}>
+                            {virtualizeTransactions ? <div className="h-40 overflow-y-auto"><MarkdownNote text={t.note} /></div> : <MarkdownNote text={t.note} />}
+                          </td>
+                        </tr>
+                      )}
+                      </Fragment>
                     ))}
+                    {virtualizeTransactions && transactionPaddingBottom > 0 && <tr aria-hidden="true" style={{ height: transactionPaddingBottom }}><td colSpan={9} /></tr>}
                   </tbody>
+                  {/* 篩選結果小計，依市場 (幣別) 分列 */}
+                  {transactionSubtotals.length > 0 && (
+                    <tfoot className={`${theme.tableHeader} text-xs border-t ${isDark ? 'border-gray-700' : 'border-gray-200'} ${virtualizeTransactions ? 'sticky bottom-0' : ''}`}>
+                      {transactionSubtotals.map(sub => (
+                        <tr key={sub.market}>
+                          <td colSpan={5} className={`${paddingClass} font-medium`}>
+                            小計 · {sub.market === 'TW' ? '台股' : '美股'} {formatNumber(sub.count, 0)} 筆
+                          </td>
+                          <td className={`${paddingClass} text-right`} title="買進股數 / 賣出股數">
+                            <div>+{formatNumber(sub.buyShares, sub.market === 'US' ? 2 : 0)}</div>
+                            <div>-{formatNumber(sub.sellShares, sub.market === 'US' ? 2 : 0)}</div>
+                          </td>
+                          <td className={`${paddingClass} text-right`}>
+                            <div>手續費 {formatNumber(sub.fee, 2)}</div>
+                            <div>稅 {formatNumber(sub.tax, 2)}</div>
+                          </td>
+                          <td className={`${paddingClass} text-right`}>
+                            <div>買 {formatCurrency(sub.buyAmount, getCurrency(sub.market))}</div>
+                            <div>賣 {formatCurrency(sub.sellAmount, getCurrency(sub.market))}</div>
+                          </td>
+                          <td className={paddingClass} />
+                        </tr>
+                      ))}
+                    </tfoot>
+                  )}
                 </table>
               </div>
           </div>
+          </>
         )}
 
         {/* Settings Tab */}
@@ -775,12 +1862,34 @@ export default function StockTrackerApp() {
                 <div className="grid grid-cols-2 gap-4">
                   <div>
                     <label className={`block text-xs font-medium mb-1 ${theme.subText}`}>折扣 (e.g. 0.6)</label>
-                    <input type="number" step="0.01" value={settings.twDiscount} onChange={(e) => setSettings({...settings, twDiscount: parseFloat(e.target.value)})} className={`w-full p-2 border rounded ${theme.input}`} />
+                    <input type="number" step="0.01" value={settings.twDiscount} onChange={(e) => updateSettings({...settings, twDiscount: parseFloat(e.target.value)})} className={`w-full p-2 border rounded ${theme.input}`} />
                   </div>
                   <div>
                     <label className={`block text-xs font-medium mb-1 ${theme.subText}`}>手續費率 (0.001425)</label>
                     <input type="number" value={settings.twFeeRate} readOnly className={`w-full p-2 border rounded opacity-60 ${theme.input}`} />
                   </div>
+                  <div>
+                    <label className={`block text-xs font-medium mb-1 ${theme.subText}`}>零股最低手續費</label>
+                    <input type="number" step="1" value={settings.twOddLotMinFee} onChange={(e) => updateSettings({...settings, twOddLotMinFee: parseFloat(e.target.value)})} className={`w-full p-2 border rounded ${theme.input}`} />
+                  </div>
+                  <div>
+                    <label className={`block text-xs font-medium mb-1 ${theme.subText}`}>當沖證交稅率 (0.0015)</label>
+                    <input type="number" step="0.0001" value={settings.twDayTradeTaxRate} onChange={(e) => updateSettings({...settings, twDayTradeTaxRate: parseFloat(e.target.value)})} className={`w-full p-2 border rounded ${theme.input}`} />
+                  </div>
+                  <div className="col-span-2">
+                    <label className={`block text-xs font-medium mb-1 ${theme.subText}`}>定期定額最低手續費</label>
+                    <input type="number" step="1" value={settings.twPlanMinFee} onChange={(e) => updateSettings({...settings, twPlanMinFee: parseFloat(e.target.value)})} className={`w-full p-2 border rounded ${theme.input}`} />
+                  </div>
+                  <div className="col-span-2">
+                    <label className={`block text-xs font-medium mb-1 ${theme.subText}`}>股利二代健保費率 (單次 2 萬元以上扣繳)</label>
+                    <input type="number" step="0.0001" value={settings.twDividendNhiRate} onChange={(e) => updateSettings({...settings, twDividendNhiRate: parseFloat(e.target.value)})} className={`w-full p-2 border rounded ${theme.input}`} />
+                  </div>
+                  <div className="col-span-2">
+                    <label className={`block text-xs font-medium mb-1 ${theme.subText}`}>成本計算方式</label>
+                    <select value={settings.twCostBasis} onChange={(e) => updateSettings({...settings, twCostBasis: e.target.value as CostBasisMethod})} className={`w-full p-2 border rounded ${theme.input}`}>
+                      {Object.entries(COST_BASIS_LABELS).map(([value, label]) => <option key={value} value={value}>{label}</option>)}
+                    </select>
+                  </div>
                 </div>
               </div>
 
@@ -792,21 +1901,182 @@ export default function StockTrackerApp() {
                 <div className="grid grid-cols-2 gap-4">
                   <div>
                     <label className={`block text-xs font-medium mb-1 ${theme.subText}`}>手續費率 (0.001 = 0.1%)</label>
-                    <input type="number" step="0.0001" value={settings.usFeeRate} onChange={(e) => setSettings({...settings, usFeeRate: parseFloat(e.target.value)})} className={`w-full p-2 border rounded ${theme.input}`} />
+                    <input type="number" step="0.0001" value={settings.usFeeRate} onChange={(e) => updateSettings({...settings, usFeeRate: parseFloat(e.target.value)})} className={`w-full p-2 border rounded ${theme.input}`} />
                   </div>
                    <div>
                     <label className={`block text-xs font-medium mb-1 ${theme.subText}`}>美股低消 (USD)</label>
-                    <input type="number" step="1" value={settings.usMinFee} onChange={(e) => setSettings({...settings, usMinFee: parseFloat(e.target.value)})} className={`w-full p-2 border rounded ${theme.input}`} />
+                    <input type="number" step="1" value={settings.usMinFee} onChange={(e) => updateSettings({...settings, usMinFee: parseFloat(e.target.value)})} className={`w-full p-2 border rounded ${theme.input}`} />
+                  </div>
+                  <div className="col-span-2">
+                    <label className={`block text-xs font-medium mb-1 ${theme.subText}`}>定期定額最低手續費 (USD)</label>
+                    <input type="number" step="0.01" value={settings.usPlanMinFee} onChange={(e) => updateSettings({...settings, usPlanMinFee: parseFloat(e.target.value)})} className={`w-full p-2 border rounded ${theme.input}`} />
                   </div>
                   <div className="col-span-2">
                     <label className={`block text-xs font-medium mb-1 ${theme.subText}`}>SEC 費率 (賣出收，約 0.000008)</label>
-                    <input type="number" step="0.000001" value={settings.usTaxRate} onChange={(e) => setSettings({...settings, usTaxRate: parseFloat(e.target.value)})} className={`w-full p-2 border rounded ${theme.input}`} />
+                    <input type="number" step="0.000001" value={settings.usTaxRate} onChange={(e) => updateSettings({...settings, usTaxRate: parseFloat(e.target.value)})} className={`w-full p-2 border rounded ${theme.input}`} />
+                  </div>
+                  <div className="col-span-2">
+                    <label className={`block text-xs font-medium mb-1 ${theme.subText}`}>股利預扣稅率 (非美國居民 0.3)</label>
+                    <input type="number" step="0.01" value={settings.usDividendWithholdingRate} onChange={(e) => updateSettings({...settings, usDividendWithholdingRate: parseFloat(e.target.value)})} className={`w-full p-2 border rounded ${theme.input}`} />
+                  </div>
+                  <div className="col-span-2">
+                    <label className={`block text-xs font-medium mb-1 ${theme.subText}`}>成本計算方式</label>
+                    <select value={settings.usCostBasis} onChange={(e) => updateSettings({...settings, usCostBasis: e.target.value as CostBasisMethod})} className={`w-full p-2 border rounded ${theme.input}`}>
+                      {Object.entries(COST_BASIS_LABELS).map(([value, label]) => <option key={value} value={value}>{label}</option>)}
+                    </select>
                   </div>
                 </div>
               </div>
               
+              {/* 信用交易 */}
+              <div className="space-y-4 pt-4">
+                 <h3 className={`text-sm font-semibold uppercase tracking-wider flex items-center ${theme.subText}`}>
+                   <Landmark size={16} className="mr-2" /> 信用交易 (融資 / 融券)
+                 </h3>
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className={`block text-xs font-medium mb-1 ${theme.subText}`}>台股融資成數 (0.6)</label>
+                    <input type="number" step="0.05" value={settings.twMarginLoanRatio} onChange={(e) => updateSettings({...settings, twMarginLoanRatio: parseFloat(e.target.value)})} className={`w-full p-2 border rounded ${theme.input}`} />
+                  </div>
+                  <div>
+                    <label className={`block text-xs font-medium mb-1 ${theme.subText}`}>台股融券保證金成數 (0.9)</label>
+                    <input type="number" step="0.05" value={settings.twShortMarginRatio} onChange={(e) => updateSettings({...settings, twShortMarginRatio: parseFloat(e.target.value)})} className={`w-full p-2 border rounded ${theme.input}`} />
+                  </div>
+                  <div>
+                    <label className={`block text-xs font-medium mb-1 ${theme.subText}`}>台股融資年利率</label>
+                    <input type="number" step="0.0001" value={settings.twMarginInterestRate} onChange={(e) => updateSettings({...settings, twMarginInterestRate: parseFloat(e.target.value)})} className={`w-full p-2 border rounded ${theme.input}`} />
+                  </div>
+                  <div>
+                    <label className={`block text-xs font-medium mb-1 ${theme.subText}`}>台股借券費率 (0.0008)</label>
+                    <input type="number" step="0.0001" value={settings.twShortFeeRate} onChange={(e) => updateSettings({...settings, twShortFeeRate: parseFloat(e.target.value)})} className={`w-full p-2 border rounded ${theme.input}`} />
+                  </div>
+                  <div>
+                    <label className={`block text-xs font-medium mb-1 ${theme.subText}`}>美股融資成數 (Reg T 0.5)</label>
+                    <input type="number" step="0.05" value={settings.usMarginLoanRatio} onChange={(e) => updateSettings({...settings, usMarginLoanRatio: parseFloat(e.target.value)})} className={`w-full p-2 border rounded ${theme.input}`} />
+                  </div>
+                  <div>
+                    <label className={`block text-xs font-medium mb-1 ${theme.subText}`}>美股放空保證金成數 (0.5)</label>
+                    <input type="number" step="0.05" value={settings.usShortMarginRatio} onChange={(e) => updateSettings({...settings, usShortMarginRatio: parseFloat(e.target.value)})} className={`w-full p-2 border rounded ${theme.input}`} />
+                  </div>
+                  <div>
+                    <label className={`block text-xs font-medium mb-1 ${theme.subText}`}>美股融資年利率</label>
+                    <input type="number" step="0.0001" value={settings.usMarginInterestRate} onChange={(e) => updateSettings({...settings, usMarginInterestRate: parseFloat(e.target.value)})} className={`w-full p-2 border rounded ${theme.input}`} />
+                  </div>
+                  <div>
+                    <label className={`block text-xs font-medium mb-1 ${theme.subText}`}>美股借券年利率</label>
+                    <input type="number" step="0.0001" value={settings.usShortBorrowRate} onChange={(e) => updateSettings({...settings, usShortBorrowRate: parseFloat(e.target.value)})} className={`w-full p-2 border rounded ${theme.input}`} />
+                  </div>
+                  <div>
+                    <label className={`block text-xs font-medium mb-1 ${theme.subText}`}>台股追繳維持率 (1.3)</label>
+                    <input type="number" step="0.01" value={settings.twMaintenanceRatio} onChange={(e) => updateSettings({...settings, twMaintenanceRatio: parseFloat(e.target.value)})} className={`w-full p-2 border rounded ${theme.input}`} />
+                  </div>
+                  <div>
+                    <label className={`block text-xs font-medium mb-1 ${theme.subText}`}>美股追繳維持率 (1.3333)</label>
+                    <input type="number" step="0.01" value={settings.usMaintenanceRatio} onChange={(e) => updateSettings({...settings, usMaintenanceRatio: parseFloat(e.target.value)})} className={`w-full p-2 border rounded ${theme.input}`} />
+                  </div>
+                </div>
+              </div>
+
+              {/* 帳戶 */}
+              <AccountManager
+                accounts={accounts}
+                settings={settings}
+                transactionCounts={accountTransactionCounts}
+                onChange={updateAccounts}
+                theme={theme}
+                isDark={isDark}
+              />
+
+              {/* 合併檢視與匯率 */}
+              <div className="space-y-4 pt-4">
+                 <h3 className={`text-sm font-semibold uppercase tracking-wider flex items-center ${theme.subText}`}>
+                   <Globe size={16} className="mr-2" /> 合併檢視與匯率
+                 </h3>
+                <div>
+                  <label className={`block text-xs font-medium mb-1 ${theme.subText}`}>基準幣別</label>
+                  <select value={settings.baseCurrency} onChange={(e) => updateSettings({...settings, baseCurrency: e.target.value as CurrencyType})} className={`w-full p-2 border rounded ${theme.input}`}>
+                    <option value="TWD">新台幣 (TWD)</option>
+                    <option value="USD">美元 (USD)</option>
+                  </select>
+                </div>
+                <div>
+                  <label className={`block text-xs font-medium mb-1 ${theme.subText}`}>USD/TWD 匯率紀錄 (交易日採當天或之前最近一筆)</label>
+                  <div className="flex space-x-2">
+                    <input type="date" value={fxForm.date} onChange={(e) => setFxForm({...fxForm, date: e.target.value})} className={`flex-1 p-2 border rounded ${theme.input}`} />
+                    <input type="number" step="0.001" placeholder="31.5" value={fxForm.rate} onChange={(e) => setFxForm({...fxForm, rate: e.target.value})} className={`w-24 p-2 border rounded ${theme.input}`} />
+                    <button onClick={addFxRate} className="px-3 bg-red-600 hover:bg-red-700 text-white rounded"><Plus size={16} /></button>
+                  </div>
+                  {fxRates.length > 0 && (
+                    <div className={`mt-2 max-h-40 overflow-y-auto divide-y ${theme.divider}`}>
+                      {[...fxRates].reverse().map(r => (
+                        <div key={r.date} className="flex items-center justify-between py-1 text-sm">
+                          <span className={theme.subText}>{r.date}</span>
+                          <span className="flex items-center space-x-2">
+                            <span className="font-medium">{formatNumber(r.rate, 3)}</span>
+                            <button onClick={() => removeFxRate(r.date)} className={`${theme.buttonSecondary} hover:text-red-500`}><X size={14} /></button>
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              </div>
+
+              {/* 報價來源 */}
+              <div className="space-y-4 pt-4">
+                 <h3 className={`text-sm font-semibold uppercase tracking-wider flex items-center ${theme.subText}`}>
+                   <RefreshCw size={16} className="mr-2" /> 報價來源
+                 </h3>
+                <div>
+                  <label className={`block text-xs font-medium mb-1 ${theme.subText}`}>來源</label>
+                  <select value={quoteSettings.provider} onChange={(e) => setQuoteSettings({...quoteSettings, provider: e.target.value as QuoteProviderId})} className={`w-full p-2 border rounded ${theme.input}`}>
+                    {Object.entries(QUOTE_PROVIDER_LABELS).map(([value, label]) => <option key={value} value={value}>{label}</option>)}
+                  </select>
+                </div>
+                {quoteSettings.provider === 'json' && (
+                  <div>
+                    <label className={`block text-xs font-medium mb-1 ${theme.subText}`}>端點網址 (可用 {'{symbols}'} 代入代號，台股為 2330.TW 格式)</label>
+                    <input type="text" value={quoteSettings.url} onChange={(e) => setQuoteSettings({...quoteSettings, url: e.target.value})} className={`w-full p-2 border rounded ${theme.input}`} />
+                    <p className={`text-xs mt-1 ${theme.subText}`}>開發伺服器內建離線模擬端點 /mock-quotes，可在沒有網路時測試。</p>
+                  </div>
+                )}
+                <div>
+                  <label className={`block text-xs font-medium mb-1 ${theme.subText}`}>現價過期提醒 (小時)</label>
+                  <input type="number" min="1" value={quoteSettings.staleHours} onChange={(e) => setQuoteSettings({...quoteSettings, staleHours: parseFloat(e.target.value) || DEFAULT_QUOTE_SETTINGS.staleHours})} className={`w-full p-2 border rounded ${theme.input}`} />
+                </div>
+              </div>
+
+              {/* 價格警示 */}
+              <div className="space-y-4 pt-4">
+                 <h3 className={`text-sm font-semibold uppercase tracking-wider flex items-center ${theme.subText}`}>
+                   <Bell size={16} className="mr-2" /> 價格警示
+                 </h3>
+                <div className="flex items-center space-x-2">
+                  <input type="checkbox" id="browserNotifications" checked={alertSettings.browserNotifications} onChange={(e) => toggleBrowserNotifications(e.target.checked)} className="rounded text-red-600 focus:ring-red-500" />
+                  <label htmlFor="browserNotifications" className={`text-sm ${theme.text}`}>觸發時同時發送瀏覽器通知</label>
+                </div>
+                <p className={`text-xs ${theme.subText}`}>在持股明細按 <Bell size={12} className="inline" /> 設定各檔的目標價、停損價與最大回檔；已設定 {Object.keys(alertLevels).length} 檔。</p>
+              </div>
+
+              {/* 備份與還原 */}
+              <div className="space-y-4 pt-4">
+                 <h3 className={`text-sm font-semibold uppercase tracking-wider flex items-center ${theme.subText}`}>
+                   <Download size={16} className="mr-2" /> 資料備份
+                 </h3>
+                <div className="grid grid-cols-2 gap-2 text-sm">
+                  <button onClick={() => exportFile('json')} className="col-span-2 flex items-center justify-center py-2 bg-red-600 hover:bg-red-700 text-white rounded-lg"><Download size={14} className="mr-1" />完整備份 (JSON)</button>
+                  <button onClick={() => exportFile('transactions')} className={`py-2 border rounded-lg ${isDark ? 'border-gray-700 hover:bg-gray-800' : 'border-gray-300 hover:bg-gray-50'}`}>交易紀錄 CSV</button>
+                  <button onClick={() => exportFile('holdings')} className={`py-2 border rounded-lg ${isDark ? 'border-gray-700 hover:bg-gray-800' : 'border-gray-300 hover:bg-gray-50'}`}>持股明細 CSV</button>
+                  <button onClick={() => exportFile('realized')} className={`py-2 border rounded-lg ${isDark ? 'border-gray-700 hover:bg-gray-800' : 'border-gray-300 hover:bg-gray-50'}`}>已實現損益 CSV</button>
+                  <label className={`flex items-center justify-center py-2 border rounded-lg cursor-pointer ${isDark ? 'border-gray-700 hover:bg-gray-800' : 'border-gray-300 hover:bg-gray-50'}`}>
+                    <RotateCcw size={14} className="mr-1" />從備份還原
+                    <input type="file" accept=".json,application/json" className="hidden" onChange={(e) => { handleRestoreFile(e.target.files?.[0]); e.target.value = ''; }} />
+                  </label>
+                </div>
+              </div>
+
               <div className="pt-4">
-                <button onClick={() => { setSettings(DEFAULT_SETTINGS); alert('已恢復預設值'); }} className={`text-sm flex items-center ${theme.buttonSecondary}`}><RefreshCw size={14} className="mr-1"/> 恢復交易參數預設值</button>
+                <button onClick={() => { updateSettings(DEFAULT_SETTINGS); showToast('已恢復預設值，可按 Ctrl+Z 復原'); }} className={`text-sm flex items-center ${theme.buttonSecondary}`}><RefreshCw size={14} className="mr-1"/> 恢復交易參數預設值</button>
               </div>
             </div>
           </div>
@@ -819,8 +2089,8 @@ export default function StockTrackerApp() {
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
           <div className={`rounded-xl shadow-xl w-full max-w-md overflow-hidden animate-fade-in-up transition-colors ${theme.modalBg}`}>
             <div className={`px-6 py-4 border-b flex justify-between items-center ${isDark ? 'border-gray-800' : 'border-gray-100 bg-gray-50'}`}>
-              <h3 className="font-bold">新增交易</h3>
-              <button onClick={() => setShowAddModal(false)} className={theme.buttonSecondary}><X size={20} /></button>
+              <h3 className="font-bold">{editingId ? '編輯交易' : '新增交易'}</h3>
+              <button onClick={closeAddModal} className={theme.buttonSecondary}><X size={20} /></button>
             </div>
             
             <div className="p-6 space-y-4">
@@ -844,6 +2114,35 @@ export default function StockTrackerApp() {
                 </div>
               </div>
 
+              {accounts.length > 1 && (
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className={`block text-xs font-medium mb-1 ${theme.subText}`}>{form.type === 'transfer' ? '轉出帳戶' : '帳戶'}</label>
+                    <select value={form.accountId} onChange={(e) => setForm({...form, accountId: e.target.value, lotSelections: {}})} className={`w-full p-2 border rounded ${theme.input}`}>
+                      {accounts.map(a => <option key={a.id} value={a.id}>{a.name}</option>)}
+                    </select>
+                  </div>
+                  {form.type === 'transfer' && (
+                    <div>
+                      <label className={`block text-xs font-medium mb-1 ${theme.subText}`}>轉入帳戶</label>
+                      <select value={form.toAccountId} onChange={(e) => setForm({...form, toAccountId: e.target.value})} className={`w-full p-2 border rounded ${theme.input}`}>
+                        <option value="">請選擇</option>
+                        {accounts.filter(a => a.id !== form.accountId).map(a => <option key={a.id} value={a.id}>{a.name}</option>)}
+                      </select>
+                    </div>
+                  )}
+                </div>
+              )}
+
+              <div>
+                <label className={`block text-xs font-medium mb-1 ${theme.subText}`}>{accounts.length > 1 ? '公司行動 / 帳戶轉帳' : '公司行動'}</label>
+                <div className={`grid ${accounts.length > 1 ? 'grid-cols-5' : 'grid-cols-4'} gap-1 rounded p-1 ${isDark ? 'bg-gray-800' : 'bg-gray-100'}`}>
+                  {(accounts.length > 1 ? ['dividend', 'stockDividend', 'split', 'capitalReduction', 'transfer'] as const : ['dividend', 'stockDividend', 'split', 'capitalReduction'] as const).map(type => (
+                    <button key={type} onClick={() => setForm({...form, type})} className={`py-1 rounded text-xs font-medium transition-colors ${form.type === type ? 'bg-amber-500 text-white shadow' : theme.subText}`}>{TRANSACTION_TYPE_LABELS[type]}</button>
+                  ))}
+                </div>
+              </div>
+
               <div className="grid grid-cols-3 gap-4">
                 <div className="col-span-2">
                   <label className={`block text-xs font-medium mb-1 ${theme.subText}`}>代號</label>
@@ -859,6 +2158,45 @@ export default function StockTrackerApp() {
                 <div className="flex items-center space-x-2">
                    <input type="checkbox" id="isETF" checked={form.isETF} onChange={(e) => setForm({...form, isETF: e.target.checked})} className="rounded text-red-600 focus:ring-red-500"/>
                    <label htmlFor="isETF" className={`text-sm ${theme.text}`}>這檔是 ETF (證交稅 0.1%)</label>
+                   {form.isETF && (
+                     <>
+                       <input type="checkbox" id="isBondETF" checked={form.isBondETF} onChange={(e) => setForm({...form, isBondETF: e.target.checked})} className="ml-3 rounded text-red-600 focus:ring-red-500"/>
+                       <label htmlFor="isBondETF" className={`text-sm ${theme.text}`}>債券 ETF (免證交稅)</label>
+                     </>
+                   )}
+                </div>
+              )}
+              {isTwSell && !form.isETF && (
+                <div className="flex items-center space-x-2">
+                   <input type="checkbox" id="isDayTrade" checked={formTradeAttributes.isDayTrade} onChange={(e) => setForm({...form, isDayTrade: e.target.checked})} className="rounded text-red-600 focus:ring-red-500"/>
+                   <label htmlFor="isDayTrade" className={`text-sm ${theme.text}`}>當沖 (證交稅 {(settings.twDayTradeTaxRate * 100).toFixed(2)}%)</label>
+                   {form.isDayTrade === null && detectedDayTrade && <span className={`text-xs ${theme.subText}`}>已偵測到同日買進</span>}
+                </div>
+              )}
+              {(form.type === 'buy' || form.type === 'sell') && (
+                <div>
+                  <label className={`block text-xs font-medium mb-1 ${theme.subText}`}>交易方式</label>
+                  <div className={`flex rounded p-1 ${isDark ? 'bg-gray-800' : 'bg-gray-100'}`}>
+                    {(['', 'margin', 'short'] as const).map(credit => (
+                      <button key={credit || 'cash'} onClick={() => setForm({...form, credit, loanAmount: '', borrowFee: ''})} className={`flex-1 py-1 rounded text-sm font-medium transition-colors ${form.credit === credit ? 'bg-gray-600 text-white shadow' : theme.subText}`}>
+                        {credit ? getCreditActionLabel(form.type, credit) : CREDIT_LABELS.cash}
+                      </button>
+                    ))}
+                  </div>
+                  {formCreditAmounts && formCredit && (
+                    <div className="grid grid-cols-2 gap-4 mt-3">
+                      <div>
+                        <label className={`block text-xs font-medium mb-1 ${theme.subText}`}>{formCredit === 'margin' ? '融資金額' : '保證金'} (留空依成數)</label>
+                        <input type="number" step="1" placeholder={String(formCreditAmounts.estimated.loanAmount)} value={form.loanAmount} onChange={(e) => setForm({...form, loanAmount: e.target.value})} className={`w-full p-2 border rounded ${theme.input}`} />
+                      </div>
+                      {formCredit === 'short' && form.market === 'TW' && (
+                        <div>
+                          <label className={`block text-xs font-medium mb-1 ${theme.subText}`}>借券費 (留空依公式)</label>
+                          <input type="number" step="1" placeholder={String(formCreditAmounts.estimated.borrowFee)} value={form.borrowFee} onChange={(e) => setForm({...form, borrowFee: e.target.value})} className={`w-full p-2 border rounded ${theme.input}`} />
+                        </div>
+                      )}
+                    </div>
+                  )}
                 </div>
               )}
                {form.market === 'US' && (
@@ -869,33 +2207,170 @@ export default function StockTrackerApp() {
               )}
 
               <div className="grid grid-cols-2 gap-4">
+                {form.type !== 'stockDividend' && form.type !== 'split' && (
+                  <div>
+                    <label className={`block text-xs font-medium mb-1 ${theme.subText}`}>
+                      {form.type === 'dividend' ? '每股股利' : form.type === 'capitalReduction' ? '每股退還股款' : form.type === 'transfer' ? '參考市價' : '成交價格'} ({form.market === 'TW' ? 'NT$' : 'US$'})
+                    </label>
+                    <input type="number" step="0.01" placeholder={form.type === 'capitalReduction' ? '0' : form.type === 'transfer' ? String(manualPrices[form.ticker.toUpperCase()] || 0) : ''} value={form.price} onChange={(e) => setForm({...form, price: e.target.value})} className={`w-full p-2 border rounded ${theme.input}`} />
+                  </div>
+                )}
+                {form.type !== 'split' && (
+                  <div>
+                    <label className={`block text-xs font-medium mb-1 ${theme.subText}`}>
+                      {form.type === 'dividend' ? '參與股數' : form.type === 'stockDividend' ? '配發股數' : form.type === 'capitalReduction' ? '減資前股數' : form.type === 'transfer' ? '轉出股數' : '成交股數'}
+                    </label>
+                    <input type="number" step={form.market === 'US' ? "0.0001" : "1"} placeholder={isCorporateAction && formHeldShares > 0 ? String(formHeldShares) : ''} value={form.shares} onChange={(e) => setForm({...form, shares: e.target.value})} className={`w-full p-2 border rounded ${theme.input}`} />
+                  </div>
+                )}
+                {(form.type === 'split' || form.type === 'capitalReduction') && (
+                  <div>
+                    <label className={`block text-xs font-medium mb-1 ${theme.subText}`}>
+                      {form.type === 'split' ? '分割比例 (1 拆 4 填 4)' : '換發比例 (減資 30% 填 0.7)'}
+                    </label>
+                    <input type="number" step="0.0001" value={form.ratio} onChange={(e) => setForm({...form, ratio: e.target.value})} className={`w-full p-2 border rounded ${theme.input}`} />
+                  </div>
+                )}
+              </div>
+
+              {isSpecificLotSell && (
                 <div>
-                  <label className={`block text-xs font-medium mb-1 ${theme.subText}`}>成交價格 ({form.market === 'TW' ? 'NT$' : 'US$'})</label>
-                  <input type="number" step="0.01" value={form.price} onChange={(e) => setForm({...form, price: e.target.value})} className={`w-full p-2 border rounded ${theme.input}`} />
+                  <label className={`block text-xs font-medium mb-1 ${theme.subText}`}>指定沖銷批次 (未指定的股數以先進先出補足)</label>
+                  {formOpenLots.length === 0 ? (
+                    <p className={`text-xs ${theme.subText}`}>此代號目前沒有未沖銷的批次</p>
+                  ) : (
+                    <div className="space-y-1 max-h-40 overflow-y-auto">
+                      {formOpenLots.map(lot => (
+                        <div key={lot.lotId} className="flex items-center justify-between text-xs">
+                          <span>{lot.date} · 剩 {formatNumber(lot.shares, form.market === 'US' ? 2 : 0)} 股 @ {formatNumber(lot.costPerShare, 2)}</span>
+                          <input
+                            type="number"
+                            min="0"
+                            max={lot.shares}
+                            placeholder="0"
+                            value={form.lotSelections[lot.lotId] || ''}
+                            onChange={(e) => setForm({...form, lotSelections: {...form.lotSelections, [lot.lotId]: e.target.value}})}
+                            className={`w-20 text-right p-1 border rounded ${theme.input}`}
+                          />
+                        </div>
+                      ))}
+                    </div>
+                  )}
                 </div>
-                <div>
-                  <label className={`block text-xs font-medium mb-1 ${theme.subText}`}>成交股數</label>
-                  <input type="number" step={form.market === 'US' ? "0.0001" : "1"} value={form.shares} onChange={(e) => setForm({...form, shares: e.target.value})} className={`w-full p-2 border rounded ${theme.input}`} />
+              )}
+
+              {(form.type === 'buy' || form.type === 'sell' || form.type === 'dividend') && (
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className={`block text-xs font-medium mb-1 ${theme.subText}`}>手續費 (留空依公式)</label>
+                    <input type="number" step="0.01" placeholder={formAmounts ? String(formAmounts.estimated.fee) : ''} value={form.feeOverride} onChange={(e) => setForm({...form, feeOverride: e.target.value})} className={`w-full p-2 border rounded ${theme.input}`} />
+                  </div>
+                  <div>
+                    <label className={`block text-xs font-medium mb-1 ${theme.subText}`}>{form.type === 'dividend' ? '扣繳稅額' : '交易稅'} (留空依公式)</label>
+                    <input type="number" step="0.01" placeholder={formAmounts ? String(formAmounts.estimated.tax) : ''} value={form.taxOverride} onChange={(e) => setForm({...form, taxOverride: e.target.value})} className={`w-full p-2 border rounded ${theme.input}`} />
+                  </div>
                 </div>
+              )}
+
+              <div>
+                <label className={`block text-xs font-medium mb-1 ${theme.subText}`}>筆記 (Markdown，選填)</label>
+                <textarea rows={3} value={form.note} onChange={(e) => setForm({...form, note: e.target.value})} placeholder="買賣理由、投資論點、出場計畫…" className={`w-full p-2 border rounded text-sm ${theme.input}`} />
               </div>
 
               <div className={`p-3 rounded text-xs flex items-start ${theme.yellowBg}`}>
                  <span className="mr-2">💡</span>
-                 <span>
-                    {form.type === 'buy' ? '買進總金額' : '賣出淨收入'} 預估： 
-                    <strong className="text-lg ml-1">
-                      {form.market === 'TW' ? 'NT$' : 'US$'}
-                      {form.price && form.shares ? formatNumber(calculateTransactionAmount(form.type, form.market, parseFloat(form.price), parseFloat(form.shares), form.isETF).total, 2) : 0}
-                    </strong>
-                 </span>
+                 {form.type === 'transfer' ? (
+                   <span>
+                      轉出後 {accountName(form.accountId)} 剩餘：
+                      <strong className="text-lg ml-1">
+                        {formatNumber(Math.max(0, formHeldShares - (parsedForm?.shares ?? 0)), form.market === 'US' ? 4 : 0)} 股
+                      </strong>
+                      <span className="block mt-1">原買進日與成本隨批次移轉，不產生已實現損益</span>
+                   </span>
+                 ) : form.type === 'stockDividend' || form.type === 'split' ? (
+                   <span>
+                      調整後持股 預估：
+                      <strong className="text-lg ml-1">
+                        {parsedForm ? formatNumber(form.type === 'split' ? formHeldShares * (parsedForm.ratio ?? 1) : formHeldShares + parsedForm.shares, form.market === 'US' ? 4 : 0) : formatNumber(formHeldShares)} 股
+                      </strong>
+                   </span>
+                 ) : (
+                   <span>
+                      {form.type === 'buy' ? '買進總金額' : form.type === 'sell' ? '賣出淨收入' : form.type === 'dividend' ? '實收股利 (已扣稅)' : '退還股款'} 預估： 
+                      <strong className="text-lg ml-1">
+                        {form.market === 'TW' ? 'NT$' : 'US$'}
+                        {formAmounts ? formatNumber(formAmounts.total, 2) : 0}
+                      </strong>
+                      {formAmounts && (form.type === 'buy' || form.type === 'sell') && (
+                        <span className="block mt-1">
+                          手續費 {formatNumber(formAmounts.fee, 2)} · 交易稅 {formatNumber(formAmounts.tax, 2)}
+                          {formFeeRules.length > 0 && <span className="ml-1 font-medium">({formFeeRules.join('、')})</span>}
+                        </span>
+                      )}
+                      {formAmounts && formCreditAmounts && (
+                        <span className="block mt-1">
+                          {formCredit === 'margin'
+                            ? `自備款 ${formatNumber(formAmounts.total - formCreditAmounts.loanAmount, 2)} · 融資年利率 ${(getCreditRates(form.market, getAccountSettings(settings, accounts, form.accountId)).interestRate * 100).toFixed(2)}%`
+                            : `需繳保證金 ${formatNumber(formCreditAmounts.loanAmount, 2)}${formCreditAmounts.borrowFee > 0 ? ` · 借券費 ${formatNumber(formCreditAmounts.borrowFee, 0)}` : ''}`}
+                        </span>
+                      )}
+                   </span>
+                 )}
               </div>
 
-              <button onClick={handleAddTransaction} disabled={!form.ticker || !form.price || !form.shares} className="w-full bg-red-600 hover:bg-red-700 text-white py-3 rounded-lg font-bold shadow-sm disabled:opacity-50 disabled:cursor-not-allowed transition-all">確認新增</button>
+              {formIssues.length > 0 && (
+                <div className={`p-3 rounded border text-xs space-y-1 ${formBlocked ? (isDark ? 'bg-red-900/20 border-red-900 text-red-300' : 'bg-red-50 border-red-200 text-red-700') : theme.yellowBg}`}>
+                  {formIssues.map(issue => (
+                    <div key={issue.key} className="flex items-start"><AlertTriangle size={14} className="mr-1 mt-0.5 shrink-0" /><span>{issue.ticker} · {issue.message}</span></div>
+                  ))}
+                  {formBlocked && <div className="font-bold">請修正股數或日期後再儲存</div>}
+                </div>
+              )}
+
+              {formCashShortfall && (
+                <div className={`p-3 rounded border text-xs flex items-start ${theme.yellowBg}`}>
+                  <AlertTriangle size={14} className="mr-1 mt-0.5 shrink-0" />
+                  <span>購買力不足：{form.date} 可用現金 {formatCurrency(formCashShortfall.available, formCashShortfall.currency)}，這筆需付 {formatCurrency(formCashShortfall.required, formCashShortfall.currency)}</span>
+                </div>
+              )}
+
+              <button onClick={handleAddTransaction} disabled={!parsedForm || formBlocked} className="w-full bg-red-600 hover:bg-red-700 text-white py-3 rounded-lg font-bold shadow-sm disabled:opacity-50 disabled:cursor-not-allowed transition-all">{editingId ? '儲存變更' : '確認新增'}</button>
             </div>
           </div>
         </div>
       )}
 
+      {/* Import Modal */}
+      {showImportModal && (
+        <ImportModal
+          transactions={transactions}
+          settings={settings}
+          accounts={accounts}
+          defaultAccountId={activeAccountId || DEFAULT_ACCOUNT_ID}
+          presets={importPresets}
+          onSavePreset={saveImportPreset}
+          onDeletePreset={deleteImportPreset}
+          onImport={handleImportTransactions}
+          onClose={() => setShowImportModal(false)}
+          theme={theme}
+          isDark={isDark}
+        />
+      )}
+
+      {/* Restore Modal */}
+      {restoreTarget && (
+        <RestoreModal
+          current={appData}
+          incoming={restoreTarget.data}
+          errors={restoreTarget.errors}
+          fileName={restoreTarget.fileName}
+          onConfirm={confirmRestore}
+          onClose={() => setRestoreTarget(null)}
+          theme={theme}
+          isDark={isDark}
+        />
+      )}
+
       {/* Delete Transaction Modal */}
       {deleteTargetId && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
@@ -903,7 +2378,7 @@ export default function StockTrackerApp() {
               <div className="flex flex-col items-center text-center">
                  <div className="bg-red-100 p-3 rounded-full text-red-600 mb-4"><AlertCircle size={32} /></div>
                  <h3 className="text-lg font-bold mb-2">確定刪除此交易？</h3>
-                 <p className={`text-sm mb-6 ${theme.subText}`}>刪除後將無法復原，庫存成本將會重新計算。</p>
+                 <p className={`text-sm mb-6 ${theme.subText}`}>刪除後庫存成本將會重新計算，可按 Ctrl+Z 復原。</p>
                  <div className="flex space-x-3 w-full">
                     <button onClick={() => setDeleteTargetId(null)} className={`flex-1 py-2 border rounded-lg font-medium ${isDark ? 'border-gray-700 hover:bg-gray-800' : 'border-gray-300 hover:bg-gray-50 text-gray-700'}`}>取消</button>
                     <button onClick={confirmDelete} className="flex-1 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 font-medium shadow-sm">確認刪除</button>
@@ -921,7 +2396,7 @@ export default function StockTrackerApp() {
                  <div className="bg-red-100 p-3 rounded-full text-red-600 mb-4"><AlertCircle size={32} /></div>
                  <h3 className="text-lg font-bold mb-2">確定刪除 {deleteTargetTicker}？</h3>
                  <p className={`text-sm mb-6 ${theme.subText}`}>
-                    這將會刪除該代號的<strong className="text-red-500">所有歷史交易紀錄</strong>且無法復原。
+                    這將會刪除該代號的<strong className="text-red-500">所有歷史交易紀錄</strong>，可按 Ctrl+Z 復原。
                  </p>
                  <div className="flex space-x-3 w-full">
                     <button onClick={() => setDeleteTargetTicker(null)} className={`flex-1 py-2 border rounded-lg font-medium ${isDark ? 'border-gray-700 hover:bg-gray-800' : 'border-gray-300 hover:bg-gray-50 text-gray-700'}`}>取消</button>
@@ -931,7 +2406,16 @@ export default function StockTrackerApp() {
            </div>
         </div>
       )}
-      
+
+      {/* 復原提示 */}
+      {toast && (
+        <div className="fixed bottom-6 left-1/2 -translate-x-1/2 z-50 flex items-center space-x-3 bg-gray-900 text-white text-sm px-4 py-2 rounded-lg shadow-lg">
+          <span>{toast}</span>
+          {history.canRedo && toast.startsWith('已復原') && (
+            <button onClick={handleRedo} className="text-red-300 hover:text-red-200 font-medium">重做</button>
+          )}
+        </div>
+      )}
     </div>
   );
 }
\ No newline at end of file
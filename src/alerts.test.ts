@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { evaluateAlerts, getPeakPrice } from './alerts';
+import { buildLedger, calculateTransactionAmount } from './ledger';
+import { DEFAULT_SETTINGS } from './settings';
+import type { PricePoint, Transaction, TransactionType } from './types';
+
+const trade = (id: string, type: TransactionType, date: string, price: number, shares = 1000): Transaction => {
+  const { fee, tax, total } = calculateTransactionAmount(type, 'TW', price, shares, false, DEFAULT_SETTINGS);
+  return { id, date, ticker: '2330', name: '台積電', type, market: 'TW', price, shares, isETF: false, fee, tax, totalAmount: total };
+};
+
+const holdingOf = (transactions: Transaction[]) => buildLedger(transactions, DEFAULT_SETTINGS).holdings[0];
+
+const history: Record<string, PricePoint[]> = {
+  '2330': [
+    { date: '2024-01-02', price: 200 },
+    { date: '2024-02-01', price: 150 },
+    { date: '2024-03-01', price: 130 },
+    { date: '2024-04-01', price: 110 }
+  ]
+};
+
+describe('getPeakPrice', () => {
+  it('只取最早未沖銷批次買進後的最高價', () => {
+    expect(getPeakPrice(history, holdingOf([trade('b1', 'buy', '2024-01-15', 140)]), 120)).toBe(150);
+  });
+
+  it('全數賣出後重新買進，高點從新的買進日起算', () => {
+    const holding = holdingOf([trade('b1', 'buy', '2024-01-15', 140), trade('s1', 'sell', '2024-02-15', 145), trade('b2', 'buy', '2024-02-20', 135)]);
+    expect(getPeakPrice(history, holding, 120)).toBe(130);
+  });
+
+  it('現價高於歷史價時以現價為高點', () => {
+    expect(getPeakPrice(history, holdingOf([trade('b1', 'buy', '2024-01-15', 140)]), 160)).toBe(160);
+  });
+});
+
+describe('evaluateAlerts', () => {
+  const holding = holdingOf([trade('b1', 'buy', '2024-01-15', 140)]);
+
+  it('自持有期間高點回落達設定比例時觸發', () => {
+    const [alert] = evaluateAlerts([holding], { '2330': 120 }, { '2330': { maxDrawdown: 20 } }, history);
+    expect(alert).toMatchObject({ kind: 'drawdown', key: '2330|drawdown|20', level: 20, price: 120 });
+    expect(evaluateAlerts([holding], { '2330': 121 }, { '2330': { maxDrawdown: 20 } }, history)).toEqual([]);
+  });
+
+  it('目標價與停損價分別在觸及時觸發，沒有現價時不檢查', () => {
+    const levels = { '2330': { targetPrice: 150, stopPrice: 100 } };
+    expect(evaluateAlerts([holding], { '2330': 150 }, levels, history).map(a => a.kind)).toEqual(['target']);
+    expect(evaluateAlerts([holding], { '2330': 99 }, levels, history).map(a => a.kind)).toEqual(['stop']);
+    expect(evaluateAlerts([holding], {}, levels, history)).toEqual([]);
+  });
+});
@@ -0,0 +1,71 @@
+import type { AlertLevels, Holding, MarketType, PricePoint } from './types';
+
+// --- 價格警示 ---
+// 依現價檢查每檔持股的目標價、停損價與最大回檔；純函數，通知與確認狀態由 UI 處理。
+
+export type AlertKind = 'target' | 'stop' | 'drawdown';
+
+export const ALERT_KIND_LABELS: Record<AlertKind, string> = {
+  target: '達目標價',
+  stop: '跌破停損',
+  drawdown: '回檔過深'
+};
+
+export interface TriggeredAlert {
+  key: string; // 代號 + 類別 + 設定值；調整價位後視為新的警示
+  ticker: string;
+  name: string;
+  market: MarketType;
+  kind: AlertKind;
+  price: number;
+  level: number;
+  message: string;
+}
+
+// 持有期間 (最早一筆未沖銷批次起) 的最高價，含歷史價與目前現價
+export const getPeakPrice = (history: Record<string, PricePoint[]>, holding: Holding, currentPrice: number) => {
+  const since = holding.lots.reduce((min, lot) => (lot.date < min ? lot.date : min), '9999-12-31');
+  return (history[holding.ticker] || [])
+    .filter(p => p.date >= since)
+    .reduce((max, p) => Math.max(max, p.price), currentPrice);
+};
+
+// 空白或非正數的欄位視為未設定；全部未設定時回傳 null 以便移除
+export const cleanAlertLevels = (levels: AlertLevels): AlertLevels | null => {
+  const cleaned: AlertLevels = {};
+  (Object.keys(levels) as (keyof AlertLevels)[]).forEach(k => {
+    const value = levels[k];
+    if (value !== undefined && value > 0) cleaned[k] = value;
+  });
+  return Object.keys(cleaned).length > 0 ? cleaned : null;
+};
+
+export const evaluateAlerts = (
+  holdings: Holding[],
+  prices: Record<string, number>,
+  levels: Record<string, AlertLevels>,
+  history: Record<string, PricePoint[]>
+): TriggeredAlert[] =>
+  holdings.flatMap(h => {
+    const setting = levels[h.ticker];
+    const price = prices[h.ticker] || 0;
+    if (!setting || !(price > 0)) return [];
+    const alert = (kind: AlertKind, level: number, message: string): TriggeredAlert =>
+      ({ key: `${h.ticker}|${kind}|${level}`, ticker: h.ticker, name: h.name, market: h.market, kind, price, level, message });
+
+    const result: TriggeredAlert[] = [];
+    if (setting.targetPrice && price >= setting.targetPrice) {
+      result.push(alert('target', setting.targetPrice, `現價 ${price} 已達目標價 ${setting.targetPrice}`));
+    }
+    if (setting.stopPrice && price <= setting.stopPrice) {
+      result.push(alert('stop', setting.stopPrice, `現價 ${price} 已跌破停損價 ${setting.stopPrice}`));
+    }
+    if (setting.maxDrawdown) {
+      const peak = getPeakPrice(history, h, price);
+      const drawdown = peak > 0 ? ((peak - price) / peak) * 100 : 0;
+      if (drawdown >= setting.maxDrawdown) {
+        result.push(alert('drawdown', setting.maxDrawdown, `自高點 ${peak} 回落 ${drawdown.toFixed(1)}%，超過 ${setting.maxDrawdown}%`));
+      }
+    }
+    return result;
+  });
@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { BACKUP_APP_ID, BACKUP_VERSION, mergeAppData, parseBackup, validateAppData } from './backup';
+import { DEFAULT_ACCOUNT, DEFAULT_SETTINGS } from './settings';
+import type { AppData, Transaction } from './types';
+
+const tx = (id: string, extra: Partial<Transaction> = {}): Transaction => ({
+  id, date: '2024-01-02', ticker: '2330', name: '台積電', type: 'buy', market: 'TW', price: 600, shares: 1000, isETF: false, fee: 513, tax: 0, totalAmount: 600513, ...extra
+});
+
+const backupOf = (data: unknown, extra: Record<string, unknown> = {}) => ({ app: BACKUP_APP_ID, version: BACKUP_VERSION, exportedAt: '2024-06-30T00:00:00.000Z', data, ...extra });
+
+const restored = (data: unknown) => {
+  const result = parseBackup(backupOf(data));
+  if (!result.data) throw new Error(result.errors.join('\n'));
+  return result.data;
+};
+
+describe('parseBackup', () => {
+  it('拒絕其他程式、較新版本或缺少內容的檔案', () => {
+    expect(parseBackup({ app: 'other', version: 1, data: {} }).errors).toEqual(['不是本程式的備份檔']);
+    expect(parseBackup(backupOf({ transactions: [] }, { version: BACKUP_VERSION + 1 })).errors).toEqual([`不支援的備份版本：${BACKUP_VERSION + 1}`]);
+    expect(parseBackup(backupOf(null)).errors).toEqual(['備份檔缺少 data 欄位']);
+    expect(parseBackup(backupOf({})).errors).toEqual(['transactions 必須是陣列']);
+  });
+
+  it('逐筆列出交易欄位錯誤，有錯誤時不回傳資料', () => {
+    const result = parseBackup(backupOf({
+      transactions: [tx('a'), { ...tx('b'), type: 'gift', price: '600' }, { ...tx('c'), type: 'transfer' }]
+    }));
+    expect(result.data).toBeNull();
+    expect(result.errors).toEqual(['交易 #2 類別無效', '交易 #2 的 price 不是數字', '交易 #3 轉帳缺少目的帳戶']);
+  });
+
+  it('待確認扣款與現金帳格式錯誤時一併擋下', () => {
+    const result = parseBackup(backupOf({
+      transactions: [],
+      pendingTransactions: [{ ...tx('p1'), market: 'JP' }],
+      cashEntries: [{ id: 'c1', date: '2024-01-02', type: 'fxConversion', currency: 'TWD', amount: 32000 }]
+    }));
+    expect(result.errors).toEqual(['cashEntries 格式錯誤', '待確認交易 #1 市場無效']);
+  });
+
+  it('舊版備份缺少的欄位補上預設值，並保留預設帳戶', () => {
+    const data = restored({ transactions: [tx('a')], settings: { twDiscount: 0.28 }, accounts: [{ id: 'sub', name: '複委託' }] });
+    expect(data.transactions).toHaveLength(1);
+    expect(data.settings).toEqual({ ...DEFAULT_SETTINGS, twDiscount: 0.28 });
+    expect(data.accounts.map(a => a.id)).toEqual([DEFAULT_ACCOUNT.id, 'sub']);
+    expect(data.accounts[1].fees).toEqual({});
+    expect(data.cashEntries).toEqual([]);
+    expect(data.pendingTransactions).toEqual([]);
+  });
+});
+
+describe('validateAppData', () => {
+  it('本機資料與備份共用同一套檢查', () => {
+    expect(validateAppData({ transactions: [tx('a')], manualPrices: { '2330': 'NaN' } }).errors).toEqual(['manualPrices 格式錯誤']);
+  });
+});
+
+describe('mergeAppData', () => {
+  const current = restored({ transactions: [tx('a'), tx('b')], pendingTransactions: [tx('plan-1-2024-02-05')] });
+
+  it('合併時同 id 以備份檔為準，已轉為正式交易的扣款不再待確認', () => {
+    const incoming: AppData = restored({ transactions: [tx('b', { price: 610 }), tx('plan-1-2024-02-05')], settings: { twDiscount: 0.1 } });
+    const merged = mergeAppData(current, incoming, 'merge');
+    expect(merged.transactions.map(t => [t.id, t.price])).toEqual([['a', 600], ['b', 610], ['plan-1-2024-02-05', 600]]);
+    expect(merged.pendingTransactions).toEqual([]);
+    expect(merged.settings).toEqual(current.settings);
+  });
+
+  it('取代時完全使用備份檔內容', () => {
+    const incoming = restored({ transactions: [] });
+    expect(mergeAppData(current, incoming, 'replace')).toBe(incoming);
+  });
+});
@@ -0,0 +1,253 @@
+import { DEFAULT_ACCOUNT, DEFAULT_ALERT_SETTINGS, DEFAULT_QUOTE_SETTINGS, DEFAULT_REBALANCE_SETTINGS, DEFAULT_SETTINGS, DEFAULT_VISUAL_SETTINGS, TRANSACTION_TYPE_LABELS } from './settings';
+import type { Account, AppData, Holding, RealizedItem, Transaction } from './types';
+
+// --- 備份、還原與 CSV 匯出 ---
+
+export const BACKUP_APP_ID = 'stock-tracker';
+export const BACKUP_VERSION = 1;
+
+export interface BackupFile {
+  app: typeof BACKUP_APP_ID;
+  version: number;
+  exportedAt: string;
+  data: AppData;
+}
+
+export type RestoreMode = 'merge' | 'replace';
+
+export interface RestoreSummary {
+  transactionsAdded: number;
+  transactionsUpdated: number;
+  transactionsRemoved: number;
+  transactionsUnchanged: number;
+  pricesChanged: number;
+  fxRatesChanged: number;
+  cashEntriesChanged: number;
+  presetsChanged: number;
+  settingsChanged: boolean;
+}
+
+export const createBackup = (data: AppData): BackupFile => ({
+  app: BACKUP_APP_ID,
+  version: BACKUP_VERSION,
+  exportedAt: new Date().toISOString(),
+  data
+});
+
+export const isRecord = (v: unknown): v is Record<string, unknown> => typeof v === 'object' && v !== null && !Array.isArray(v);
+const isNumber = (v: unknown): v is number => typeof v === 'number' && isFinite(v);
+
+const TRANSACTION_TYPES = Object.keys(TRANSACTION_TYPE_LABELS);
+
+const validateTransaction = (t: unknown, i: number): string[] => {
+  if (!isRecord(t)) return [`交易 #${i + 1} 格式錯誤`];
+  const errors: string[] = [];
+  (['id', 'date', 'ticker'] as const).forEach(k => {
+    if (typeof t[k] !== 'string' || !t[k]) errors.push(`交易 #${i + 1} 缺少 ${k}`);
+  });
+  if (!TRANSACTION_TYPES.includes(t.type as string)) errors.push(`交易 #${i + 1} 類別無效`);
+  if (t.market !== 'TW' && t.market !== 'US') errors.push(`交易 #${i + 1} 市場無效`);
+  (['price', 'shares', 'fee', 'tax', 'totalAmount'] as const).forEach(k => {
+    if (!isNumber(t[k])) errors.push(`交易 #${i + 1} 的 ${k} 不是數字`);
+  });
+  if (t.credit !== undefined && t.credit !== 'margin' && t.credit !== 'short') errors.push(`交易 #${i + 1} 信用交易類別無效`);
+  if ((t.loanAmount !== undefined && !isNumber(t.loanAmount)) || (t.borrowFee !== undefined && !isNumber(t.borrowFee))) errors.push(`交易 #${i + 1} 的融資 / 融券金額不是數字`);
+  if (t.note !== undefined && typeof t.note !== 'string') errors.push(`交易 #${i + 1} 的筆記格式錯誤`);
+  if (t.type === 'transfer' && (typeof t.toAccountId !== 'string' || !t.toAccountId)) errors.push(`交易 #${i + 1} 轉帳缺少目的帳戶`);
+  return errors;
+};
+
+const CASH_ENTRY_TYPES = ['deposit', 'withdrawal', 'fxConversion'];
+
+const isCashEntry = (e: unknown) =>
+  isRecord(e) && typeof e.id === 'string' && typeof e.date === 'string' && CASH_ENTRY_TYPES.includes(e.type as string) &&
+  (e.currency === 'TWD' || e.currency === 'USD') && isNumber(e.amount) && (e.type !== 'fxConversion' || isNumber(e.toAmount));
+
+const isInvestmentPlan = (p: unknown) =>
+  isRecord(p) && typeof p.id === 'string' && typeof p.ticker === 'string' && (p.market === 'TW' || p.market === 'US') &&
+  (p.mode === 'amount' || p.mode === 'shares') && isNumber(p.dayOfMonth) && typeof p.startDate === 'string';
+
+// 至少保留預設帳戶，舊資料沒有帳戶時的交易都歸在這裡
+const normalizeAccounts = (accounts: unknown): AppData['accounts'] => {
+  const list = Array.isArray(accounts) ? (accounts as AppData['accounts']).map(a => ({ ...a, fees: isRecord(a.fees) ? a.fees : {} })) : [];
+  return list.some(a => a.id === DEFAULT_ACCOUNT.id) ? list : [DEFAULT_ACCOUNT, ...list];
+};
+
+type ValidationResult = { data: AppData; errors: [] } | { data: null; errors: string[] };
+
+// 檢查 App 資料結構，回傳補齊預設值後的資料 (備份還原與本機儲存共用)
+export const validateAppData = (d: unknown): ValidationResult => {
+  if (!isRecord(d)) return { data: null, errors: ['缺少資料內容'] };
+  if (!Array.isArray(d.transactions)) return { data: null, errors: ['transactions 必須是陣列'] };
+
+  const errors = d.transactions.flatMap(validateTransaction);
+  if (d.settings !== undefined && !isRecord(d.settings)) errors.push('settings 格式錯誤');
+  if (d.manualPrices !== undefined && (!isRecord(d.manualPrices) || !Object.values(d.manualPrices).every(isNumber))) errors.push('manualPrices 格式錯誤');
+  if (d.priceUpdatedAt !== undefined && (!isRecord(d.priceUpdatedAt) || !Object.values(d.priceUpdatedAt).every(v => typeof v === 'string'))) errors.push('priceUpdatedAt 格式錯誤');
+  if (d.priceHistory !== undefined && (!isRecord(d.priceHistory) || !Object.values(d.priceHistory).every(list => Array.isArray(list) && list.every(p => isRecord(p) && typeof p.date === 'string' && isNumber(p.price))))) errors.push('priceHistory 格式錯誤');
+  if (d.snapshots !== undefined && (!Array.isArray(d.snapshots) || !d.snapshots.every(s => isRecord(s) && typeof s.date === 'string' && Array.isArray(s.holdings)))) errors.push('snapshots 格式錯誤');
+  if (d.accounts !== undefined && (!Array.isArray(d.accounts) || !d.accounts.every(a => isRecord(a) && typeof a.id === 'string' && typeof a.name === 'string'))) errors.push('accounts 格式錯誤');
+  if (d.alertLevels !== undefined && (!isRecord(d.alertLevels) || !Object.values(d.alertLevels).every(isRecord))) errors.push('alertLevels 格式錯誤');
+  if (d.alertSettings !== undefined && !isRecord(d.alertSettings)) errors.push('alertSettings 格式錯誤');
+  if (d.watchlist !== undefined && (!Array.isArray(d.watchlist) || !d.watchlist.every(w => isRecord(w) && typeof w.ticker === 'string' && (w.market === 'TW' || w.market === 'US')))) errors.push('watchlist 格式錯誤');
+  if (d.rebalanceSettings !== undefined && !isRecord(d.rebalanceSettings)) errors.push('rebalanceSettings 格式錯誤');
+  if (d.tickerNotes !== undefined && (!isRecord(d.tickerNotes) || !Object.values(d.tickerNotes).every(v => typeof v === 'string'))) errors.push('tickerNotes 格式錯誤');
+  if (d.cashEntries !== undefined && (!Array.isArray(d.cashEntries) || !d.cashEntries.every(isCashEntry))) errors.push('cashEntries 格式錯誤');
+  if (d.investmentPlans !== undefined && (!Array.isArray(d.investmentPlans) || !d.investmentPlans.every(isInvestmentPlan))) errors.push('investmentPlans 格式錯誤');
+  if (d.pendingTransactions !== undefined) {
+    if (Array.isArray(d.pendingTransactions)) errors.push(...d.pendingTransactions.flatMap((t, i) => validateTransaction(t, i).map(e => `待確認${e}`)));
+    else errors.push('pendingTransactions 必須是陣列');
+  }
+  if (d.quoteSettings !== undefined && !isRecord(d.quoteSettings)) errors.push('quoteSettings 格式錯誤');
+  if (d.fxRates !== undefined && (!Array.isArray(d.fxRates) || !d.fxRates.every(r => isRecord(r) && typeof r.date === 'string' && isNumber(r.rate)))) errors.push('fxRates 格式錯誤');
+  if (d.importPresets !== undefined && !Array.isArray(d.importPresets)) errors.push('importPresets 格式錯誤');
+  if (errors.length > 0) return { data: null, errors };
+
+  return {
+    data: {
+      transactions: d.transactions as Transaction[],
+      settings: { ...DEFAULT_SETTINGS, ...(d.settings as object | undefined) },
+      manualPrices: (d.manualPrices as AppData['manualPrices']) || {},
+      priceUpdatedAt: (d.priceUpdatedAt as AppData['priceUpdatedAt']) || {},
+      quoteSettings: { ...DEFAULT_QUOTE_SETTINGS, ...(d.quoteSettings as object | undefined) },
+      priceHistory: (d.priceHistory as AppData['priceHistory']) || {},
+      snapshots: (d.snapshots as AppData['snapshots']) || [],
+      accounts: normalizeAccounts(d.accounts),
+      alertLevels: (d.alertLevels as AppData['alertLevels']) || {},
+      alertSettings: { ...DEFAULT_ALERT_SETTINGS, ...(d.alertSettings as object | undefined) },
+      watchlist: (d.watchlist as AppData['watchlist']) || [],
+      rebalanceSettings: { ...DEFAULT_REBALANCE_SETTINGS, ...(d.rebalanceSettings as object | undefined) },
+      tickerNotes: (d.tickerNotes as AppData['tickerNotes']) || {},
+      cashEntries: (d.cashEntries as AppData['cashEntries']) || [],
+      investmentPlans: (d.investmentPlans as AppData['investmentPlans']) || [],
+      pendingTransactions: (d.pendingTransactions as AppData['pendingTransactions']) || [],
+      visualSettings: isRecord(d.visualSettings) ? d.visualSettings as unknown as AppData['visualSettings'] : DEFAULT_VISUAL_SETTINGS,
+      fxRates: (d.fxRates as AppData['fxRates']) || [],
+      importPresets: (d.importPresets as AppData['importPresets']) || []
+    },
+    errors: []
+  };
+};
+
+// 檢查備份檔外層資訊後驗證內容
+export const parseBackup = (json: unknown): ValidationResult => {
+  if (!isRecord(json) || json.app !== BACKUP_APP_ID) return { data: null, errors: ['不是本程式的備份檔'] };
+  if (!isNumber(json.version) || json.version > BACKUP_VERSION) return { data: null, errors: [`不支援的備份版本：${String(json.version)}`] };
+  if (!isRecord(json.data)) return { data: null, errors: ['備份檔缺少 data 欄位'] };
+  return validateAppData(json.data);
+};
+
+const byKey = <T>(list: T[], key: (item: T) => string) => new Map(list.map(item => [key(item), item]));
+
+// 合併：以 id / 日期 / 名稱為鍵，備份檔內容覆蓋同鍵資料；設定沿用目前值
+export const mergeAppData = (current: AppData, incoming: AppData, mode: RestoreMode): AppData => {
+  if (mode === 'replace') return incoming;
+  const transactions = byKey(current.transactions, t => t.id);
+  incoming.transactions.forEach(t => transactions.set(t.id, t));
+  const fxRates = byKey(current.fxRates, r => r.date);
+  incoming.fxRates.forEach(r => fxRates.set(r.date, r));
+  const priceHistory = { ...current.priceHistory };
+  Object.entries(incoming.priceHistory).forEach(([ticker, points]) => {
+    const byDate = byKey(priceHistory[ticker] || [], p => p.date);
+    points.forEach(p => byDate.set(p.date, p));
+    priceHistory[ticker] = [...byDate.values()].sort((a, b) => a.date.localeCompare(b.date));
+  });
+  const snapshots = byKey(current.snapshots, s => s.date);
+  incoming.snapshots.forEach(s => snapshots.set(s.date, s));
+  const accounts = byKey(current.accounts, a => a.id);
+  incoming.accounts.forEach(a => { if (!accounts.has(a.id)) accounts.set(a.id, a); });
+  const watchlist = byKey(current.watchlist, w => w.ticker);
+  incoming.watchlist.forEach(w => watchlist.set(w.ticker, w));
+  const cashEntries = byKey(current.cashEntries, e => e.id);
+  incoming.cashEntries.forEach(e => cashEntries.set(e.id, e));
+  const plans = byKey(current.investmentPlans, p => p.id);
+  incoming.investmentPlans.forEach(p => plans.set(p.id, p));
+  // 已確認為正式交易的扣款不再列為待確認
+  const pending = byKey(current.pendingTransactions, t => t.id);
+  incoming.pendingTransactions.forEach(t => pending.set(t.id, t));
+  const presets = byKey(current.importPresets, p => p.name);
+  incoming.importPresets.forEach(p => presets.set(p.name, p));
+  return {
+    ...current,
+    transactions: [...transactions.values()],
+    manualPrices: { ...current.manualPrices, ...incoming.manualPrices },
+    priceUpdatedAt: { ...current.priceUpdatedAt, ...incoming.priceUpdatedAt },
+    priceHistory,
+    snapshots: [...snapshots.values()].sort((a, b) => a.date.localeCompare(b.date)),
+    accounts: [...accounts.values()],
+    alertLevels: { ...current.alertLevels, ...incoming.alertLevels },
+    watchlist: [...watchlist.values()],
+    tickerNotes: { ...current.tickerNotes, ...incoming.tickerNotes },
+    cashEntries: [...cashEntries.values()],
+    investmentPlans: [...plans.values()],
+    pendingTransactions: [...pending.values()].filter(t => !transactions.has(t.id)),
+    fxRates: [...fxRates.values()].sort((a, b) => a.date.localeCompare(b.date)),
+    importPresets: [...presets.values()]
+  };
+};
+
+export const summarizeRestore = (current: AppData, incoming: AppData, mode: RestoreMode): RestoreSummary => {
+  const result = mergeAppData(current, incoming, mode);
+  const before = byKey(current.transactions, t => t.id);
+  const after = byKey(result.transactions, t => t.id);
+  let added = 0, updated = 0, unchanged = 0;
+  after.forEach((t, id) => {
+    const prev = before.get(id);
+    if (!prev) added++;
+    else if (JSON.stringify(prev) !== JSON.stringify(t)) updated++;
+    else unchanged++;
+  });
+  const changedKeys = <T>(a: Record<string, T>, b: Record<string, T>) =>
+    new Set([...Object.keys(a), ...Object.keys(b)].filter(k => JSON.stringify(a[k]) !== JSON.stringify(b[k]))).size;
+
+  return {
+    transactionsAdded: added,
+    transactionsUpdated: updated,
+    transactionsRemoved: [...before.keys()].filter(id => !after.has(id)).length,
+    transactionsUnchanged: unchanged,
+    pricesChanged: changedKeys(current.manualPrices, result.manualPrices),
+    fxRatesChanged: changedKeys(Object.fromEntries(byKey(current.fxRates, r => r.date)), Object.fromEntries(byKey(result.fxRates, r => r.date))),
+    cashEntriesChanged: changedKeys(Object.fromEntries(byKey(current.cashEntries, e => e.id)), Object.fromEntries(byKey(result.cashEntries, e => e.id))),
+    presetsChanged: changedKeys(Object.fromEntries(byKey(current.importPresets, p => p.name)), Object.fromEntries(byKey(result.importPresets, p => p.name))),
+    settingsChanged: JSON.stringify(current.settings) !== JSON.stringify(result.settings)
+  };
+};
+
+// --- CSV ---
+
+const escapeCsv = (value: unknown) => {
+  const s = value === undefined || value === null ? '' : String(value);
+  return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+};
+
+export const toCsv = (headers: string[], rows: unknown[][]) =>
+  [headers, ...rows].map(row => row.map(escapeCsv).join(',')).join('\r\n');
+
+export const transactionsToCsv = (transactions: Transaction[], accounts: Account[] = []) => {
+  const accountName = (id: string | undefined) => (id ? accounts.find(a => a.id === id)?.name ?? id : '');
+  return toCsv(
+    ['id', 'date', 'ticker', 'name', 'type', 'market', 'price', 'shares', 'isETF', 'fee', 'tax', 'totalAmount', 'account', 'toAccount', 'note'],
+    transactions.map(t => [t.id, t.date, t.ticker, t.name, t.type, t.market, t.price, t.shares, t.isETF, t.fee, t.tax, t.totalAmount, accountName(t.accountId || DEFAULT_ACCOUNT.id), accountName(t.toAccountId), t.note ?? ''])
+  );
+};
+
+export const holdingsToCsv = (holdings: Holding[]) => toCsv(
+  ['ticker', 'name', 'market', 'currency', 'shares', 'avgCost', 'totalCost', 'marketValue', 'unrealizedPL', 'roi', 'dividendIncome', 'totalReturn'],
+  holdings.map(h => [h.ticker, h.name, h.market, h.currency, h.shares, h.avgCost, h.totalCost, h.marketValue, h.unrealizedPL, h.roi, h.dividendIncome, h.totalReturn])
+);
+
+export const realizedToCsv = (realized: RealizedItem[]) => toCsv(
+  ['ticker', 'name', 'market', 'currency', 'totalRevenue', 'totalCost', 'realizedPL', 'roi', 'tradeCount', 'dividendIncome'],
+  realized.map(r => [r.ticker, r.name, r.market, r.currency, r.totalRevenue, r.totalCost, r.realizedPL, r.roi, r.tradeCount, r.dividendIncome])
+);
+
+// 觸發瀏覽器下載；CSV 加上 BOM 讓 Excel 正確辨識 UTF-8 中文
+export const downloadFile = (filename: string, content: string, mime: string) => {
+  const body = mime.startsWith('text/csv') ? `\uFEFF${content}` : content;
+  const url = URL.createObjectURL(new Blob([body], { type: mime }));
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+};
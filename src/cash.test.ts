@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { buildCashBalances, getConversionRate, getRequiredCash } from './cash';
+import { buildLedger, calculateTransactionAmount } from './ledger';
+import { DEFAULT_SETTINGS } from './settings';
+import type { CashEntry, MarketType, Transaction, TransactionType } from './types';
+
+const trade = (id: string, type: TransactionType, market: MarketType, date: string, price: number, shares: number, extra: Partial<Transaction> = {}): Transaction => {
+  const { fee, tax, total } = calculateTransactionAmount(type, market, price, shares, false, DEFAULT_SETTINGS);
+  const ticker = market === 'TW' ? '2330' : 'AAPL';
+  return { id, date, ticker, name: ticker, type, market, price, shares, isETF: false, fee, tax, totalAmount: total, ...extra };
+};
+
+const entries: CashEntry[] = [
+  { id: 'd1', date: '2024-01-02', type: 'deposit', currency: 'TWD', amount: 1000000 },
+  { id: 'fx1', date: '2024-01-03', type: 'fxConversion', currency: 'TWD', amount: 320000, toAmount: 10000 },
+  { id: 'w1', date: '2024-03-01', type: 'withdrawal', currency: 'USD', amount: 1000 },
+  { id: 'd2', date: '2024-01-02', type: 'deposit', currency: 'TWD', amount: 50000, accountId: 'sub' }
+];
+
+const transactions = [
+  trade('tw1', 'buy', 'TW', '2024-01-05', 500, 1000),
+  trade('us1', 'buy', 'US', '2024-01-05', 200, 10),
+  trade('us2', 'dividend', 'US', '2024-02-15', 0.24, 10)
+];
+const { cashFlows } = buildLedger(transactions, DEFAULT_SETTINGS);
+
+describe('buildCashBalances', () => {
+  it('台幣與美元各自累計，換匯視為本金在兩種幣別間移動', () => {
+    const { balances, tracked } = buildCashBalances(transactions, entries, cashFlows);
+    const [twBuy, usBuy, usDividend] = transactions;
+
+    expect(tracked).toBe(true);
+    expect(balances.TWD).toMatchObject({ deposited: 1050000, withdrawn: 0, fxFlow: -320000, netContributed: 730000, tradeFlow: -twBuy.totalAmount });
+    expect(balances.TWD.balance).toBeCloseTo(730000 - twBuy.totalAmount);
+    expect(balances.USD).toMatchObject({ deposited: 0, withdrawn: 1000, fxFlow: 10000, netContributed: 9000 });
+    expect(balances.USD.tradeFlow).toBeCloseTo(usDividend.totalAmount - usBuy.totalAmount);
+    expect(balances.USD.balance).toBeCloseTo(9000 + usDividend.totalAmount - usBuy.totalAmount);
+  });
+
+  it('依帳戶、日期與排除的交易篩選', () => {
+    expect(buildCashBalances(transactions, entries, cashFlows, { accountId: 'sub' }).balances.TWD.balance).toBe(50000);
+    const early = buildCashBalances(transactions, entries, cashFlows, { asOf: '2024-01-03', accountId: 'default' }).balances;
+    expect(early.TWD.balance).toBe(680000);
+    expect(early.USD.balance).toBe(10000);
+    const excluded = buildCashBalances(transactions, entries, cashFlows, { excludeId: 'us1', asOf: '2024-01-31' }).balances;
+    expect(excluded.USD.balance).toBe(10000);
+  });
+
+  it('沒有現金帳紀錄的帳戶不顯示餘額', () => {
+    expect(buildCashBalances(transactions, [], cashFlows).tracked).toBe(false);
+    expect(buildCashBalances(transactions, entries, cashFlows, { accountId: 'other' }).tracked).toBe(false);
+  });
+});
+
+describe('getConversionRate', () => {
+  it('不論換出哪種幣別都以 1 美元兌台幣表示', () => {
+    expect(getConversionRate({ currency: 'TWD', amount: 320000, toAmount: 10000 })).toBe(32);
+    expect(getConversionRate({ currency: 'USD', amount: 1000, toAmount: 31500 })).toBe(31.5);
+    expect(getConversionRate({ currency: 'USD', amount: 1000 })).toBeNull();
+  });
+});
+
+describe('getRequiredCash', () => {
+  it('融資買進只需自備款，融券賣出需繳保證金', () => {
+    expect(getRequiredCash({ type: 'buy', totalAmount: 500713 })).toBe(500713);
+    expect(getRequiredCash({ type: 'buy', credit: 'margin', totalAmount: 500713, loanAmount: 300000 })).toBe(200713);
+    expect(getRequiredCash({ type: 'sell', credit: 'short', totalAmount: 498000, loanAmount: 450000 })).toBe(450000);
+    expect(getRequiredCash({ type: 'sell', totalAmount: 498000 })).toBe(0);
+  });
+});
@@ -0,0 +1,105 @@
+import { DEFAULT_ACCOUNT_ID } from './settings';
+import { getAccountId } from './ledger';
+import { getShortEquity } from './credit';
+import type { CashEntry, CashEntryType, CurrencyType, Holding, ShortPosition, Transaction } from './types';
+
+// --- 現金帳 ---
+// 台幣與美元各自累計餘額：入金、出金與換匯來自現金帳紀錄，
+// 買賣、股利與減資退款則取用 buildLedger 算出的交割金額 (cashFlows)，融資與融券只計自備款與保證金。
+
+export const CASH_ENTRY_LABELS: Record<CashEntryType, string> = {
+  deposit: '入金',
+  withdrawal: '出金',
+  fxConversion: '換匯'
+};
+
+const CURRENCIES: CurrencyType[] = ['TWD', 'USD'];
+
+const EPSILON = 0.000001;
+
+export const getCashAccountId = (e: CashEntry) => e.accountId || DEFAULT_ACCOUNT_ID;
+
+export const getOtherCurrency = (currency: CurrencyType): CurrencyType => currency === 'TWD' ? 'USD' : 'TWD';
+
+// 換匯的成交匯率 (1 USD = ? TWD)
+export const getConversionRate = (e: Pick<CashEntry, 'currency' | 'amount' | 'toAmount'>) => {
+  if (!e.toAmount || e.amount <= 0) return null;
+  return e.currency === 'TWD' ? e.amount / e.toAmount : e.toAmount / e.amount;
+};
+
+// 一筆現金帳紀錄對各幣別的增減
+export const getCashEntryFlows = (e: CashEntry): Partial<Record<CurrencyType, number>> => {
+  if (e.type === 'deposit') return { [e.currency]: e.amount };
+  if (e.type === 'withdrawal') return { [e.currency]: -e.amount };
+  return { [e.currency]: -e.amount, [getOtherCurrency(e.currency)]: e.toAmount || 0 };
+};
+
+export interface CashBalance {
+  currency: CurrencyType;
+  balance: number;
+  deposited: number;
+  withdrawn: number;
+  netContributed: number; // 入金 - 出金 ± 換匯：換匯視為本金在兩種幣別間移動，各幣別的損益才不會失真
+  tradeFlow: number; // 買賣、股利等交割淨額
+  fxFlow: number; // 換匯淨額
+}
+
+export interface CashLedgerOptions {
+  // 只計算此帳戶；未指定時合併所有帳戶
+  accountId?: string | null;
+  // 只計入此日 (含) 以前的紀錄
+  asOf?: string;
+  // 排除的交易 id (編輯交易時排除原本那筆)
+  excludeId?: string | null;
+}
+
+const emptyBalance = (currency: CurrencyType): CashBalance => ({ currency, balance: 0, deposited: 0, withdrawn: 0, netContributed: 0, tradeFlow: 0, fxFlow: 0 });
+
+export const buildCashBalances = (
+  transactions: Transaction[],
+  cashEntries: CashEntry[],
+  cashFlows: Record<string, number>,
+  options: CashLedgerOptions = {}
+) => {
+  const inScope = (accountId: string, date: string, id: string) =>
+    (!options.accountId || accountId === options.accountId) && (!options.asOf || date <= options.asOf) && id !== options.excludeId;
+  const balances = Object.fromEntries(CURRENCIES.map(c => [c, emptyBalance(c)])) as Record<CurrencyType, CashBalance>;
+  const entries = cashEntries.filter(e => inScope(getCashAccountId(e), e.date, e.id));
+
+  entries.forEach(e => {
+    Object.entries(getCashEntryFlows(e)).forEach(([currency, amount]) => {
+      const b = balances[currency as CurrencyType];
+      b.balance += amount;
+      if (e.type === 'deposit') b.deposited += amount;
+      else if (e.type === 'withdrawal') b.withdrawn -= amount;
+      else b.fxFlow += amount;
+    });
+  });
+  transactions.forEach(t => {
+    const amount = cashFlows[t.id];
+    if (!amount || !inScope(getAccountId(t), t.date, t.id)) return;
+    const b = balances[t.market === 'TW' ? 'TWD' : 'USD'];
+    b.balance += amount;
+    b.tradeFlow += amount;
+  });
+  CURRENCIES.forEach(c => {
+    const b = balances[c];
+    b.netContributed = b.deposited - b.withdrawn + b.fxFlow;
+    if (Math.abs(b.balance) < EPSILON) b.balance = 0;
+  });
+
+  // 有現金帳紀錄的帳戶才顯示現金與購買力，避免只記股票的使用者看到負餘額
+  return { balances, tracked: cashEntries.some(e => !options.accountId || getCashAccountId(e) === options.accountId) };
+};
+
+// 證券部位的淨值：融資扣除借款與應計利息，融券以保證金加上未實現損益計
+export const getSecuritiesEquity = (holdings: Holding[], shorts: ShortPosition[]) =>
+  holdings.reduce((sum, h) => sum + h.marketValue - h.loanBalance - h.accruedInterest, 0) +
+  shorts.reduce((sum, s) => sum + getShortEquity(s), 0);
+
+// 這筆交易需要動用的現金 (原幣別)；不需付款的交易為 0
+export const getRequiredCash = (t: Pick<Transaction, 'type' | 'credit' | 'totalAmount' | 'loanAmount'>) => {
+  if (t.type === 'buy' && t.credit !== 'short') return t.totalAmount - (t.credit === 'margin' ? t.loanAmount || 0 : 0);
+  if (t.type === 'sell' && t.credit === 'short') return t.loanAmount || 0;
+  return 0;
+};
@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest';
+import { buildValueTimeline } from './charts';
+import { DEFAULT_SETTINGS } from './settings';
+import type { PortfolioSnapshot, Transaction } from './types';
+
+const buy: Transaction = { id: 'b1', date: '2024-01-02', ticker: '2330', name: '台積電', type: 'buy', market: 'TW', price: 500, shares: 1000, isETF: false, fee: 427, tax: 0, totalAmount: 500427 };
+const snapshot: PortfolioSnapshot = {
+  date: '2024-01-05',
+  holdings: [{ ticker: '2330', market: 'TW', shares: 1000, price: 520, marketValue: 518000, totalCost: 500427, unrealizedPL: 17573 }]
+};
+
+describe('buildValueTimeline', () => {
+  it('每日快照的日期加入走勢並帶出當天記下的市值', () => {
+    const timeline = buildValueTimeline([buy], DEFAULT_SETTINGS, { '2330': 530 }, {}, [snapshot], [], 'TWD', '2024-01-10');
+    expect(timeline.map(p => p.date)).toEqual(['2024-01-02', '2024-01-05', '2024-01-10']);
+    expect(timeline[1].recorded).toBe(518000);
+    expect(timeline[0].recorded).toBeUndefined();
+  });
+
+  it('只看單一帳戶時不使用全部帳戶的快照', () => {
+    const timeline = buildValueTimeline([buy], DEFAULT_SETTINGS, {}, {}, [snapshot], [], 'TWD', '2024-01-10', { accountId: 'default' });
+    expect(timeline.some(p => p.recorded !== undefined)).toBe(false);
+  });
+});
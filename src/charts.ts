@@ -0,0 +1,131 @@
+import { buildLedger, getCurrency, sortTransactionsByDate } from './ledger';
+import type { LedgerOptions } from './ledger';
+import { getConversionFactor, getUsdTwdRate } from './fx';
+import { getShortEquity } from './credit';
+import type { ConsolidatedHolding } from './fx';
+import { buildHoldingsAsOf } from './snapshots';
+import type { AppSettings, CurrencyType, FxRate, Holding, MarketType, PortfolioSnapshot, PricePoint, RealizedItem, ShortPosition, Transaction } from './types';
+
+// --- 圖表資料 ---
+// 只負責把帳務結果整理成圖表需要的序列，金額一律換算成基準幣別。
+
+export interface AllocationSlice {
+  label: string;
+  value: number;
+}
+
+export interface ValuePoint {
+  date: string;
+  invested: number;
+  marketValue: number;
+  recorded?: number; // 當天每日快照記下的市值
+}
+
+export interface MonthlyRealized {
+  month: string;
+  realizedPL: number;
+}
+
+const MARKET_LABELS: Record<MarketType, string> = { TW: '台股', US: '美股' };
+
+// 依市值由大到小排列，市值為 0 (尚未輸入現價) 的持股不列入
+export const buildAllocationByTicker = (holdings: ConsolidatedHolding[]): AllocationSlice[] =>
+  holdings
+    .filter(h => h.marketValue > 0)
+    .map(h => ({ label: h.ticker, value: h.marketValue }))
+    .sort((a, b) => b.value - a.value);
+
+export const buildAllocationByMarket = (holdings: ConsolidatedHolding[]): AllocationSlice[] =>
+  (Object.keys(MARKET_LABELS) as MarketType[])
+    .map(market => ({
+      label: MARKET_LABELS[market],
+      value: holdings.filter(h => h.market === market && h.marketValue > 0).reduce((sum, h) => sum + h.marketValue, 0)
+    }))
+    .filter(s => s.value > 0);
+
+// 依交易紀錄與價格歷史重建每日的投入成本與市值 (交易日與有歷史價的日子各取一點)；
+// 沒有歷史價時以當時最後一筆成交價估算，最後一點以目前現價計；融券以保證金為投入、保證金加未實現損益為市值。
+// 每日快照是當天實際記下的全部帳戶市值，與重建的走勢並列 (事後補登或修改交易時兩者會有差異)，只在看全部帳戶時提供
+export const buildValueTimeline = (
+  transactions: Transaction[],
+  settings: AppSettings,
+  prices: Record<string, number>,
+  priceHistory: Record<string, PricePoint[]>,
+  snapshots: PortfolioSnapshot[],
+  rates: FxRate[],
+  baseCurrency: CurrencyType,
+  today: string,
+  options: LedgerOptions = {}
+): ValuePoint[] => {
+  if (transactions.length === 0) return [];
+  const firstDate = sortTransactionsByDate(transactions)[0].date;
+  const recorded = new Map((options.accountId ? [] : snapshots).map(s => [s.date, s]));
+  const dates = [...new Set([
+    ...transactions.map(t => t.date),
+    ...Object.values(priceHistory).flatMap(points => points.map(p => p.date)),
+    ...recorded.keys()
+  ])].filter(d => d >= firstDate && d < today).sort();
+
+  const toPoint = (date: string, { holdings, shorts }: { holdings: Holding[]; shorts: ShortPosition[] }, usdTwd: number): ValuePoint => {
+    const point: ValuePoint = { date, invested: 0, marketValue: 0 };
+    const snapshot = recorded.get(date);
+    if (snapshot) {
+      point.recorded = snapshot.holdings.reduce((sum, h) => sum + h.marketValue * getConversionFactor(getCurrency(h.market), baseCurrency, usdTwd), 0);
+    }
+    holdings.forEach(h => {
+      const factor = getConversionFactor(getCurrency(h.market), baseCurrency, usdTwd);
+      point.invested += h.totalCost * factor;
+      point.marketValue += h.marketValue * factor;
+    });
+    shorts.forEach(s => {
+      const factor = getConversionFactor(s.currency, baseCurrency, usdTwd);
+      point.invested += s.collateral * factor;
+      point.marketValue += getShortEquity(s) * factor;
+    });
+    return point;
+  };
+
+  const points = dates.map(date =>
+    toPoint(date, buildHoldingsAsOf(transactions, settings, priceHistory, date, options), getUsdTwdRate(rates, date) ?? 1)
+  );
+
+  const asOfToday = buildHoldingsAsOf(transactions, settings, priceHistory, today, options);
+  const ledger = buildLedger(sortTransactionsByDate(transactions).filter(t => t.date <= today), settings, { ...asOfToday.prices, ...prices }, options);
+  points.push(toPoint(today, ledger, getUsdTwdRate(rates) ?? 1));
+  return points;
+};
+
+const monthOf = (date: string) => date.slice(0, 7);
+
+const nextMonth = (month: string) => {
+  const [y, m] = month.split('-').map(Number);
+  return m === 12 ? `${y + 1}-01` : `${y}-${String(m + 1).padStart(2, '0')}`;
+};
+
+// 以賣出日所屬月份彙總已實現損益；換算方式與合併總覽相同 (收入用賣出日匯率、成本用買進日匯率)
+export const buildMonthlyRealized = (
+  realizedGains: RealizedItem[],
+  rates: FxRate[],
+  baseCurrency: CurrencyType
+): MonthlyRealized[] => {
+  const totals: Record<string, number> = {};
+  const factorOn = (currency: CurrencyType, date: string) =>
+    getConversionFactor(currency, baseCurrency, getUsdTwdRate(rates, date) ?? 1);
+
+  realizedGains.forEach(r => {
+    r.closedLots.forEach(lot => {
+      const month = monthOf(lot.sellDate);
+      const pl = lot.proceeds * factorOn(r.currency, lot.sellDate) - lot.cost * factorOn(r.currency, lot.buyDate);
+      totals[month] = (totals[month] || 0) + pl;
+    });
+  });
+
+  // 補齊中間沒有賣出的月份，長條圖的時間軸才連續
+  const months = Object.keys(totals).sort();
+  if (months.length === 0) return [];
+  const result: MonthlyRealized[] = [];
+  for (let m = months[0]; m <= months[months.length - 1]; m = nextMonth(m)) {
+    result.push({ month: m, realizedPL: totals[m] || 0 });
+  }
+  return result;
+};
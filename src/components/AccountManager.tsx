@@ -0,0 +1,99 @@
+import { useState } from 'react';
+import { Plus, Trash2, Wallet } from 'lucide-react';
+import type { Account, AppSettings, FeeProfile } from '../types';
+import type { Theme } from '../theme';
+import { DEFAULT_ACCOUNT_ID, FEE_PROFILE_FIELDS } from '../settings';
+
+interface AccountManagerProps {
+  accounts: Account[];
+  settings: AppSettings;
+  transactionCounts: Record<string, number>;
+  onChange: (accounts: Account[]) => void;
+  theme: Theme;
+  isDark: boolean;
+}
+
+// 帳戶清單與各券商費率；留空的欄位沿用上方的全域參數
+export default function AccountManager({ accounts, settings, transactionCounts, onChange, theme, isDark }: AccountManagerProps) {
+  const [newName, setNewName] = useState('');
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const addAccount = () => {
+    const name = newName.trim();
+    if (!name) return;
+    const id = `acc-${Date.now().toString(36)}`;
+    onChange([...accounts, { id, name, fees: {} }]);
+    setNewName('');
+    setExpandedId(id);
+  };
+
+  const updateAccount = (id: string, patch: Partial<Account>) =>
+    onChange(accounts.map(a => (a.id === id ? { ...a, ...patch } : a)));
+
+  const updateFee = (account: Account, key: keyof FeeProfile, value: string) => {
+    const fees = { ...account.fees };
+    const num = parseFloat(value);
+    if (value === '' || isNaN(num)) delete fees[key];
+    else fees[key] = num;
+    updateAccount(account.id, { fees });
+  };
+
+  return (
+    <div className="space-y-4 pt-4">
+      <h3 className={`text-sm font-semibold uppercase tracking-wider flex items-center ${theme.subText}`}>
+        <Wallet size={16} className="mr-2" /> 帳戶與券商費率
+      </h3>
+      <div className={`divide-y ${theme.divider} border rounded-lg ${isDark ? 'border-gray-800' : 'border-gray-200'}`}>
+        {accounts.map(account => {
+          const count = transactionCounts[account.id] || 0;
+          const overrides = Object.keys(account.fees).length;
+          return (
+            <div key={account.id} className="p-3 space-y-3">
+              <div className="flex items-center space-x-2">
+                <input
+                  type="text"
+                  value={account.name}
+                  onChange={(e) => updateAccount(account.id, { name: e.target.value })}
+                  className={`flex-1 p-1.5 border rounded text-sm ${theme.input}`}
+                />
+                <button onClick={() => setExpandedId(expandedId === account.id ? null : account.id)} className={`text-xs whitespace-nowrap ${theme.buttonSecondary}`}>
+                  費率{overrides > 0 ? ` (${overrides})` : ''}
+                </button>
+                <span className={`text-xs whitespace-nowrap ${theme.subText}`}>{count} 筆</span>
+                <button
+                  onClick={() => onChange(accounts.filter(a => a.id !== account.id))}
+                  disabled={account.id === DEFAULT_ACCOUNT_ID || count > 0}
+                  title={account.id === DEFAULT_ACCOUNT_ID ? '預設帳戶不可刪除' : count > 0 ? '帳戶內仍有交易' : '刪除帳戶'}
+                  className={`${theme.buttonSecondary} hover:text-red-500 disabled:opacity-30 disabled:hover:text-inherit`}
+                >
+                  <Trash2 size={14} />
+                </button>
+              </div>
+              {expandedId === account.id && (
+                <div className="grid grid-cols-2 gap-2">
+                  {FEE_PROFILE_FIELDS.map(field => (
+                    <div key={field.key}>
+                      <label className={`block text-[11px] mb-0.5 ${theme.subText}`}>{field.market === 'TW' ? '台股' : '美股'}{field.label}</label>
+                      <input
+                        type="number"
+                        step={field.step}
+                        placeholder={String(settings[field.key])}
+                        value={account.fees[field.key] ?? ''}
+                        onChange={(e) => updateFee(account, field.key, e.target.value)}
+                        className={`w-full p-1.5 border rounded text-sm ${theme.input}`}
+                      />
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+      <div className="flex space-x-2">
+        <input type="text" placeholder="新帳戶名稱 (例如 富邦證券)" value={newName} onChange={(e) => setNewName(e.target.value)} className={`flex-1 p-2 border rounded ${theme.input}`} />
+        <button onClick={addAccount} className="px-3 bg-red-600 hover:bg-red-700 text-white rounded"><Plus size={16} /></button>
+      </div>
+    </div>
+  );
+}
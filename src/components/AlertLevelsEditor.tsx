@@ -0,0 +1,59 @@
+import { useState } from 'react';
+import type { AlertLevels } from '../types';
+import type { Theme } from '../theme';
+
+interface AlertLevelsEditorProps {
+  levels: AlertLevels | undefined;
+  currentPrice: number;
+  peakPrice: number;
+  onSave: (levels: AlertLevels) => void;
+  onCancel: () => void;
+  theme: Theme;
+}
+
+const FIELDS: { key: keyof AlertLevels; label: string; step: string }[] = [
+  { key: 'targetPrice', label: '目標價', step: '0.01' },
+  { key: 'stopPrice', label: '停損價', step: '0.01' },
+  { key: 'maxDrawdown', label: '最大回檔 (%)', step: '0.1' }
+];
+
+// 持股明細展開列內的警示價位設定；留空代表不設定
+export default function AlertLevelsEditor({ levels, currentPrice, peakPrice, onSave, onCancel, theme }: AlertLevelsEditorProps) {
+  const [draft, setDraft] = useState<Record<keyof AlertLevels, string>>({
+    targetPrice: levels?.targetPrice ? String(levels.targetPrice) : '',
+    stopPrice: levels?.stopPrice ? String(levels.stopPrice) : '',
+    maxDrawdown: levels?.maxDrawdown ? String(levels.maxDrawdown) : ''
+  });
+
+  const save = () => {
+    const parsed: AlertLevels = {};
+    FIELDS.forEach(({ key }) => {
+      const value = parseFloat(draft[key]);
+      if (value > 0) parsed[key] = value;
+    });
+    onSave(parsed);
+  };
+
+  return (
+    <div className="flex flex-wrap items-end gap-3">
+      {FIELDS.map(field => (
+        <div key={field.key}>
+          <label className={`block text-xs mb-1 ${theme.subText}`}>{field.label}</label>
+          <input
+            type="number"
+            step={field.step}
+            min="0"
+            value={draft[field.key]}
+            onChange={(e) => setDraft({ ...draft, [field.key]: e.target.value })}
+            className={`w-28 p-1.5 border rounded text-sm ${theme.input}`}
+          />
+        </div>
+      ))}
+      <div className={`text-xs pb-2 ${theme.subText}`}>現價 {currentPrice || '—'} · 持有期間高點 {peakPrice || '—'}</div>
+      <div className="flex space-x-2 ml-auto">
+        <button onClick={onCancel} className={`px-3 py-1.5 text-sm ${theme.buttonSecondary}`}>取消</button>
+        <button onClick={save} className="px-3 py-1.5 text-sm bg-red-600 hover:bg-red-700 text-white rounded">儲存</button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,44 @@
+import { Bell, Check } from 'lucide-react';
+import type { Theme } from '../theme';
+import { ALERT_KIND_LABELS } from '../alerts';
+import type { AlertKind, TriggeredAlert } from '../alerts';
+
+interface AlertPanelProps {
+  alerts: TriggeredAlert[];
+  onAcknowledge: (keys: string[]) => void;
+  theme: Theme;
+  isDark: boolean;
+}
+
+// 紅漲綠跌：達目標價用紅色，停損與回檔用綠色
+const kindColor = (kind: AlertKind, isDark: boolean) =>
+  kind === 'target'
+    ? (isDark ? 'bg-red-900/30 text-red-400' : 'bg-red-100 text-red-600')
+    : (isDark ? 'bg-green-900/30 text-green-400' : 'bg-green-100 text-green-600');
+
+// 已觸發且尚未確認的警示
+export default function AlertPanel({ alerts, onAcknowledge, theme, isDark }: AlertPanelProps) {
+  if (alerts.length === 0) return null;
+  return (
+    <div className={`rounded-xl shadow-sm border mb-6 overflow-hidden ${theme.card}`}>
+      <div className={`px-4 py-3 border-b flex items-center justify-between ${theme.sectionHeader}`}>
+        <h2 className="font-bold flex items-center"><Bell size={18} className="mr-2 text-amber-500" />價格警示 ({alerts.length})</h2>
+        {alerts.length > 1 && (
+          <button onClick={() => onAcknowledge(alerts.map(a => a.key))} className={`text-sm ${theme.buttonSecondary}`}>全部知道了</button>
+        )}
+      </div>
+      <div className={`divide-y ${theme.divider}`}>
+        {alerts.map(alert => (
+          <div key={alert.key} className="px-4 py-2 flex items-center justify-between text-sm">
+            <div className="flex items-center space-x-2 min-w-0">
+              <span className={`px-2 py-0.5 rounded text-xs font-medium whitespace-nowrap ${kindColor(alert.kind, isDark)}`}>{ALERT_KIND_LABELS[alert.kind]}</span>
+              <span className="font-bold">{alert.ticker}</span>
+              <span className={`truncate ${theme.subText}`}>{alert.message}</span>
+            </div>
+            <button onClick={() => onAcknowledge([alert.key])} title="知道了" className={`p-1 ${theme.buttonSecondary}`}><Check size={16} /></button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
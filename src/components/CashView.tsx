@@ -0,0 +1,134 @@
+import { useState } from 'react';
+import { Plus, Trash2, Wallet } from 'lucide-react';
+import type { Account, CashEntry, CashEntryType, CurrencyType } from '../types';
+import type { Theme } from '../theme';
+import { formatCurrency, formatNumber } from '../format';
+import { CASH_ENTRY_LABELS, getCashAccountId, getConversionRate, getOtherCurrency } from '../cash';
+import type { CashBalance } from '../cash';
+
+interface CashViewProps {
+  entries: CashEntry[];
+  balances: Record<CurrencyType, CashBalance>;
+  accounts: Account[];
+  defaultAccountId: string;
+  today: string;
+  onAdd: (entry: CashEntry) => void;
+  onDelete: (id: string) => void;
+  theme: Theme;
+  isDark: boolean;
+  paddingClass: string;
+}
+
+const EMPTY_FORM = { type: 'deposit' as CashEntryType, currency: 'TWD' as CurrencyType, amount: '', toAmount: '', note: '' };
+
+// 現金帳：入金、出金與換匯紀錄，頂端顯示各幣別目前餘額 (含股票交割)
+export default function CashView({ entries, balances, accounts, defaultAccountId, today, onAdd, onDelete, theme, isDark, paddingClass }: CashViewProps) {
+  const [form, setForm] = useState({ ...EMPTY_FORM, date: today, accountId: defaultAccountId });
+  const showAccounts = accounts.length > 1;
+  const accountName = (id: string) => accounts.find(a => a.id === id)?.name ?? id;
+
+  const amount = parseFloat(form.amount);
+  const toAmount = parseFloat(form.toAmount);
+  const isConversion = form.type === 'fxConversion';
+  const valid = !!form.date && amount > 0 && (!isConversion || toAmount > 0);
+  const previewRate = isConversion && valid ? getConversionRate({ currency: form.currency, amount, toAmount }) : null;
+
+  const addEntry = () => {
+    if (!valid) return;
+    onAdd({
+      id: `cash-${Date.now()}`,
+      date: form.date,
+      type: form.type,
+      accountId: form.accountId,
+      currency: form.currency,
+      amount,
+      ...(isConversion ? { toAmount } : {}),
+      ...(form.note.trim() ? { note: form.note.trim() } : {})
+    });
+    setForm({ ...form, amount: '', toAmount: '', note: '' });
+  };
+
+  const sorted = [...entries].sort((a, b) => b.date.localeCompare(a.date));
+
+  return (
+    <div className={`mb-6 rounded-xl shadow-sm border overflow-hidden transition-colors ${theme.card}`}>
+      <div className={`px-4 py-3 border-b flex flex-wrap gap-2 items-center justify-between ${theme.sectionHeader}`}>
+        <h2 className="font-bold flex items-center"><Wallet size={18} className="mr-2" />現金帳</h2>
+        <div className="flex flex-wrap gap-4 text-sm">
+          {(['TWD', 'USD'] as const).map(currency => (
+            <span key={currency} title={`入金 ${formatNumber(balances[currency].deposited, 2)} · 出金 ${formatNumber(balances[currency].withdrawn, 2)} · 換匯 ${formatNumber(balances[currency].fxFlow, 2)} · 交割 ${formatNumber(balances[currency].tradeFlow, 2)}`}>
+              <span className={theme.subText}>{currency} 餘額 </span>
+              <span className={`font-bold ${balances[currency].balance < 0 ? 'text-red-500' : ''}`}>{formatCurrency(balances[currency].balance, currency)}</span>
+            </span>
+          ))}
+        </div>
+      </div>
+
+      <div className="p-4 space-y-3">
+        <div className="grid grid-cols-2 md:grid-cols-7 gap-2">
+          <input type="date" value={form.date} onChange={(e) => setForm({ ...form, date: e.target.value })} className={`p-2 border rounded text-sm ${theme.input}`} />
+          <select value={form.type} onChange={(e) => setForm({ ...form, type: e.target.value as CashEntryType })} className={`p-2 border rounded text-sm ${theme.input}`}>
+            {Object.entries(CASH_ENTRY_LABELS).map(([value, label]) => <option key={value} value={value}>{label}</option>)}
+          </select>
+          {showAccounts ? (
+            <select value={form.accountId} onChange={(e) => setForm({ ...form, accountId: e.target.value })} className={`p-2 border rounded text-sm ${theme.input}`}>
+              {accounts.map(a => <option key={a.id} value={a.id}>{a.name}</option>)}
+            </select>
+          ) : <div className="hidden md:block" />}
+          <select value={form.currency} onChange={(e) => setForm({ ...form, currency: e.target.value as CurrencyType })} className={`p-2 border rounded text-sm ${theme.input}`}>
+            <option value="TWD">{isConversion ? 'TWD → USD' : 'TWD'}</option>
+            <option value="USD">{isConversion ? 'USD → TWD' : 'USD'}</option>
+          </select>
+          <input type="number" step="0.01" placeholder={isConversion ? `換出 ${form.currency}` : '金額'} value={form.amount} onChange={(e) => setForm({ ...form, amount: e.target.value })} className={`p-2 border rounded text-sm ${theme.input}`} />
+          {isConversion ? (
+            <input type="number" step="0.01" placeholder={`換得 ${getOtherCurrency(form.currency)}`} value={form.toAmount} onChange={(e) => setForm({ ...form, toAmount: e.target.value })} className={`p-2 border rounded text-sm ${theme.input}`} />
+          ) : (
+            <input type="text" placeholder="備註" value={form.note} onChange={(e) => setForm({ ...form, note: e.target.value })} className={`p-2 border rounded text-sm ${theme.input}`} />
+          )}
+          <button onClick={addEntry} disabled={!valid} className="flex items-center justify-center px-3 py-2 bg-red-600 hover:bg-red-700 text-white rounded text-sm disabled:opacity-50">
+            <Plus size={16} className="mr-1" />新增
+          </button>
+        </div>
+        {previewRate !== null && <p className={`text-xs ${theme.subText}`}>成交匯率 1 USD = {formatNumber(previewRate, 4)} TWD</p>}
+      </div>
+
+      {sorted.length > 0 && (
+        <div className={`overflow-x-auto max-h-72 overflow-y-auto border-t ${isDark ? 'border-gray-800' : 'border-gray-100'}`}>
+          <table className="w-full text-sm text-left">
+            <thead className={theme.tableHeader}>
+              <tr>
+                <th className={`${paddingClass} font-medium`}>日期</th>
+                <th className={`${paddingClass} font-medium`}>類別</th>
+                {showAccounts && <th className={`${paddingClass} font-medium`}>帳戶</th>}
+                <th className={`${paddingClass} font-medium text-right`}>金額</th>
+                <th className={`${paddingClass} font-medium`}>備註</th>
+                <th className={`${paddingClass} font-medium text-center`}>操作</th>
+              </tr>
+            </thead>
+            <tbody className={`divide-y ${theme.divider}`}>
+              {sorted.map(e => {
+                const rate = getConversionRate(e);
+                return (
+                  <tr key={e.id} className={`transition-colors ${theme.tableRowHover}`}>
+                    <td className={`${paddingClass} ${theme.subText}`}>{e.date}</td>
+                    <td className={paddingClass}>{CASH_ENTRY_LABELS[e.type]}</td>
+                    {showAccounts && <td className={`${paddingClass} ${theme.subText}`}>{accountName(getCashAccountId(e))}</td>}
+                    <td className={`${paddingClass} text-right font-medium`}>
+                      {e.type === 'fxConversion'
+                        ? `${formatCurrency(e.amount, e.currency)} → ${formatCurrency(e.toAmount || 0, getOtherCurrency(e.currency))}`
+                        : `${e.type === 'withdrawal' ? '-' : '+'}${formatCurrency(e.amount, e.currency)}`}
+                    </td>
+                    <td className={`${paddingClass} text-xs ${theme.subText}`}>{rate !== null ? `匯率 ${formatNumber(rate, 4)}` : e.note}</td>
+                    <td className={`${paddingClass} text-center`}>
+                      <button onClick={() => onDelete(e.id)} title="刪除" className="text-gray-400 hover:text-red-500"><Trash2 size={16} /></button>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
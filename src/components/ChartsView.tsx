@@ -0,0 +1,153 @@
+import { Chart as ChartJS, ArcElement, BarElement, CategoryScale, Filler, Legend, LinearScale, LineElement, PointElement, Tooltip } from 'chart.js';
+import type { ChartOptions, TooltipItem } from 'chart.js';
+import { Bar, Doughnut, Line } from 'react-chartjs-2';
+import { PieChart, LineChart, BarChart3 } from 'lucide-react';
+import type { ReactNode } from 'react';
+import type { AllocationSlice, MonthlyRealized, ValuePoint } from '../charts';
+import type { CurrencyType } from '../types';
+import type { Theme } from '../theme';
+import { formatCurrency } from '../format';
+
+ChartJS.register(ArcElement, BarElement, CategoryScale, Filler, Legend, LinearScale, LineElement, PointElement, Tooltip);
+
+interface ChartsViewProps {
+  byTicker: AllocationSlice[];
+  byMarket: AllocationSlice[];
+  timeline: ValuePoint[];
+  monthly: MonthlyRealized[];
+  baseCurrency: CurrencyType;
+  theme: Theme;
+  isDark: boolean;
+}
+
+// 與 getPLColor 相同的紅漲綠跌 (tailwind red-500 / green-500)
+const UP_COLOR = '#ef4444';
+const DOWN_COLOR = '#22c55e';
+
+const SNAPSHOT_COLOR = '#3b82f6';
+
+const PALETTE = ['#ef4444', '#f97316', '#eab308', '#3b82f6', '#8b5cf6', '#ec4899', '#14b8a6', '#6366f1', '#84cc16', '#06b6d4', '#a855f7', '#f43f5e'];
+
+// 持股配置、投入成本與市值走勢、每月已實現損益
+export default function ChartsView({ byTicker, byMarket, timeline, monthly, baseCurrency, theme, isDark }: ChartsViewProps) {
+  const textColor = isDark ? '#9ca3af' : '#6b7280';
+  const gridColor = isDark ? '#1f2937' : '#f3f4f6';
+  const money = (val: number) => formatCurrency(val, baseCurrency);
+
+  const axes = {
+    x: { ticks: { color: textColor }, grid: { color: gridColor } },
+    y: { ticks: { color: textColor, callback: (v: string | number) => money(Number(v)) }, grid: { color: gridColor } }
+  };
+
+  const doughnutOptions: ChartOptions<'doughnut'> = {
+    responsive: true,
+    maintainAspectRatio: false,
+    plugins: {
+      legend: { position: 'right', labels: { color: textColor, boxWidth: 12 } },
+      tooltip: {
+        callbacks: {
+          label: (item: TooltipItem<'doughnut'>) => {
+            const total = item.dataset.data.reduce((sum, v) => sum + v, 0);
+            return `${item.label}: ${money(item.parsed)} (${total > 0 ? ((item.parsed / total) * 100).toFixed(1) : '0'}%)`;
+          }
+        }
+      }
+    }
+  };
+
+  const lineOptions: ChartOptions<'line'> = {
+    responsive: true,
+    maintainAspectRatio: false,
+    interaction: { mode: 'index', intersect: false },
+    scales: axes,
+    plugins: {
+      legend: { labels: { color: textColor, boxWidth: 12 } },
+      tooltip: { callbacks: { label: (item: TooltipItem<'line'>) => `${item.dataset.label}: ${money(item.parsed.y ?? 0)}` } }
+    }
+  };
+
+  const barOptions: ChartOptions<'bar'> = {
+    responsive: true,
+    maintainAspectRatio: false,
+    scales: axes,
+    plugins: {
+      legend: { display: false },
+      tooltip: { callbacks: { label: (item: TooltipItem<'bar'>) => money(item.parsed.y ?? 0) } }
+    }
+  };
+
+  const doughnutData = (slices: AllocationSlice[]) => ({
+    labels: slices.map(s => s.label),
+    datasets: [{
+      data: slices.map(s => s.value),
+      backgroundColor: slices.map((_, i) => PALETTE[i % PALETTE.length]),
+      borderColor: isDark ? '#111827' : '#ffffff',
+      borderWidth: 2
+    }]
+  });
+
+  // 市值高於投入成本時以紅色呈現，反之綠色
+  const latest = timeline[timeline.length - 1];
+  const valueColor = latest && latest.marketValue < latest.invested ? DOWN_COLOR : UP_COLOR;
+  const lineData = {
+    labels: timeline.map(p => p.date),
+    datasets: [
+      {
+        label: '市值',
+        data: timeline.map(p => p.marketValue),
+        borderColor: valueColor,
+        backgroundColor: `${valueColor}22`,
+        fill: true,
+        tension: 0.2,
+        pointRadius: timeline.length > 60 ? 0 : 2
+      },
+      {
+        label: '投入成本',
+        data: timeline.map(p => p.invested),
+        borderColor: textColor,
+        borderDash: [4, 4],
+        fill: false,
+        stepped: true,
+        pointRadius: 0
+      },
+      // 每日快照只畫點：沒有快照的日子留空
+      ...(timeline.some(p => p.recorded !== undefined) ? [{
+        label: '每日快照',
+        data: timeline.map(p => p.recorded ?? null),
+        borderColor: SNAPSHOT_COLOR,
+        backgroundColor: SNAPSHOT_COLOR,
+        showLine: false,
+        fill: false,
+        pointRadius: 2
+      }] : [])
+    ]
+  };
+
+  const barData = {
+    labels: monthly.map(m => m.month),
+    datasets: [{
+      data: monthly.map(m => m.realizedPL),
+      backgroundColor: monthly.map(m => (m.realizedPL >= 0 ? UP_COLOR : DOWN_COLOR))
+    }]
+  };
+
+  const card = (icon: ReactNode, title: string, empty: boolean, chart: ReactNode, className = '') => (
+    <div className={`rounded-xl shadow-sm border overflow-hidden transition-colors ${theme.card} ${className}`}>
+      <div className={`px-4 py-3 border-b flex items-center font-bold ${theme.sectionHeader}`}>
+        {icon}{title} <span className={`ml-2 text-xs font-normal ${theme.subText}`}>({baseCurrency})</span>
+      </div>
+      <div className="p-4 h-72">
+        {empty ? <div className={`h-full flex items-center justify-center text-sm ${theme.subText}`}>尚無資料</div> : chart}
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+      {card(<PieChart size={18} className="mr-2" />, '持股配置 (依標的)', byTicker.length === 0, <Doughnut data={doughnutData(byTicker)} options={doughnutOptions} />)}
+      {card(<PieChart size={18} className="mr-2" />, '持股配置 (依市場)', byMarket.length === 0, <Doughnut data={doughnutData(byMarket)} options={doughnutOptions} />)}
+      {card(<LineChart size={18} className="mr-2" />, '投入成本與市值', timeline.length === 0, <Line data={lineData} options={lineOptions} />, 'md:col-span-2')}
+      {card(<BarChart3 size={18} className="mr-2" />, '每月已實現損益', monthly.length === 0, <Bar data={barData} options={barOptions} />, 'md:col-span-2')}
+    </div>
+  );
+}
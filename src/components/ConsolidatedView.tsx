@@ -0,0 +1,98 @@
+import { Globe, AlertCircle } from 'lucide-react';
+import type { ConsolidatedHolding, ConsolidatedRealized, ConsolidatedSummary } from '../fx';
+import type { Theme } from '../theme';
+import { getPLColor } from '../theme';
+import { formatCurrency } from '../format';
+
+interface ConsolidatedViewProps {
+  summary: ConsolidatedSummary;
+  holdings: ConsolidatedHolding[];
+  realized: ConsolidatedRealized[];
+  theme: Theme;
+  isDark: boolean;
+  paddingClass: string;
+}
+
+// 以基準幣別合併台美股的總覽卡片與明細表
+export default function ConsolidatedView({ summary, holdings, realized, theme, isDark, paddingClass }: ConsolidatedViewProps) {
+  const base = summary.baseCurrency;
+  const signed = (val: number) => `${val > 0 ? '+' : ''}${formatCurrency(val, base)}`;
+  const rows = [
+    ...holdings.map(h => ({ key: `h-${h.ticker}`, kind: '持有', ticker: h.ticker, name: h.name, market: h.market, value: h.marketValue, cost: h.totalCost, pl: h.unrealizedPL, priceGain: h.priceGain, fxGain: h.fxGain, roi: h.roi })),
+    ...realized.map(r => ({ key: `r-${r.ticker}`, kind: '已實現', ticker: r.ticker, name: r.name, market: r.market, value: r.totalRevenue, cost: r.totalCost, pl: r.realizedPL, priceGain: r.priceGain, fxGain: r.fxGain, roi: r.roi })),
+  ];
+
+  return (
+    <div className={`rounded-xl shadow-sm border mb-6 overflow-hidden ${theme.card}`}>
+      <div className={`px-4 py-3 border-b flex items-center justify-between ${theme.sectionHeader}`}>
+        <div className="flex items-center font-bold">
+          <Globe size={18} className="mr-2" /> 合併總資產 ({base})
+        </div>
+        <div className={`text-sm ${getPLColor(summary.roi, isDark)} font-bold`}>
+          ROI: {summary.roi > 0 ? '+' : ''}{summary.roi.toFixed(2)}%
+        </div>
+      </div>
+
+      {summary.missingRate && (
+        <div className={`mx-4 mt-3 p-2 rounded text-xs flex items-center ${theme.yellowBg}`}>
+          <AlertCircle size={14} className="mr-1" /> 尚未輸入美元匯率，外幣部位暫以 1:1 換算，請至設定頁新增匯率。
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-center p-4">
+        <div>
+          <p className={`text-xs ${theme.subText} mb-1`}>總淨值</p>
+          <p className="font-bold text-lg">{formatCurrency(summary.marketValue, base)}</p>
+        </div>
+        <div>
+          <p className={`text-xs ${theme.subText} mb-1`}>總成本</p>
+          <p className="font-bold text-lg">{formatCurrency(summary.totalCost, base)}</p>
+        </div>
+        <div>
+          <p className={`text-xs ${theme.subText} mb-1`}>未實現</p>
+          <p className={`font-bold text-lg ${getPLColor(summary.unrealizedPL, isDark)}`}>{signed(summary.unrealizedPL)}</p>
+        </div>
+        <div>
+          <p className={`text-xs ${theme.subText} mb-1`}>已實現</p>
+          <p className={`font-bold text-lg ${getPLColor(summary.realizedPL, isDark)}`}>{signed(summary.realizedPL)}</p>
+        </div>
+      </div>
+
+      {rows.length > 0 && (
+        <div className={`overflow-x-auto border-t ${isDark ? 'border-gray-800' : 'border-gray-100'}`}>
+          <table className="w-full text-sm text-left">
+            <thead className={theme.tableHeader}>
+              <tr>
+                <th className={`${paddingClass} font-medium`}>標的</th>
+                <th className={`${paddingClass} font-medium`}>狀態</th>
+                <th className={`${paddingClass} font-medium text-right`}>市值 / 收入</th>
+                <th className={`${paddingClass} font-medium text-right`}>成本</th>
+                <th className={`${paddingClass} font-medium text-right`}>價差</th>
+                <th className={`${paddingClass} font-medium text-right`}>匯差</th>
+                <th className={`${paddingClass} font-medium text-right`}>損益</th>
+                <th className={`${paddingClass} font-medium text-right`}>報酬率</th>
+              </tr>
+            </thead>
+            <tbody className={`divide-y ${theme.divider}`}>
+              {rows.map(row => (
+                <tr key={row.key} className={`transition-colors ${theme.tableRowHover}`}>
+                  <td className={paddingClass}>
+                    <div className="font-bold">{row.ticker}</div>
+                    <div className={`text-xs ${theme.subText}`}>{row.name} · {row.market}</div>
+                  </td>
+                  <td className={`${paddingClass} ${theme.subText}`}>{row.kind}</td>
+                  <td className={`${paddingClass} text-right`}>{formatCurrency(row.value, base)}</td>
+                  <td className={`${paddingClass} text-right ${theme.subText}`}>{formatCurrency(row.cost, base)}</td>
+                  <td className={`${paddingClass} text-right ${getPLColor(row.priceGain, isDark)}`}>{signed(row.priceGain)}</td>
+                  <td className={`${paddingClass} text-right ${getPLColor(row.fxGain, isDark)}`}>{signed(row.fxGain)}</td>
+                  <td className={`${paddingClass} text-right font-bold ${getPLColor(row.pl, isDark)}`}>{signed(row.pl)}</td>
+                  <td className={`${paddingClass} text-right ${getPLColor(row.roi, isDark)}`}>{row.roi > 0 ? '+' : ''}{row.roi.toFixed(2)}%</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
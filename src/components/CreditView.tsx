@@ -0,0 +1,105 @@
+import { Landmark } from 'lucide-react';
+import type { AppSettings, Holding, MarketType, ShortPosition } from '../types';
+import type { Theme } from '../theme';
+import { getPLColor } from '../theme';
+import { formatCurrency, formatNumber } from '../format';
+import { getCreditRates, getMarginMaintenance, getShortMaintenance } from '../credit';
+import type { CreditSummary } from '../credit';
+import { getCurrency } from '../ledger';
+
+interface CreditViewProps {
+  holdings: Holding[];
+  shorts: ShortPosition[];
+  accountSummaries: { accountId: string; name: string; summaries: CreditSummary[] }[];
+  settings: AppSettings;
+  theme: Theme;
+  isDark: boolean;
+  paddingClass: string;
+}
+
+// 融資融券：各部位與整戶維持率，低於追繳下限時標紅
+export default function CreditView({ holdings, shorts, accountSummaries, settings, theme, isDark, paddingClass }: CreditViewProps) {
+  const marginHoldings = holdings.filter(h => h.loanBalance > 0);
+  if (marginHoldings.length === 0 && shorts.length === 0) return null;
+
+  const ratioCell = (ratio: number | null, market: MarketType) => {
+    if (ratio === null) return <span className={theme.subText}>—</span>;
+    const below = ratio < getCreditRates(market, settings).maintenance;
+    return <span className={`font-bold ${below ? 'text-red-500' : ''}`} title={below ? '低於追繳維持率' : undefined}>{(ratio * 100).toFixed(1)}%</span>;
+  };
+
+  return (
+    <div className={`mt-6 rounded-xl shadow-sm border overflow-hidden transition-colors ${theme.card}`}>
+      <div className={`px-4 py-3 border-b flex flex-wrap gap-2 items-center justify-between ${theme.sectionHeader}`}>
+        <h2 className="font-bold flex items-center"><Landmark size={18} className="mr-2" />融資融券</h2>
+        <span className={`text-xs ${theme.subText}`}>追繳維持率：台股 {(settings.twMaintenanceRatio * 100).toFixed(0)}% · 美股 {(settings.usMaintenanceRatio * 100).toFixed(1)}%</span>
+      </div>
+
+      {accountSummaries.length > 0 && (
+        <div className="p-4 grid grid-cols-1 md:grid-cols-2 gap-3">
+          {accountSummaries.flatMap(account => account.summaries.map(summary => (
+            <div key={`${account.accountId}-${summary.market}`} className={`p-3 rounded-lg border text-sm ${isDark ? 'border-gray-700' : 'border-gray-200'}`}>
+              <div className="flex items-center justify-between mb-2">
+                <span className="font-bold">{account.name} · {summary.market === 'TW' ? '台股' : '美股'}</span>
+                <span className="text-xs">整戶維持率 {ratioCell(summary.ratio, summary.market)}</span>
+              </div>
+              <div className={`grid grid-cols-3 gap-2 text-xs ${theme.subText}`}>
+                <div>融資金額<div className={`text-sm font-medium ${theme.text}`}>{formatCurrency(summary.loanBalance, getCurrency(summary.market))}</div></div>
+                <div>融券市值<div className={`text-sm font-medium ${theme.text}`}>{formatCurrency(summary.shortValue, getCurrency(summary.market))}</div></div>
+                <div>應計利息 / 借券費<div className={`text-sm font-medium ${theme.text}`}>{formatCurrency(summary.accruedCost, getCurrency(summary.market))}</div></div>
+              </div>
+            </div>
+          )))}
+        </div>
+      )}
+
+      <div className={`overflow-x-auto border-t ${isDark ? 'border-gray-800' : 'border-gray-100'}`}>
+        <table className="w-full text-sm text-left">
+          <thead className={theme.tableHeader}>
+            <tr>
+              <th className={`${paddingClass} font-medium`}>部位</th>
+              <th className={`${paddingClass} font-medium text-right`}>股數</th>
+              <th className={`${paddingClass} font-medium text-right`}>借款 / 保證金</th>
+              <th className={`${paddingClass} font-medium text-right`}>擔保品市值</th>
+              <th className={`${paddingClass} font-medium text-right`}>利息 / 借券費</th>
+              <th className={`${paddingClass} font-medium text-right`}>未實現損益</th>
+              <th className={`${paddingClass} font-medium text-right`}>維持率</th>
+            </tr>
+          </thead>
+          <tbody className={`divide-y ${theme.divider}`}>
+            {marginHoldings.map(h => (
+              <tr key={`margin-${h.ticker}`} className={`transition-colors ${theme.tableRowHover}`}>
+                <td className={paddingClass}>
+                  <div className="font-bold">{h.ticker} <span className="text-[10px] px-1 rounded text-red-600 bg-red-50">融資</span></div>
+                  <div className={`text-xs ${theme.subText}`}>{h.name}</div>
+                </td>
+                <td className={`${paddingClass} text-right`}>{formatNumber(h.shares, h.market === 'US' ? 2 : 0)}</td>
+                <td className={`${paddingClass} text-right`}>{formatCurrency(h.loanBalance, h.currency)}</td>
+                <td className={`${paddingClass} text-right`}>{formatCurrency(h.marginValue, h.currency)}</td>
+                <td className={`${paddingClass} text-right ${theme.subText}`}>{formatCurrency(h.accruedInterest, h.currency)}</td>
+                <td className={`${paddingClass} text-right font-bold ${getPLColor(h.unrealizedPL, isDark)}`}>{h.unrealizedPL > 0 ? '+' : ''}{formatCurrency(h.unrealizedPL, h.currency)}</td>
+                <td className={`${paddingClass} text-right`}>{ratioCell(getMarginMaintenance(h), h.market)}</td>
+              </tr>
+            ))}
+            {shorts.map(s => (
+              <tr key={`short-${s.ticker}`} className={`transition-colors ${theme.tableRowHover}`}>
+                <td className={paddingClass}>
+                  <div className="font-bold">{s.ticker} <span className="text-[10px] px-1 rounded text-green-600 bg-green-50">融券</span></div>
+                  <div className={`text-xs ${theme.subText}`}>{s.name} · 放空均價 {formatNumber(s.avgPrice, 2)}</div>
+                </td>
+                <td className={`${paddingClass} text-right`}>{formatNumber(s.shares, s.market === 'US' ? 2 : 0)}</td>
+                <td className={`${paddingClass} text-right`}>{formatCurrency(s.collateral, s.currency)}</td>
+                <td className={`${paddingClass} text-right`} title="保證金 + 擔保價款">{formatCurrency(s.collateral + s.proceeds, s.currency)}</td>
+                <td className={`${paddingClass} text-right ${theme.subText}`}>{formatCurrency(s.borrowCost, s.currency)}</td>
+                <td className={`${paddingClass} text-right font-bold ${s.price > 0 ? getPLColor(s.unrealizedPL, isDark) : theme.subText}`}>
+                  {s.price > 0 ? `${s.unrealizedPL > 0 ? '+' : ''}${formatCurrency(s.unrealizedPL, s.currency)}` : '需輸入現價'}
+                </td>
+                <td className={`${paddingClass} text-right`}>{ratioCell(getShortMaintenance(s), s.market)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,258 @@
+import { useMemo, useState } from 'react';
+import { X, Upload, Save, AlertCircle, Copy } from 'lucide-react';
+import type { Account, AppSettings, MarketType, Transaction } from '../types';
+import { getAccountSettings } from '../ledger';
+import type { Theme } from '../theme';
+import { formatNumber } from '../format';
+import {
+  buildImportPreview, detectDateFormat, detectNumberFormat, guessMapping, parseDelimited,
+  DATE_FORMAT_LABELS, IMPORT_FIELD_LABELS, NUMBER_FORMAT_LABELS, REQUIRED_IMPORT_FIELDS,
+} from '../csvImport';
+import type { ColumnMapping, DateFormat, ImportField, ImportPreset, NumberFormat } from '../csvImport';
+
+interface ImportModalProps {
+  transactions: Transaction[];
+  settings: AppSettings;
+  accounts: Account[];
+  defaultAccountId: string;
+  presets: ImportPreset[];
+  onSavePreset: (preset: ImportPreset) => void;
+  onDeletePreset: (name: string) => void;
+  onImport: (transactions: Transaction[]) => void;
+  onClose: () => void;
+  theme: Theme;
+  isDark: boolean;
+}
+
+// 匯入券商對帳單：貼上或選檔 → 欄位對應 → 預覽檢查 → 確認匯入
+export default function ImportModal({ transactions, settings, accounts, defaultAccountId, presets, onSavePreset, onDeletePreset, onImport, onClose, theme, isDark }: ImportModalProps) {
+  const [text, setText] = useState('');
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [dateFormat, setDateFormat] = useState<DateFormat>('YMD');
+  const [numberFormat, setNumberFormat] = useState<NumberFormat>('dot');
+  const [defaultMarket, setDefaultMarket] = useState<MarketType>('TW');
+  const [presetName, setPresetName] = useState('');
+  const [skipDuplicates, setSkipDuplicates] = useState(true);
+  const [accountId, setAccountId] = useState(defaultAccountId);
+
+  const table = useMemo(() => parseDelimited(text), [text]);
+
+  // 載入新檔案時自動偵測欄位與格式
+  const loadText = (value: string) => {
+    setText(value);
+    const parsed = parseDelimited(value);
+    const guessed = guessMapping(parsed.headers);
+    setMapping(guessed);
+    const column = (header?: string) => header ? parsed.rows.map(r => r[parsed.headers.indexOf(header)] || '') : [];
+    setDateFormat(detectDateFormat(column(guessed.date).slice(0, 50)));
+    setNumberFormat(detectNumberFormat([...column(guessed.price), ...column(guessed.shares)].slice(0, 100)));
+  };
+
+  const handleFile = (file: File | undefined) => {
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = () => loadText(String(reader.result || ''));
+    reader.readAsText(file);
+  };
+
+  const applyPreset = (name: string) => {
+    const preset = presets.find(p => p.name === name);
+    if (!preset) return;
+    setMapping(preset.mapping);
+    setDateFormat(preset.dateFormat);
+    setNumberFormat(preset.numberFormat);
+    setDefaultMarket(preset.defaultMarket);
+    setPresetName(preset.name);
+  };
+
+  const preview = useMemo(
+    () => table.headers.length > 0
+      ? buildImportPreview(
+        table,
+        { mapping, dateFormat, numberFormat, defaultMarket, accountId },
+        transactions,
+        getAccountSettings(settings, accounts, accountId)
+      )
+      : [],
+    [table, mapping, dateFormat, numberFormat, defaultMarket, accountId, transactions, settings, accounts]
+  );
+
+  const validRows = preview.filter(r => r.transaction && r.errors.length === 0);
+  const toImport = validRows.filter(r => !(skipDuplicates && r.duplicateOf)).map(r => r.transaction as Transaction);
+  const invalidCount = preview.length - validRows.length;
+  const duplicateCount = validRows.filter(r => r.duplicateOf).length;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className={`rounded-xl shadow-xl w-full max-w-4xl max-h-[90vh] flex flex-col overflow-hidden transition-colors ${theme.modalBg}`}>
+        <div className={`px-6 py-4 border-b flex justify-between items-center ${theme.sectionHeader}`}>
+          <h3 className="font-bold flex items-center"><Upload size={18} className="mr-2" />匯入對帳單 (CSV / TSV)</h3>
+          <button onClick={onClose} className={theme.buttonSecondary}><X size={20} /></button>
+        </div>
+
+        <div className="p-6 space-y-4 overflow-y-auto">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className={`block text-xs font-medium mb-1 ${theme.subText}`}>選擇檔案</label>
+              <input type="file" accept=".csv,.tsv,.txt" onChange={(e) => handleFile(e.target.files?.[0])} className={`w-full text-sm ${theme.subText}`} />
+            </div>
+            <div>
+              <label className={`block text-xs font-medium mb-1 ${theme.subText}`}>套用券商設定檔</label>
+              <div className="flex space-x-2">
+                <select value="" onChange={(e) => applyPreset(e.target.value)} className={`flex-1 p-2 border rounded ${theme.input}`}>
+                  <option value="">{presets.length === 0 ? '尚無設定檔' : '選擇…'}</option>
+                  {presets.map(p => <option key={p.name} value={p.name}>{p.name}</option>)}
+                </select>
+                {presets.some(p => p.name === presetName) && (
+                  <button onClick={() => { onDeletePreset(presetName); setPresetName(''); }} className={`px-2 ${theme.buttonSecondary} hover:text-red-500`} title="刪除此設定檔"><X size={16} /></button>
+                )}
+              </div>
+            </div>
+          </div>
+
+          <textarea
+            value={text}
+            onChange={(e) => loadText(e.target.value)}
+            placeholder={'或直接貼上內容，第一列須為表頭\n日期,代號,名稱,買賣別,成交價,股數,手續費,交易稅'}
+            rows={4}
+            className={`w-full p-2 border rounded font-mono text-xs ${theme.input}`}
+          />
+
+          {table.headers.length > 0 && (
+            <>
+              <div>
+                <h4 className={`text-xs font-semibold uppercase tracking-wider mb-2 ${theme.subText}`}>欄位對應</h4>
+                <div className="grid grid-cols-2 md:grid-cols-5 gap-2">
+                  {(Object.keys(IMPORT_FIELD_LABELS) as ImportField[]).map(field => (
+                    <div key={field}>
+                      <label className={`block text-xs mb-1 ${theme.subText}`}>
+                        {IMPORT_FIELD_LABELS[field]}{REQUIRED_IMPORT_FIELDS.includes(field) && <span className="text-red-500">*</span>}
+                      </label>
+                      <select
+                        value={mapping[field] || ''}
+                        onChange={(e) => setMapping({ ...mapping, [field]: e.target.value || undefined })}
+                        className={`w-full p-1 border rounded text-xs ${theme.input}`}
+                      >
+                        <option value="">{field === 'fee' || field === 'tax' ? '依設定估算' : '—'}</option>
+                        {table.headers.map(h => <option key={h} value={h}>{h}</option>)}
+                      </select>
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 md:grid-cols-5 gap-2">
+                <div>
+                  <label className={`block text-xs mb-1 ${theme.subText}`}>匯入帳戶</label>
+                  <select value={accountId} onChange={(e) => setAccountId(e.target.value)} className={`w-full p-1 border rounded text-xs ${theme.input}`}>
+                    {accounts.map(a => <option key={a.id} value={a.id}>{a.name}</option>)}
+                  </select>
+                </div>
+                <div>
+                  <label className={`block text-xs mb-1 ${theme.subText}`}>日期格式</label>
+                  <select value={dateFormat} onChange={(e) => setDateFormat(e.target.value as DateFormat)} className={`w-full p-1 border rounded text-xs ${theme.input}`}>
+                    {Object.entries(DATE_FORMAT_LABELS).map(([value, label]) => <option key={value} value={value}>{label}</option>)}
+                  </select>
+                </div>
+                <div>
+                  <label className={`block text-xs mb-1 ${theme.subText}`}>數字格式</label>
+                  <select value={numberFormat} onChange={(e) => setNumberFormat(e.target.value as NumberFormat)} className={`w-full p-1 border rounded text-xs ${theme.input}`}>
+                    {Object.entries(NUMBER_FORMAT_LABELS).map(([value, label]) => <option key={value} value={value}>{label}</option>)}
+                  </select>
+                </div>
+                <div>
+                  <label className={`block text-xs mb-1 ${theme.subText}`}>無法判斷時的市場</label>
+                  <select value={defaultMarket} onChange={(e) => setDefaultMarket(e.target.value as MarketType)} className={`w-full p-1 border rounded text-xs ${theme.input}`}>
+                    <option value="TW">台股</option>
+                    <option value="US">美股</option>
+                  </select>
+                </div>
+                <div>
+                  <label className={`block text-xs mb-1 ${theme.subText}`}>儲存為設定檔</label>
+                  <div className="flex space-x-1">
+                    <input type="text" placeholder="券商名稱" value={presetName} onChange={(e) => setPresetName(e.target.value)} className={`flex-1 min-w-0 p-1 border rounded text-xs ${theme.input}`} />
+                    <button
+                      onClick={() => presetName.trim() && onSavePreset({ name: presetName.trim(), mapping, dateFormat, numberFormat, defaultMarket })}
+                      disabled={!presetName.trim()}
+                      className={`px-2 ${theme.buttonSecondary} disabled:opacity-40`}
+                      title="儲存欄位對應"
+                    >
+                      <Save size={14} />
+                    </button>
+                  </div>
+                </div>
+              </div>
+
+              <div className="flex flex-wrap items-center gap-3 text-xs">
+                <span>共 {preview.length} 列，可匯入 <strong>{validRows.length}</strong> 列</span>
+                {invalidCount > 0 && <span className="flex items-center text-red-500"><AlertCircle size={12} className="mr-1" />{invalidCount} 列有錯誤</span>}
+                {duplicateCount > 0 && <span className="flex items-center text-amber-500"><Copy size={12} className="mr-1" />{duplicateCount} 列疑似重複</span>}
+                <label className="flex items-center space-x-1 ml-auto">
+                  <input type="checkbox" checked={skipDuplicates} onChange={(e) => setSkipDuplicates(e.target.checked)} />
+                  <span>略過疑似重複</span>
+                </label>
+              </div>
+
+              <div className={`overflow-auto max-h-72 border rounded ${isDark ? 'border-gray-800' : 'border-gray-200'}`}>
+                <table className="w-full text-xs text-left">
+                  <thead className={`${theme.tableHeader} sticky top-0`}>
+                    <tr>
+                      <th className="px-2 py-1">列</th>
+                      <th className="px-2 py-1">日期</th>
+                      <th className="px-2 py-1">代號</th>
+                      <th className="px-2 py-1">類別</th>
+                      <th className="px-2 py-1 text-right">價格</th>
+                      <th className="px-2 py-1 text-right">股數</th>
+                      <th className="px-2 py-1 text-right">費用</th>
+                      <th className="px-2 py-1 text-right">交割金額</th>
+                      <th className="px-2 py-1">狀態</th>
+                    </tr>
+                  </thead>
+                  <tbody className={`divide-y ${theme.divider}`}>
+                    {preview.map(row => {
+                      const t = row.transaction;
+                      const rowClass = row.errors.length > 0
+                        ? (isDark ? 'bg-red-900/20' : 'bg-red-50')
+                        : row.duplicateOf ? (isDark ? 'bg-amber-900/20' : 'bg-amber-50') : '';
+                      return (
+                        <tr key={row.line} className={rowClass}>
+                          <td className={`px-2 py-1 ${theme.subText}`}>{row.line}</td>
+                          {t ? (
+                            <>
+                              <td className="px-2 py-1">{t.date}</td>
+                              <td className="px-2 py-1">{t.ticker} <span className={theme.subText}>{t.market}</span></td>
+                              <td className="px-2 py-1">{t.type === 'buy' ? '買進' : '賣出'}</td>
+                              <td className="px-2 py-1 text-right">{formatNumber(t.price, 2)}</td>
+                              <td className="px-2 py-1 text-right">{formatNumber(t.shares, t.market === 'US' ? 2 : 0)}</td>
+                              <td className="px-2 py-1 text-right">{formatNumber(t.fee + t.tax, 2)}</td>
+                              <td className="px-2 py-1 text-right">{formatNumber(t.totalAmount, 0)}</td>
+                            </>
+                          ) : (
+                            <td colSpan={7} className={`px-2 py-1 font-mono ${theme.subText}`}>{row.raw.join(' | ')}</td>
+                          )}
+                          <td className="px-2 py-1">
+                            {row.errors.length > 0
+                              ? <span className="text-red-500">{row.errors.join('、')}</span>
+                              : row.duplicateOf ? <span className="text-amber-500">重複：{row.duplicateOf}</span> : <span className="text-green-500">OK</span>}
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            </>
+          )}
+
+          <button
+            onClick={() => onImport(toImport)}
+            disabled={toImport.length === 0}
+            className="w-full bg-red-600 hover:bg-red-700 text-white py-3 rounded-lg font-bold shadow-sm disabled:opacity-50 disabled:cursor-not-allowed transition-all"
+          >
+            確認匯入 {toImport.length} 筆
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
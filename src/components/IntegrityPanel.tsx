@@ -0,0 +1,50 @@
+import { useState } from 'react';
+import { AlertTriangle, ChevronDown, ChevronUp } from 'lucide-react';
+import type { Theme } from '../theme';
+import { INTEGRITY_KIND_LABELS } from '../integrity';
+import type { IntegrityIssue } from '../integrity';
+
+interface IntegrityPanelProps {
+  issues: IntegrityIssue[];
+  accountName: (id: string) => string;
+  showAccounts: boolean;
+  onShow: (transactionIds: string[]) => void;
+  theme: Theme;
+  isDark: boolean;
+}
+
+// 交易紀錄上方的帳務檢查結果；點選一項只列出相關交易
+export default function IntegrityPanel({ issues, accountName, showAccounts, onShow, theme, isDark }: IntegrityPanelProps) {
+  const [open, setOpen] = useState(true);
+  if (issues.length === 0) return null;
+  const errorCount = issues.filter(i => i.severity === 'error').length;
+
+  return (
+    <div className={`mb-6 rounded-xl border text-sm ${errorCount > 0 ? (isDark ? 'bg-red-900/20 border-red-900 text-red-300' : 'bg-red-50 border-red-200 text-red-700') : theme.yellowBg}`}>
+      <div className="px-4 py-3 flex items-center justify-between">
+        <div className="flex items-center font-bold">
+          <AlertTriangle size={16} className="mr-2" />
+          帳務檢查：{errorCount > 0 && `${errorCount} 個錯誤`}{errorCount > 0 && errorCount < issues.length && '、'}{issues.length > errorCount && `${issues.length - errorCount} 個提醒`}
+        </div>
+        <div className="flex items-center space-x-3 text-xs">
+          <button onClick={() => onShow([...new Set(issues.flatMap(i => i.transactionIds))])} className="underline">只看相關交易</button>
+          <button onClick={() => setOpen(!open)} title={open ? '收合' : '展開'}>{open ? <ChevronUp size={16} /> : <ChevronDown size={16} />}</button>
+        </div>
+      </div>
+      {open && (
+        <ul className="px-4 pb-3 space-y-1 text-xs max-h-48 overflow-y-auto">
+          {issues.map(issue => (
+            <li key={issue.key} className="flex items-start">
+              <span className={`shrink-0 mr-2 px-1.5 rounded font-bold ${issue.severity === 'error' ? (isDark ? 'bg-red-900/40' : 'bg-red-100') : (isDark ? 'bg-yellow-900/40' : 'bg-yellow-100')}`}>{INTEGRITY_KIND_LABELS[issue.kind]}</span>
+              <button onClick={() => onShow(issue.transactionIds)} className="text-left hover:underline">
+                <span className="font-bold">{issue.ticker}</span>
+                {showAccounts && <span className="opacity-70"> ({accountName(issue.accountId)})</span>}
+                <span> · {issue.message}</span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
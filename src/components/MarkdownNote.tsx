@@ -0,0 +1,18 @@
+import { useMemo } from 'react';
+import { renderMarkdown } from '../notes';
+
+interface MarkdownNoteProps {
+  text: string;
+  className?: string;
+}
+
+// 顯示 Markdown 筆記；HTML 已在 renderMarkdown 內跳脫與過濾連結
+export default function MarkdownNote({ text, className = '' }: MarkdownNoteProps) {
+  const html = useMemo(() => renderMarkdown(text), [text]);
+  return (
+    <div
+      className={`text-sm leading-relaxed break-words space-y-2 [&_a]:text-blue-500 [&_a]:underline [&_ul]:list-disc [&_ul]:pl-5 [&_ol]:list-decimal [&_ol]:pl-5 [&_h1]:font-bold [&_h2]:font-bold [&_h3]:font-semibold [&_blockquote]:border-l-4 [&_blockquote]:pl-3 [&_blockquote]:opacity-80 [&_code]:px-1 [&_code]:rounded [&_code]:bg-gray-500/10 [&_img]:max-h-64 [&_table]:text-xs [&_td]:px-2 [&_th]:px-2 ${className}`}
+      dangerouslySetInnerHTML={{ __html: html }}
+    />
+  );
+}
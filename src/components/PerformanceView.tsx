@@ -0,0 +1,139 @@
+import { useMemo, useState } from 'react';
+import { Activity, Info } from 'lucide-react';
+import type { AppSettings, CurrencyType, FxRate, Transaction } from '../types';
+import type { Theme } from '../theme';
+import { getPLColor } from '../theme';
+import { formatCurrency } from '../format';
+import { buildReturnReport, RETURN_PERIOD_LABELS } from '../returns';
+import type { ReturnPeriod, ReturnResult } from '../returns';
+import type { LedgerOptions } from '../ledger';
+
+interface PerformanceViewProps {
+  transactions: Transaction[];
+  settings: AppSettings;
+  prices: Record<string, number>;
+  fxRates: FxRate[];
+  today: string;
+  ledgerOptions: LedgerOptions;
+  theme: Theme;
+  isDark: boolean;
+  paddingClass: string;
+}
+
+const MARKET_NAMES = { TW: '台股', US: '美股' } as const;
+
+// 全投組、各市場與各標的的 XIRR 與時間加權報酬
+export default function PerformanceView({ transactions, settings, prices, fxRates, today, ledgerOptions, theme, isDark, paddingClass }: PerformanceViewProps) {
+  const [period, setPeriod] = useState<ReturnPeriod>('inception');
+  const report = useMemo(
+    () => buildReturnReport(transactions, settings, prices, fxRates, settings.baseCurrency, period, today, ledgerOptions),
+    [transactions, settings, prices, fxRates, period, today, ledgerOptions]
+  );
+
+  const pct = (val: number | null) => (val === null ? '—' : `${val > 0 ? '+' : ''}${(val * 100).toFixed(2)}%`);
+  const pctColor = (val: number | null) => getPLColor(val ?? 0, isDark);
+  // 未滿一年的年化數字是外推值，僅供參考
+  const shortPeriod = (r: ReturnResult) => r.days < 365;
+
+  const resultCells = (r: ReturnResult, currency: CurrencyType) => (
+    <>
+      <td className={`${paddingClass} text-right ${theme.subText}`}>{formatCurrency(r.startValue, currency)}</td>
+      <td className={`${paddingClass} text-right ${theme.subText}`}>{formatCurrency(r.netInflow, currency)}</td>
+      <td className={`${paddingClass} text-right`}>{formatCurrency(r.endValue, currency)}</td>
+      <td className={`${paddingClass} text-right font-bold ${getPLColor(r.profit, isDark)}`}>{r.profit > 0 ? '+' : ''}{formatCurrency(r.profit, currency)}</td>
+      <td className={`${paddingClass} text-right ${pctColor(r.twr)}`}>{pct(r.twr)}</td>
+      <td className={`${paddingClass} text-right ${pctColor(r.twrAnnualized)} ${shortPeriod(r) ? 'opacity-60' : ''}`}>{pct(r.twrAnnualized)}</td>
+      <td className={`${paddingClass} text-right font-bold ${pctColor(r.xirr)} ${shortPeriod(r) ? 'opacity-60' : ''}`}>{pct(r.xirr)}</td>
+    </>
+  );
+
+  const headerCells = (
+    <>
+      <th className={`${paddingClass} font-medium text-right`}>期初市值</th>
+      <th className={`${paddingClass} font-medium text-right`}>淨投入</th>
+      <th className={`${paddingClass} font-medium text-right`}>期末市值</th>
+      <th className={`${paddingClass} font-medium text-right`}>損益</th>
+      <th className={`${paddingClass} font-medium text-right`}>TWR</th>
+      <th className={`${paddingClass} font-medium text-right`}>TWR 年化</th>
+      <th className={`${paddingClass} font-medium text-right`}>XIRR</th>
+    </>
+  );
+
+  return (
+    <div className={`rounded-xl shadow-sm border overflow-hidden transition-colors ${theme.card}`}>
+      <div className={`px-4 py-3 border-b flex flex-wrap gap-2 items-center justify-between ${theme.sectionHeader}`}>
+        <h2 className="font-bold flex items-center"><Activity size={18} className="mr-2" />投資績效</h2>
+        <div className={`flex rounded p-1 ${isDark ? 'bg-gray-800' : 'bg-gray-100'}`}>
+          {(Object.keys(RETURN_PERIOD_LABELS) as ReturnPeriod[]).map(p => (
+            <button key={p} onClick={() => setPeriod(p)} className={`px-3 py-1 rounded text-sm font-medium transition-colors ${period === p ? 'bg-red-500 text-white shadow' : theme.subText}`}>
+              {RETURN_PERIOD_LABELS[p]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {!report ? (
+        <div className={`p-8 text-center text-sm ${theme.subText}`}>尚無交易紀錄</div>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-center p-4">
+            <div>
+              <p className={`text-xs ${theme.subText} mb-1`}>期間</p>
+              <p className="font-bold text-sm">{report.start} ~ {report.end}</p>
+            </div>
+            <div>
+              <p className={`text-xs ${theme.subText} mb-1`}>損益 ({settings.baseCurrency})</p>
+              <p className={`font-bold text-lg ${getPLColor(report.portfolio.profit, isDark)}`}>{report.portfolio.profit > 0 ? '+' : ''}{formatCurrency(report.portfolio.profit, settings.baseCurrency)}</p>
+            </div>
+            <div>
+              <p className={`text-xs ${theme.subText} mb-1`}>時間加權 (TWR)</p>
+              <p className={`font-bold text-lg ${pctColor(report.portfolio.twr)}`}>{pct(report.portfolio.twr)}</p>
+              <p className={`text-xs ${theme.subText}`}>年化 {pct(report.portfolio.twrAnnualized)}</p>
+            </div>
+            <div>
+              <p className={`text-xs ${theme.subText} mb-1`}>資金加權 (XIRR 年化)</p>
+              <p className={`font-bold text-lg ${pctColor(report.portfolio.xirr)}`}>{pct(report.portfolio.xirr)}</p>
+            </div>
+          </div>
+
+          <div className={`overflow-x-auto border-t ${isDark ? 'border-gray-800' : 'border-gray-100'}`}>
+            <table className="w-full text-sm text-left">
+              <thead className={theme.tableHeader}>
+                <tr>
+                  <th className={`${paddingClass} font-medium`}>範圍</th>
+                  {headerCells}
+                </tr>
+              </thead>
+              <tbody className={`divide-y ${theme.divider}`}>
+                <tr className={`font-medium transition-colors ${theme.tableRowHover}`}>
+                  <td className={paddingClass}>全投組 ({settings.baseCurrency})</td>
+                  {resultCells(report.portfolio, settings.baseCurrency)}
+                </tr>
+                {report.markets.map(m => (
+                  <tr key={m.market} className={`transition-colors ${theme.tableRowHover}`}>
+                    <td className={paddingClass}>{MARKET_NAMES[m.market]} ({m.currency})</td>
+                    {resultCells(m.result, m.currency)}
+                  </tr>
+                ))}
+                {report.tickers.map(t => (
+                  <tr key={t.ticker} className={`transition-colors ${theme.tableRowHover}`}>
+                    <td className={paddingClass}>
+                      <div className="font-bold">{t.ticker}</div>
+                      <div className={`text-xs ${theme.subText}`}>{t.name}</div>
+                    </td>
+                    {resultCells(t.result, t.currency)}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className={`px-4 py-3 text-xs flex items-start ${theme.subText}`}>
+            <Info size={14} className="mr-1 mt-0.5 shrink-0" />
+            <span>TWR 排除資金進出時點的影響，適合比較操作標的；XIRR 反映實際投入金額與時點。期間市值以當時最後成交價估算、期末以目前現價計，融資部位扣除借款、融券部位以保證金加計損益；未滿一年的年化數字為外推值，以淡色顯示。</span>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,256 @@
+import { useState } from 'react';
+import { CalendarClock, Check, Pause, Pencil, Play, Plus, SkipForward, Trash2 } from 'lucide-react';
+import type { Account, AppSettings, InvestmentPlan, MarketType, Transaction } from '../types';
+import type { Theme } from '../theme';
+import { formatCurrency, formatNumber } from '../format';
+import { getCurrency } from '../ledger';
+import { calculatePlanBuy } from '../plans';
+
+interface PlanViewProps {
+  plans: InvestmentPlan[];
+  pending: Transaction[];
+  prices: Record<string, number>;
+  settings: AppSettings;
+  accounts: Account[];
+  defaultAccountId: string;
+  today: string;
+  onSavePlan: (plan: InvestmentPlan) => void;
+  onDeletePlan: (id: string) => void;
+  onConfirm: (pending: Transaction, price: number, date: string) => void;
+  onSkip: (pending: Transaction) => void;
+  theme: Theme;
+  isDark: boolean;
+  paddingClass: string;
+}
+
+const EMPTY_FORM = {
+  ticker: '',
+  name: '',
+  market: 'TW' as MarketType,
+  isETF: true,
+  mode: 'amount' as InvestmentPlan['mode'],
+  amount: '',
+  shares: '',
+  dayOfMonth: '6',
+  endDate: ''
+};
+
+// 定期定額：上方為到期待確認的扣款，下方維護計畫
+export default function PlanView({ plans, pending, prices, settings, accounts, defaultAccountId, today, onSavePlan, onDeletePlan, onConfirm, onSkip, theme, isDark, paddingClass }: PlanViewProps) {
+  const [form, setForm] = useState({ ...EMPTY_FORM, accountId: defaultAccountId, startDate: today });
+  const [editingId, setEditingId] = useState<string | null>(null);
+  // 待確認扣款的實際成交價與成交日 (空字串代表沿用預設)
+  const [execPrices, setExecPrices] = useState<Record<string, string>>({});
+  const [execDates, setExecDates] = useState<Record<string, string>>({});
+  const showAccounts = accounts.length > 1;
+  const accountName = (id: string | undefined) => accounts.find(a => a.id === id)?.name ?? id ?? '';
+  const planOf = (t: Transaction) => plans.find(p => p.id === t.planId);
+
+  const amount = parseFloat(form.amount);
+  const shares = parseFloat(form.shares);
+  const dayOfMonth = parseInt(form.dayOfMonth, 10);
+  const valid = !!form.ticker.trim() && !!form.startDate && dayOfMonth >= 1 && dayOfMonth <= 31 &&
+    (form.mode === 'amount' ? amount > 0 : shares > 0) && (!form.endDate || form.endDate >= form.startDate);
+
+  const savePlan = () => {
+    if (!valid) return;
+    const ticker = form.ticker.trim().toUpperCase();
+    const existing = plans.find(p => p.id === editingId);
+    onSavePlan({
+      id: existing?.id ?? `plan-${Date.now()}`,
+      ticker,
+      name: form.name.trim() || ticker,
+      market: form.market,
+      isETF: form.isETF,
+      accountId: form.accountId,
+      mode: form.mode,
+      ...(form.mode === 'amount' ? { amount } : { shares }),
+      dayOfMonth,
+      startDate: form.startDate,
+      ...(form.endDate ? { endDate: form.endDate } : {}),
+      ...(existing?.paused ? { paused: true } : {}),
+      // 起始日改到更早時不回頭補產生；改到更晚則從新的起始日開始
+      ...(existing?.generatedThrough && existing.generatedThrough >= form.startDate ? { generatedThrough: existing.generatedThrough } : {})
+    });
+    setEditingId(null);
+    setForm({ ...EMPTY_FORM, accountId: form.accountId, startDate: today });
+  };
+
+  const editPlan = (plan: InvestmentPlan) => {
+    setEditingId(plan.id);
+    setForm({
+      ticker: plan.ticker,
+      name: plan.name,
+      market: plan.market,
+      isETF: plan.isETF,
+      mode: plan.mode,
+      amount: plan.amount ? String(plan.amount) : '',
+      shares: plan.shares ? String(plan.shares) : '',
+      dayOfMonth: String(plan.dayOfMonth),
+      endDate: plan.endDate || '',
+      accountId: plan.accountId || defaultAccountId,
+      startDate: plan.startDate
+    });
+  };
+
+  const describe = (plan: InvestmentPlan) =>
+    plan.mode === 'amount' ? `每月 ${plan.dayOfMonth} 日 ${formatCurrency(plan.amount || 0, getCurrency(plan.market))}` : `每月 ${plan.dayOfMonth} 日 ${formatNumber(plan.shares || 0, plan.market === 'US' ? 4 : 0)} 股`;
+
+  return (
+    <div className="space-y-6">
+      {pending.length > 0 && (
+        <div className={`rounded-xl shadow-sm border overflow-hidden transition-colors ${theme.card}`}>
+          <div className={`px-4 py-3 border-b flex items-center justify-between ${theme.sectionHeader}`}>
+            <h2 className="font-bold flex items-center"><CalendarClock size={18} className="mr-2" />待確認扣款 ({pending.length})</h2>
+            <span className={`text-xs ${theme.subText}`}>填入實際成交價後確認，才會計入交易紀錄</span>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm text-left">
+              <thead className={theme.tableHeader}>
+                <tr>
+                  <th className={`${paddingClass} font-medium`}>扣款日</th>
+                  <th className={`${paddingClass} font-medium`}>標的</th>
+                  <th className={`${paddingClass} font-medium text-right`}>成交價</th>
+                  <th className={`${paddingClass} font-medium text-right`}>股數</th>
+                  <th className={`${paddingClass} font-medium text-right`}>手續費</th>
+                  <th className={`${paddingClass} font-medium text-right`}>扣款金額</th>
+                  <th className={`${paddingClass} font-medium text-center`}>操作</th>
+                </tr>
+              </thead>
+              <tbody className={`divide-y ${theme.divider}`}>
+                {[...pending].sort((a, b) => a.date.localeCompare(b.date)).map(t => {
+                  const plan = planOf(t);
+                  const priceInput = execPrices[t.id] ?? (t.price > 0 ? String(t.price) : '');
+                  const price = parseFloat(priceInput);
+                  const date = execDates[t.id] || t.date;
+                  const preview = plan ? calculatePlanBuy(plan, price, settings, accounts) : price > 0 ? { shares: t.shares, fee: t.fee, total: t.totalAmount } : null;
+                  return (
+                    <tr key={t.id} className={`transition-colors ${theme.tableRowHover}`}>
+                      <td className={paddingClass}>
+                        <input type="date" value={date} onChange={(e) => setExecDates({ ...execDates, [t.id]: e.target.value })} className={`p-1 border rounded text-xs ${theme.input}`} />
+                      </td>
+                      <td className={paddingClass}>
+                        <div className="font-bold">{t.ticker}</div>
+                        <div className={`text-xs ${theme.subText}`}>{t.name}{showAccounts && ` · ${accountName(t.accountId)}`}</div>
+                      </td>
+                      <td className={`${paddingClass} text-right`}>
+                        <input
+                          type="number"
+                          step="0.01"
+                          placeholder={prices[t.ticker] ? String(prices[t.ticker]) : '成交價'}
+                          value={priceInput}
+                          onChange={(e) => setExecPrices({ ...execPrices, [t.id]: e.target.value })}
+                          className={`w-24 p-1 border rounded text-right text-sm ${theme.input}`}
+                        />
+                      </td>
+                      <td className={`${paddingClass} text-right`}>{preview ? formatNumber(preview.shares, t.market === 'US' ? 4 : 0) : '—'}</td>
+                      <td className={`${paddingClass} text-right ${theme.subText}`}>{preview ? formatNumber(preview.fee, t.market === 'US' ? 2 : 0) : '—'}</td>
+                      <td className={`${paddingClass} text-right font-medium`}>{preview ? formatCurrency(preview.total, getCurrency(t.market)) : '—'}</td>
+                      <td className={`${paddingClass} text-center whitespace-nowrap`}>
+                        <button onClick={() => onConfirm(t, price, date)} disabled={!preview} title="確認成交" className="p-1 text-green-600 hover:text-green-500 disabled:opacity-30"><Check size={16} /></button>
+                        <button onClick={() => onSkip(t)} title="略過這期 (未扣款)" className={`p-1 ml-1 ${theme.subText} hover:text-red-500`}><SkipForward size={16} /></button>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      <div className={`rounded-xl shadow-sm border overflow-hidden transition-colors ${theme.card}`}>
+        <div className={`px-4 py-3 border-b flex items-center justify-between ${theme.sectionHeader}`}>
+          <h2 className="font-bold flex items-center"><CalendarClock size={18} className="mr-2" />定期定額計畫</h2>
+          <span className={`text-xs ${theme.subText}`}>
+            最低手續費：台股 {settings.twPlanMinFee} 元 · 美股 {settings.usPlanMinFee} USD (可在帳戶設定個別調整)
+          </span>
+        </div>
+
+        <div className="p-4 space-y-3">
+          <div className="grid grid-cols-2 md:grid-cols-6 gap-2">
+            <select value={form.market} onChange={(e) => setForm({ ...form, market: e.target.value as MarketType })} className={`p-2 border rounded text-sm ${theme.input}`}>
+              <option value="TW">台股</option>
+              <option value="US">美股</option>
+            </select>
+            <input type="text" placeholder="代號" value={form.ticker} onChange={(e) => setForm({ ...form, ticker: e.target.value })} className={`p-2 border rounded text-sm uppercase ${theme.input}`} />
+            <input type="text" placeholder="名稱" value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} className={`p-2 border rounded text-sm ${theme.input}`} />
+            <div className={`flex rounded p-1 ${isDark ? 'bg-gray-800' : 'bg-gray-100'}`}>
+              {(['amount', 'shares'] as const).map(mode => (
+                <button key={mode} onClick={() => setForm({ ...form, mode })} className={`flex-1 rounded text-xs font-medium transition-colors ${form.mode === mode ? 'bg-gray-600 text-white shadow' : theme.subText}`}>
+                  {mode === 'amount' ? '定額' : '定股'}
+                </button>
+              ))}
+            </div>
+            {form.mode === 'amount' ? (
+              <input type="number" step="1" placeholder={`每期金額 (${getCurrency(form.market)})`} value={form.amount} onChange={(e) => setForm({ ...form, amount: e.target.value })} className={`p-2 border rounded text-sm ${theme.input}`} />
+            ) : (
+              <input type="number" step={form.market === 'US' ? '0.0001' : '1'} placeholder="每期股數" value={form.shares} onChange={(e) => setForm({ ...form, shares: e.target.value })} className={`p-2 border rounded text-sm ${theme.input}`} />
+            )}
+            <input type="number" min="1" max="31" step="1" placeholder="扣款日" title="每月扣款日 (遇假日順延)" value={form.dayOfMonth} onChange={(e) => setForm({ ...form, dayOfMonth: e.target.value })} className={`p-2 border rounded text-sm ${theme.input}`} />
+          </div>
+          <div className="grid grid-cols-2 md:grid-cols-6 gap-2 items-center">
+            <label className={`text-xs ${theme.subText}`}>開始<input type="date" value={form.startDate} onChange={(e) => setForm({ ...form, startDate: e.target.value })} className={`w-full mt-1 p-2 border rounded text-sm ${theme.input}`} /></label>
+            <label className={`text-xs ${theme.subText}`}>結束 (選填)<input type="date" value={form.endDate} onChange={(e) => setForm({ ...form, endDate: e.target.value })} className={`w-full mt-1 p-2 border rounded text-sm ${theme.input}`} /></label>
+            {showAccounts ? (
+              <label className={`text-xs ${theme.subText}`}>扣款帳戶
+                <select value={form.accountId} onChange={(e) => setForm({ ...form, accountId: e.target.value })} className={`w-full mt-1 p-2 border rounded text-sm ${theme.input}`}>
+                  {accounts.map(a => <option key={a.id} value={a.id}>{a.name}</option>)}
+                </select>
+              </label>
+            ) : <div className="hidden md:block" />}
+            <label className={`flex items-center space-x-2 text-sm ${theme.text}`}>
+              <input type="checkbox" checked={form.isETF} onChange={(e) => setForm({ ...form, isETF: e.target.checked })} className="w-4 h-4 text-red-600 rounded" />
+              <span>ETF</span>
+            </label>
+            <div className="flex space-x-2 md:col-span-2">
+              <button onClick={savePlan} disabled={!valid} className="flex-1 flex items-center justify-center px-3 py-2 bg-red-600 hover:bg-red-700 text-white rounded text-sm disabled:opacity-50">
+                {editingId ? <><Check size={16} className="mr-1" />儲存計畫</> : <><Plus size={16} className="mr-1" />新增計畫</>}
+              </button>
+              {editingId && (
+                <button onClick={() => { setEditingId(null); setForm({ ...EMPTY_FORM, accountId: form.accountId, startDate: today }); }} className={`px-3 py-2 border rounded text-sm ${isDark ? 'border-gray-700' : 'border-gray-300'}`}>取消</button>
+              )}
+            </div>
+          </div>
+        </div>
+
+        {plans.length > 0 && (
+          <div className={`overflow-x-auto border-t ${isDark ? 'border-gray-800' : 'border-gray-100'}`}>
+            <table className="w-full text-sm text-left">
+              <thead className={theme.tableHeader}>
+                <tr>
+                  <th className={`${paddingClass} font-medium`}>標的</th>
+                  <th className={`${paddingClass} font-medium`}>扣款</th>
+                  <th className={`${paddingClass} font-medium`}>期間</th>
+                  {showAccounts && <th className={`${paddingClass} font-medium`}>帳戶</th>}
+                  <th className={`${paddingClass} font-medium text-center`}>操作</th>
+                </tr>
+              </thead>
+              <tbody className={`divide-y ${theme.divider}`}>
+                {plans.map(plan => {
+                  const ended = !!plan.endDate && plan.endDate < today;
+                  return (
+                    <tr key={plan.id} className={`transition-colors ${theme.tableRowHover} ${plan.paused || ended ? 'opacity-60' : ''}`}>
+                      <td className={paddingClass}>
+                        <div className="font-bold">{plan.ticker}{plan.paused && <span className={`ml-2 text-[10px] ${theme.subText}`}>暫停中</span>}{ended && <span className={`ml-2 text-[10px] ${theme.subText}`}>已結束</span>}</div>
+                        <div className={`text-xs ${theme.subText}`}>{plan.name}</div>
+                      </td>
+                      <td className={paddingClass}>{describe(plan)}</td>
+                      <td className={`${paddingClass} text-xs ${theme.subText}`}>{plan.startDate} ~ {plan.endDate || '不限'}</td>
+                      {showAccounts && <td className={`${paddingClass} text-xs ${theme.subText}`}>{accountName(plan.accountId)}</td>}
+                      <td className={`${paddingClass} text-center whitespace-nowrap`}>
+                        <button onClick={() => onSavePlan({ ...plan, paused: !plan.paused })} title={plan.paused ? '恢復扣款' : '暫停扣款'} className={`p-1 ${theme.subText} hover:text-blue-500`}>{plan.paused ? <Play size={16} /> : <Pause size={16} />}</button>
+                        <button onClick={() => editPlan(plan)} title="編輯" className={`p-1 ml-1 ${theme.subText} hover:text-blue-500`}><Pencil size={16} /></button>
+                        <button onClick={() => onDeletePlan(plan.id)} title="刪除計畫 (已確認的交易保留)" className="p-1 ml-1 text-gray-400 hover:text-red-500"><Trash2 size={16} /></button>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,237 @@
+import { useMemo, useState } from 'react';
+import { AlertCircle, Info, Scale } from 'lucide-react';
+import type { Account, AppSettings, FxRate, MarketType, RebalanceSettings, Transaction, WatchlistItem } from '../types';
+import type { Theme } from '../theme';
+import { formatCurrency, formatNumber } from '../format';
+import { getUsdTwdRate } from '../fx';
+import { buildLedger, getAccountSettings } from '../ledger';
+import { buildRebalancePlan, holdingToCandidate, proposalToTransaction } from '../rebalance';
+import type { RebalanceCandidate } from '../rebalance';
+import { DEFAULT_ACCOUNT_ID, TRANSACTION_TYPE_LABELS } from '../settings';
+
+interface RebalanceViewProps {
+  transactions: Transaction[];
+  settings: AppSettings;
+  accounts: Account[];
+  defaultAccountId: string | null;
+  prices: Record<string, number>;
+  fxRates: FxRate[];
+  watchlist: WatchlistItem[];
+  options: RebalanceSettings;
+  today: string;
+  onChangeOptions: (options: RebalanceSettings) => void;
+  onApply: (transactions: Transaction[]) => void;
+  theme: Theme;
+  isDark: boolean;
+  paddingClass: string;
+}
+
+const MARKETS: MarketType[] = ['TW', 'US'];
+const MARKET_NAMES = { TW: '台股', US: '美股' } as const;
+
+// 目標配置與再平衡建議；確認後直接寫入交易紀錄
+export default function RebalanceView({ transactions, settings, accounts, defaultAccountId, prices, fxRates, watchlist, options, today, onChangeOptions, onApply, theme, isDark, paddingClass }: RebalanceViewProps) {
+  const [accountId, setAccountId] = useState(defaultAccountId || DEFAULT_ACCOUNT_ID);
+  const [confirming, setConfirming] = useState(false);
+
+  // 再平衡以單一帳戶為單位，賣出股數才不會超過該帳戶的持股
+  const candidates = useMemo((): RebalanceCandidate[] => {
+    const { holdings } = buildLedger(transactions, settings, prices, { accounts, accountId });
+    const held = new Set(holdings.map(h => h.ticker));
+    return [
+      ...holdings.map(holdingToCandidate),
+      ...watchlist.filter(w => !held.has(w.ticker)).map(w => ({ ticker: w.ticker, name: w.name, market: w.market, isETF: w.isETF, shares: 0 }))
+    ];
+  }, [transactions, settings, prices, accounts, accountId, watchlist]);
+
+  const plan = useMemo(
+    () => buildRebalancePlan(candidates, prices, getUsdTwdRate(fxRates) ?? 1, settings.baseCurrency, getAccountSettings(settings, accounts, accountId), options),
+    [candidates, prices, fxRates, settings, accounts, accountId, options]
+  );
+
+  const targets: Record<string, number> = options.scope === 'ticker' ? options.tickerTargets : options.marketTargets;
+  const targetSum = Object.values(targets).reduce((sum, v) => sum + v, 0);
+
+  const setTarget = (key: string, value: string) => {
+    const num = parseFloat(value);
+    const next = { ...targets };
+    if (value === '' || isNaN(num) || num < 0) delete next[key];
+    else next[key] = num;
+    onChangeOptions(options.scope === 'ticker' ? { ...options, tickerTargets: next } : { ...options, marketTargets: next });
+    setConfirming(false);
+  };
+
+  const apply = () => {
+    const seed = Date.now();
+    onApply(plan.proposals.map((p, i) => proposalToTransaction(p, `${seed}-${i}`, today, accountId)));
+    setConfirming(false);
+  };
+
+  const pct = (val: number) => `${val.toFixed(2)}%`;
+
+  return (
+    <div className="space-y-6">
+      <div className={`rounded-xl shadow-sm border overflow-hidden transition-colors ${theme.card}`}>
+        <div className={`px-4 py-3 border-b flex flex-wrap gap-2 items-center justify-between ${theme.sectionHeader}`}>
+          <h2 className="font-bold flex items-center"><Scale size={18} className="mr-2" />目標配置</h2>
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            {accounts.length > 1 && (
+              <select value={accountId} onChange={(e) => { setAccountId(e.target.value); setConfirming(false); }} className={`p-1.5 border rounded ${theme.input}`}>
+                {accounts.map(a => <option key={a.id} value={a.id}>{a.name}</option>)}
+              </select>
+            )}
+            <div className={`flex rounded p-1 ${isDark ? 'bg-gray-800' : 'bg-gray-100'}`}>
+              {(['ticker', 'market'] as const).map(scope => (
+                <button key={scope} onClick={() => { onChangeOptions({ ...options, scope }); setConfirming(false); }} className={`px-3 py-1 rounded text-sm font-medium transition-colors ${options.scope === scope ? 'bg-red-500 text-white shadow' : theme.subText}`}>
+                  {scope === 'ticker' ? '依代號' : '依市場'}
+                </button>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        <div className="p-4 grid grid-cols-2 md:grid-cols-4 gap-3">
+          {(options.scope === 'ticker' ? candidates.map(c => ({ key: c.ticker, label: c.ticker, hint: c.shares > 0 ? c.name : `${c.name} (觀察中)` })) : MARKETS.map(m => ({ key: m as string, label: MARKET_NAMES[m], hint: '' }))).map(item => (
+            <div key={item.key}>
+              <label className={`block text-xs mb-1 truncate ${theme.subText}`} title={item.hint}>{item.label} {item.hint && <span className="opacity-70">{item.hint}</span>}</label>
+              <div className="flex items-center">
+                <input type="number" min="0" step="0.1" placeholder="不調整" value={targets[item.key] ?? ''} onChange={(e) => setTarget(item.key, e.target.value)} className={`w-full p-1.5 border rounded text-sm ${theme.input}`} />
+                <span className={`ml-1 text-sm ${theme.subText}`}>%</span>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div className={`px-4 pb-4 flex flex-wrap items-center gap-4 text-sm ${theme.subText}`}>
+          <span className={Math.abs(targetSum - 100) > 0.01 && targetSum > 0 ? 'text-amber-500' : ''}>目標合計 {targetSum.toFixed(1)}%</span>
+          <label className="flex items-center space-x-1">
+            <span>台股單位</span>
+            <select value={options.twLotMode} onChange={(e) => onChangeOptions({ ...options, twLotMode: e.target.value as RebalanceSettings['twLotMode'] })} className={`p-1 border rounded ${theme.input}`}>
+              <option value="board">整張 (1000 股)</option>
+              <option value="odd">零股 (1 股)</option>
+            </select>
+          </label>
+          <label className="flex items-center space-x-1">
+            <input type="checkbox" checked={options.usFractional} onChange={(e) => onChangeOptions({ ...options, usFractional: e.target.checked })} className="rounded text-red-600 focus:ring-red-500" />
+            <span>美股允許小數股</span>
+          </label>
+          <label className="flex items-center space-x-1">
+            <span>偏離超過</span>
+            <input type="number" min="0" step="0.5" value={options.driftThreshold} onChange={(e) => onChangeOptions({ ...options, driftThreshold: parseFloat(e.target.value) || 0 })} className={`w-16 p-1 border rounded ${theme.input}`} />
+            <span>百分點才調整</span>
+          </label>
+        </div>
+
+        {plan.warnings.length > 0 && (
+          <div className={`mx-4 mb-4 p-2 rounded border text-xs space-y-1 ${theme.yellowBg}`}>
+            {plan.warnings.map(w => <div key={w} className="flex items-center"><AlertCircle size={14} className="mr-1 shrink-0" />{w}</div>)}
+          </div>
+        )}
+
+        {plan.rows.length > 0 && (
+          <div className={`overflow-x-auto border-t ${isDark ? 'border-gray-800' : 'border-gray-100'}`}>
+            <table className="w-full text-sm text-left">
+              <thead className={theme.tableHeader}>
+                <tr>
+                  <th className={`${paddingClass} font-medium`}>{options.scope === 'ticker' ? '代號' : '市場'}</th>
+                  <th className={`${paddingClass} font-medium text-right`}>市值 ({settings.baseCurrency})</th>
+                  <th className={`${paddingClass} font-medium text-right`}>目前權重</th>
+                  <th className={`${paddingClass} font-medium text-right`}>目標權重</th>
+                  <th className={`${paddingClass} font-medium text-right`}>偏離</th>
+                  <th className={`${paddingClass} font-medium text-right`}>調整後</th>
+                </tr>
+              </thead>
+              <tbody className={`divide-y ${theme.divider}`}>
+                {plan.rows.map(row => (
+                  <tr key={row.key} className={`transition-colors ${theme.tableRowHover}`}>
+                    <td className={`${paddingClass} font-bold`}>{row.label}</td>
+                    <td className={`${paddingClass} text-right`}>{formatCurrency(row.currentValue, settings.baseCurrency)}</td>
+                    <td className={`${paddingClass} text-right`}>{pct(row.currentWeight)}</td>
+                    <td className={`${paddingClass} text-right ${theme.subText}`}>{pct(row.targetWeight)}</td>
+                    <td className={`${paddingClass} text-right font-medium ${Math.abs(row.drift) >= options.driftThreshold ? 'text-amber-500' : theme.subText}`}>{row.drift > 0 ? '+' : ''}{row.drift.toFixed(2)}</td>
+                    <td className={`${paddingClass} text-right`}>{pct(row.afterWeight)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {plan.rows.length > 0 && (
+        <div className={`rounded-xl shadow-sm border overflow-hidden transition-colors ${theme.card}`}>
+          <div className={`px-4 py-3 border-b flex flex-wrap gap-2 items-center justify-between ${theme.sectionHeader}`}>
+            <h2 className="font-bold">建議交易 ({plan.proposals.length})</h2>
+            {plan.proposals.length > 0 && !confirming && (
+              <button onClick={() => setConfirming(true)} className="px-3 py-1.5 bg-red-600 hover:bg-red-700 text-white rounded-lg text-sm">建立交易紀錄</button>
+            )}
+          </div>
+
+          {confirming && (
+            <div className={`m-4 p-3 rounded border text-sm flex flex-wrap items-center justify-between gap-2 ${theme.yellowBg}`}>
+              <span>將以 {today} 新增 {plan.proposals.length} 筆交易{accounts.length > 1 ? `到「${accounts.find(a => a.id === accountId)?.name ?? accountId}」` : ''}，費用依公式估算。確定嗎？</span>
+              <div className="flex space-x-2">
+                <button onClick={() => setConfirming(false)} className={`px-3 py-1 text-sm ${theme.buttonSecondary}`}>取消</button>
+                <button onClick={apply} className="px-3 py-1 bg-red-600 hover:bg-red-700 text-white rounded text-sm">確認新增</button>
+              </div>
+            </div>
+          )}
+
+          {plan.proposals.length === 0 ? (
+            <div className={`p-8 text-center text-sm ${theme.subText}`}>目前配置都在允許偏離範圍內</div>
+          ) : (
+            <>
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm text-left">
+                  <thead className={theme.tableHeader}>
+                    <tr>
+                      <th className={`${paddingClass} font-medium`}>類別</th>
+                      <th className={`${paddingClass} font-medium`}>標的</th>
+                      <th className={`${paddingClass} font-medium text-right`}>股數</th>
+                      <th className={`${paddingClass} font-medium text-right`}>參考價</th>
+                      <th className={`${paddingClass} font-medium text-right`}>手續費</th>
+                      <th className={`${paddingClass} font-medium text-right`}>交易稅</th>
+                      <th className={`${paddingClass} font-medium text-right`}>交割金額</th>
+                    </tr>
+                  </thead>
+                  <tbody className={`divide-y ${theme.divider}`}>
+                    {plan.proposals.map(p => (
+                      <tr key={p.ticker} className={`transition-colors ${theme.tableRowHover}`}>
+                        <td className={paddingClass}>
+                          <span className={`px-2 py-0.5 rounded text-xs ${p.type === 'buy' ? (isDark ? 'bg-red-900/30 text-red-400' : 'bg-red-100 text-red-600') : (isDark ? 'bg-green-900/30 text-green-400' : 'bg-green-100 text-green-600')}`}>{TRANSACTION_TYPE_LABELS[p.type]}</span>
+                        </td>
+                        <td className={paddingClass}>
+                          <div className="font-bold">{p.ticker}</div>
+                          <div className={`text-xs ${theme.subText}`}>{p.name}</div>
+                        </td>
+                        <td className={`${paddingClass} text-right font-medium`}>{formatNumber(p.shares, p.market === 'US' ? 4 : 0)}</td>
+                        <td className={`${paddingClass} text-right ${theme.subText}`}>{formatNumber(p.price, 2)}</td>
+                        <td className={`${paddingClass} text-right ${theme.subText}`}>{formatNumber(p.fee, 2)}</td>
+                        <td className={`${paddingClass} text-right ${theme.subText}`}>{formatNumber(p.tax, 2)}</td>
+                        <td className={`${paddingClass} text-right font-medium`}>{formatCurrency(p.total, p.currency)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              <div className={`px-4 py-3 text-sm flex flex-wrap gap-x-6 gap-y-1 border-t ${isDark ? 'border-gray-800' : 'border-gray-100'}`}>
+                {(Object.keys(plan.netCash) as (keyof typeof plan.netCash)[]).map(currency => (
+                  <span key={currency}>
+                    <span className={theme.subText}>{currency} 淨現金：</span>
+                    <span className="font-bold">{(plan.netCash[currency] ?? 0) > 0 ? '+' : ''}{formatCurrency(plan.netCash[currency] ?? 0, currency)}</span>
+                    <span className={`ml-2 ${theme.subText}`}>(費用與稅 {formatCurrency(plan.totalCosts[currency] ?? 0, currency)})</span>
+                  </span>
+                ))}
+              </div>
+            </>
+          )}
+
+          <div className={`px-4 py-3 text-xs flex items-start ${theme.subText}`}>
+            <Info size={14} className="mr-1 mt-0.5 shrink-0" />
+            <span>權重以現價市值換算 {settings.baseCurrency} 計算，未設定目標的持股不參與。依市場設定時，同市場內各檔依目前市值比例增減。股數依上方單位四捨五入，賣出不超過帳戶持股。</span>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
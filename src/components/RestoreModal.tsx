@@ -0,0 +1,81 @@
+import { useState } from 'react';
+import { X, RotateCcw, AlertCircle } from 'lucide-react';
+import type { AppData } from '../types';
+import type { Theme } from '../theme';
+import { summarizeRestore } from '../backup';
+import type { RestoreMode } from '../backup';
+
+interface RestoreModalProps {
+  current: AppData;
+  incoming: AppData | null;
+  errors: string[];
+  fileName: string;
+  onConfirm: (mode: RestoreMode) => void;
+  onClose: () => void;
+  theme: Theme;
+  isDark: boolean;
+}
+
+// 還原前先列出將會變動的內容，讓使用者選擇合併或覆蓋
+export default function RestoreModal({ current, incoming, errors, fileName, onConfirm, onClose, theme, isDark }: RestoreModalProps) {
+  const [mode, setMode] = useState<RestoreMode>('merge');
+  const summary = incoming ? summarizeRestore(current, incoming, mode) : null;
+
+  const line = (label: string, value: number | string, highlight = false) => (
+    <div className="flex justify-between py-1">
+      <span className={theme.subText}>{label}</span>
+      <span className={`font-medium ${highlight ? 'text-red-500' : ''}`}>{value}</span>
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className={`rounded-xl shadow-xl w-full max-w-md overflow-hidden transition-colors ${theme.modalBg}`}>
+        <div className={`px-6 py-4 border-b flex justify-between items-center ${theme.sectionHeader}`}>
+          <h3 className="font-bold flex items-center"><RotateCcw size={18} className="mr-2" />還原備份</h3>
+          <button onClick={onClose} className={theme.buttonSecondary}><X size={20} /></button>
+        </div>
+
+        <div className="p-6 space-y-4 text-sm">
+          <p className={`text-xs ${theme.subText}`}>檔案：{fileName}</p>
+
+          {errors.length > 0 ? (
+            <div className={`p-3 rounded text-xs ${isDark ? 'bg-red-900/30 text-red-300' : 'bg-red-50 text-red-700'}`}>
+              <div className="flex items-center font-bold mb-1"><AlertCircle size={14} className="mr-1" />備份檔驗證失敗</div>
+              <ul className="list-disc pl-5 max-h-40 overflow-y-auto">
+                {errors.slice(0, 20).map((e, i) => <li key={i}>{e}</li>)}
+                {errors.length > 20 && <li>…另有 {errors.length - 20} 項錯誤</li>}
+              </ul>
+            </div>
+          ) : summary && (
+            <>
+              <div className={`flex rounded p-1 ${isDark ? 'bg-gray-800' : 'bg-gray-100'}`}>
+                <button onClick={() => setMode('merge')} className={`flex-1 py-1 rounded text-sm font-medium transition-colors ${mode === 'merge' ? 'bg-red-500 text-white shadow' : theme.subText}`}>合併</button>
+                <button onClick={() => setMode('replace')} className={`flex-1 py-1 rounded text-sm font-medium transition-colors ${mode === 'replace' ? 'bg-red-500 text-white shadow' : theme.subText}`}>完全覆蓋</button>
+              </div>
+              <p className={`text-xs ${theme.subText}`}>
+                {mode === 'merge' ? '保留現有資料，加入備份中的紀錄；相同 id 的交易以備份檔為準，設定維持目前值。' : '以備份檔完全取代目前所有資料與設定。'}
+              </p>
+              <div className={`divide-y ${theme.divider}`}>
+                {line('新增交易', summary.transactionsAdded)}
+                {line('更新交易', summary.transactionsUpdated)}
+                {line('刪除交易', summary.transactionsRemoved, summary.transactionsRemoved > 0)}
+                {line('不變交易', summary.transactionsUnchanged)}
+                {line('現價變動', summary.pricesChanged)}
+                {line('匯率變動', summary.fxRatesChanged)}
+                {line('現金帳變動', summary.cashEntriesChanged)}
+                {line('匯入設定檔變動', summary.presetsChanged)}
+                {line('交易參數', summary.settingsChanged ? '將被取代' : '不變', summary.settingsChanged)}
+              </div>
+            </>
+          )}
+
+          <div className="flex space-x-3">
+            <button onClick={onClose} className={`flex-1 py-2 border rounded-lg font-medium ${isDark ? 'border-gray-700 hover:bg-gray-800' : 'border-gray-300 hover:bg-gray-50 text-gray-700'}`}>取消</button>
+            <button onClick={() => onConfirm(mode)} disabled={!summary} className="flex-1 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 font-medium shadow-sm disabled:opacity-50 disabled:cursor-not-allowed">確認還原</button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,123 @@
+import { useMemo, useState } from 'react';
+import { Download, FileText, Info, Printer } from 'lucide-react';
+import type { RealizedItem, Transaction } from '../types';
+import type { Theme } from '../theme';
+import { getPLColor } from '../theme';
+import { formatCurrency, formatNumber } from '../format';
+import { downloadFile } from '../backup';
+import { buildTaxReport, getTaxYears, HOLDING_TERM_LABELS, taxReportToCsv } from '../taxReport';
+
+interface TaxReportViewProps {
+  realizedGains: RealizedItem[];
+  transactions: Transaction[];
+  theme: Theme;
+  isDark: boolean;
+  paddingClass: string;
+}
+
+const MARKET_NAMES = { TW: '台股', US: '美股' } as const;
+
+// 年度已實現損益明細；列印時只保留這個區塊
+export default function TaxReportView({ realizedGains, transactions, theme, isDark, paddingClass }: TaxReportViewProps) {
+  const years = useMemo(() => getTaxYears(realizedGains), [realizedGains]);
+  const [selectedYear, setSelectedYear] = useState('');
+  const year = years.includes(selectedYear) ? selectedYear : years[0] ?? '';
+  const report = useMemo(() => (year ? buildTaxReport(realizedGains, transactions, year) : null), [realizedGains, transactions, year]);
+
+  const plColor = (val: number) => getPLColor(val, isDark);
+  const signed = (val: number, currency: 'TWD' | 'USD') => `${val > 0 ? '+' : ''}${formatCurrency(val, currency)}`;
+
+  return (
+    <div className={`rounded-xl shadow-sm border overflow-hidden transition-colors print:border-0 print:shadow-none ${theme.card}`}>
+      <div className={`px-4 py-3 border-b flex flex-wrap gap-2 items-center justify-between ${theme.sectionHeader}`}>
+        <h2 className="font-bold flex items-center"><FileText size={18} className="mr-2" />{year ? `${year} 年度` : '年度'}已實現損益報表</h2>
+        {years.length > 0 && (
+          <div className="flex items-center space-x-2 print:hidden">
+            <select value={year} onChange={(e) => setSelectedYear(e.target.value)} className={`p-1.5 border rounded text-sm ${theme.input}`}>
+              {years.map(y => <option key={y} value={y}>{y}</option>)}
+            </select>
+            <button
+              onClick={() => report && downloadFile(`realized-${year}.csv`, taxReportToCsv(report), 'text/csv;charset=utf-8')}
+              className={`flex items-center space-x-1 border px-3 py-1.5 rounded-lg text-sm ${isDark ? 'border-gray-700 hover:bg-gray-800' : 'border-gray-300 hover:bg-gray-50 text-gray-700'}`}
+            >
+              <Download size={14} /><span>CSV</span>
+            </button>
+            <button
+              onClick={() => window.print()}
+              className={`flex items-center space-x-1 border px-3 py-1.5 rounded-lg text-sm ${isDark ? 'border-gray-700 hover:bg-gray-800' : 'border-gray-300 hover:bg-gray-50 text-gray-700'}`}
+            >
+              <Printer size={14} /><span>列印</span>
+            </button>
+          </div>
+        )}
+      </div>
+
+      {!report ? (
+        <div className={`p-8 text-center text-sm ${theme.subText}`}>尚無賣出紀錄</div>
+      ) : (
+        <>
+          <div className={`grid gap-4 p-4 ${report.totals.length > 1 ? 'md:grid-cols-2' : ''}`}>
+            {report.totals.map(total => (
+              <div key={total.market} className={`p-3 rounded-lg border text-sm ${isDark ? 'border-gray-800' : 'border-gray-200'}`}>
+                <div className="font-bold mb-2">{MARKET_NAMES[total.market]} ({total.currency}) · {total.count} 筆</div>
+                <div className="grid grid-cols-2 gap-y-1">
+                  <span className={theme.subText}>賣出收入</span><span className="text-right">{formatCurrency(total.proceeds, total.currency)}</span>
+                  <span className={theme.subText}>成本</span><span className="text-right">{formatCurrency(total.costBasis, total.currency)}</span>
+                  <span className={theme.subText}>費用 (已含於上兩欄)</span><span className="text-right">{formatCurrency(total.fees, total.currency)}</span>
+                  <span className={theme.subText}>已實現損益</span><span className={`text-right font-bold ${plColor(total.gain)}`}>{signed(total.gain, total.currency)}</span>
+                  {total.market === 'US' && (
+                    <>
+                      <span className={theme.subText}>短期 (持有一年內)</span><span className={`text-right ${plColor(total.shortTermGain)}`}>{signed(total.shortTermGain, total.currency)}</span>
+                      <span className={theme.subText}>長期 (持有超過一年)</span><span className={`text-right ${plColor(total.longTermGain)}`}>{signed(total.longTermGain, total.currency)}</span>
+                    </>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <div className={`overflow-x-auto border-t ${isDark ? 'border-gray-800' : 'border-gray-100'}`}>
+            <table className="w-full text-sm text-left">
+              <thead className={theme.tableHeader}>
+                <tr>
+                  <th className={`${paddingClass} font-medium`}>標的</th>
+                  <th className={`${paddingClass} font-medium`}>取得日</th>
+                  <th className={`${paddingClass} font-medium`}>賣出日</th>
+                  <th className={`${paddingClass} font-medium text-right`}>股數</th>
+                  <th className={`${paddingClass} font-medium text-right`}>賣出收入</th>
+                  <th className={`${paddingClass} font-medium text-right`}>成本</th>
+                  <th className={`${paddingClass} font-medium text-right`}>費用</th>
+                  <th className={`${paddingClass} font-medium text-right`}>損益</th>
+                  <th className={`${paddingClass} font-medium text-center`}>持有期間</th>
+                </tr>
+              </thead>
+              <tbody className={`divide-y ${theme.divider}`}>
+                {report.rows.map(row => (
+                  <tr key={`${row.sellId}-${row.lotId}`} className={`transition-colors ${theme.tableRowHover}`}>
+                    <td className={paddingClass}>
+                      <div className="font-bold">{row.ticker}</div>
+                      <div className={`text-xs ${theme.subText}`}>{row.name} · {row.market}</div>
+                    </td>
+                    <td className={`${paddingClass} ${theme.subText}`}>{row.buyDate}</td>
+                    <td className={`${paddingClass} ${theme.subText}`}>{row.sellDate}</td>
+                    <td className={`${paddingClass} text-right`}>{formatNumber(row.shares, row.market === 'US' ? 4 : 0)}</td>
+                    <td className={`${paddingClass} text-right`}>{formatNumber(row.proceeds, 2)}</td>
+                    <td className={`${paddingClass} text-right`}>{formatNumber(row.costBasis, 2)}</td>
+                    <td className={`${paddingClass} text-right ${theme.subText}`}>{formatNumber(row.fees, 2)}</td>
+                    <td className={`${paddingClass} text-right font-bold ${plColor(row.gain)}`}>{row.gain > 0 ? '+' : ''}{formatNumber(row.gain, 2)}</td>
+                    <td className={`${paddingClass} text-center ${theme.subText}`}>{row.term ? HOLDING_TERM_LABELS[row.term] : '—'}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className={`px-4 py-3 text-xs flex items-start ${theme.subText}`}>
+            <Info size={14} className="mr-1 mt-0.5 shrink-0" />
+            <span>賣出收入已扣除賣出手續費與交易稅，成本已含買進手續費；費用欄僅列出其中包含的金額。金額皆為原幣別，成本依設定的成本計算方式沖銷。美股持有超過一年列為長期。</span>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
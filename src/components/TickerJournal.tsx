@@ -0,0 +1,77 @@
+import { useState } from 'react';
+import { NotebookPen } from 'lucide-react';
+import type { Transaction } from '../types';
+import type { Theme } from '../theme';
+import { formatNumber } from '../format';
+import { TRANSACTION_TYPE_LABELS } from '../settings';
+import MarkdownNote from './MarkdownNote';
+
+interface TickerJournalProps {
+  ticker: string;
+  note: string;
+  entries: Transaction[]; // 有筆記的交易
+  onSave: (note: string) => void;
+  theme: Theme;
+  isDark: boolean;
+}
+
+// 每檔筆記與該檔各筆交易的筆記；持股與已實現損益的展開列共用
+export default function TickerJournal({ ticker, note, entries, onSave, theme, isDark }: TickerJournalProps) {
+  const [draft, setDraft] = useState<string | null>(null);
+
+  const save = () => {
+    if (draft === null) return;
+    onSave(draft.trim());
+    setDraft(null);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <div className="flex items-center justify-between mb-1">
+          <div className={`text-xs font-semibold flex items-center ${theme.subText}`}><NotebookPen size={14} className="mr-1" />{ticker} 筆記</div>
+          {draft === null && <button onClick={() => setDraft(note)} className={`text-xs ${theme.buttonSecondary}`}>{note ? '編輯' : '新增筆記'}</button>}
+        </div>
+        {draft !== null ? (
+          <div className="space-y-2">
+            <textarea
+              rows={5}
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              placeholder="支援 Markdown：投資論點、觀察重點、出場條件…"
+              className={`w-full p-2 border rounded text-sm font-mono ${theme.input}`}
+            />
+            {draft.trim() && (
+              <div className={`p-2 rounded border ${isDark ? 'border-gray-700' : 'border-gray-200'}`}>
+                <div className={`text-[10px] mb-1 ${theme.subText}`}>預覽</div>
+                <MarkdownNote text={draft} />
+              </div>
+            )}
+            <div className="flex justify-end space-x-2">
+              <button onClick={() => setDraft(null)} className={`px-3 py-1 text-sm ${theme.buttonSecondary}`}>取消</button>
+              <button onClick={save} className="px-3 py-1 text-sm bg-red-600 hover:bg-red-700 text-white rounded">儲存</button>
+            </div>
+          </div>
+        ) : note ? (
+          <MarkdownNote text={note} />
+        ) : (
+          <div className={`text-xs ${theme.subText}`}>尚無筆記</div>
+        )}
+      </div>
+
+      {entries.length > 0 && (
+        <div className={`pt-3 border-t space-y-3 ${isDark ? 'border-gray-700' : 'border-gray-200'}`}>
+          {entries.map(t => (
+            <div key={t.id}>
+              <div className={`text-xs mb-1 ${theme.subText}`}>
+                {t.date} · {TRANSACTION_TYPE_LABELS[t.type]}
+                {(t.type === 'buy' || t.type === 'sell') && ` ${formatNumber(t.shares, t.market === 'US' ? 2 : 0)} 股 @ ${formatNumber(t.price, 2)}`}
+              </div>
+              <MarkdownNote text={t.note!} />
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,51 @@
+import { X } from 'lucide-react';
+import type { MarketType, TransactionType } from '../types';
+import type { Theme } from '../theme';
+import { TRANSACTION_TYPE_LABELS } from '../settings';
+import { EMPTY_TRANSACTION_FILTERS } from '../transactionFilters';
+import type { TransactionFilters } from '../transactionFilters';
+
+interface TransactionFilterBarProps {
+  filters: TransactionFilters;
+  onChange: (filters: TransactionFilters) => void;
+  theme: Theme;
+  isDark: boolean;
+}
+
+// 交易紀錄的進階篩選：日期區間、類別、市場、ETF 與交割金額區間 (文字搜尋在標題列)
+export default function TransactionFilterBar({ filters, onChange, theme, isDark }: TransactionFilterBarProps) {
+  const set = (patch: Partial<TransactionFilters>) => onChange({ ...filters, ...patch });
+  const inputClass = `w-full p-1.5 border rounded text-sm ${theme.input}`;
+
+  return (
+    <div className={`px-6 py-3 border-b grid grid-cols-2 md:grid-cols-8 gap-2 items-end text-xs ${isDark ? 'border-gray-800' : 'border-gray-100'}`}>
+      <label className={theme.subText}>起日<input type="date" value={filters.from} max={filters.to || undefined} onChange={(e) => set({ from: e.target.value })} className={`mt-1 ${inputClass}`} /></label>
+      <label className={theme.subText}>迄日<input type="date" value={filters.to} min={filters.from || undefined} onChange={(e) => set({ to: e.target.value })} className={`mt-1 ${inputClass}`} /></label>
+      <label className={theme.subText}>類別
+        <select value={filters.type} onChange={(e) => set({ type: e.target.value as TransactionType | '' })} className={`mt-1 ${inputClass}`}>
+          <option value="">全部</option>
+          {Object.entries(TRANSACTION_TYPE_LABELS).map(([value, label]) => <option key={value} value={value}>{label}</option>)}
+        </select>
+      </label>
+      <label className={theme.subText}>市場
+        <select value={filters.market} onChange={(e) => set({ market: e.target.value as MarketType | '' })} className={`mt-1 ${inputClass}`}>
+          <option value="">全部</option>
+          <option value="TW">台股</option>
+          <option value="US">美股</option>
+        </select>
+      </label>
+      <label className={theme.subText}>ETF
+        <select value={filters.etf} onChange={(e) => set({ etf: e.target.value as TransactionFilters['etf'] })} className={`mt-1 ${inputClass}`}>
+          <option value="">全部</option>
+          <option value="etf">只看 ETF</option>
+          <option value="stock">只看個股</option>
+        </select>
+      </label>
+      <label className={theme.subText}>交割金額 ≥<input type="number" step="1" value={filters.minAmount} onChange={(e) => set({ minAmount: e.target.value })} className={`mt-1 ${inputClass}`} /></label>
+      <label className={theme.subText}>交割金額 ≤<input type="number" step="1" value={filters.maxAmount} onChange={(e) => set({ maxAmount: e.target.value })} className={`mt-1 ${inputClass}`} /></label>
+      <button onClick={() => onChange({ ...EMPTY_TRANSACTION_FILTERS, text: filters.text })} className={`flex items-center justify-center py-1.5 border rounded text-sm ${isDark ? 'border-gray-700 hover:bg-gray-800' : 'border-gray-300 hover:bg-gray-50'}`}>
+        <X size={14} className="mr-1" />清除條件
+      </button>
+    </div>
+  );
+}
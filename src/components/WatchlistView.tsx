@@ -0,0 +1,177 @@
+import { useState } from 'react';
+import { Eye, Plus, RefreshCw, ShoppingCart, Trash2 } from 'lucide-react';
+import type { Holding, MarketType, RealizedItem, WatchlistItem } from '../types';
+import type { Theme } from '../theme';
+import { getPLColor } from '../theme';
+import { formatNumber } from '../format';
+import { getEntryDistance, getRecentlySold, getWatchPrice } from '../watchlist';
+
+interface WatchlistViewProps {
+  items: WatchlistItem[];
+  prices: Record<string, number>;
+  holdings: Holding[];
+  realizedGains: RealizedItem[];
+  today: string;
+  refreshing: boolean;
+  onChange: (items: WatchlistItem[]) => void;
+  onUpdatePrice: (ticker: string, value: string) => void;
+  onRecordBuy: (item: WatchlistItem) => void;
+  onRefresh: () => void;
+  theme: Theme;
+  isDark: boolean;
+  paddingClass: string;
+}
+
+const EMPTY_FORM = { ticker: '', market: 'TW' as MarketType, name: '', isETF: false, referencePrice: '', entryPrice: '', notes: '' };
+
+// 觀察清單：追蹤尚未持有或已出清的標的，並可一鍵帶入買進表單
+export default function WatchlistView({ items, prices, holdings, realizedGains, today, refreshing, onChange, onUpdatePrice, onRecordBuy, onRefresh, theme, isDark, paddingClass }: WatchlistViewProps) {
+  const [form, setForm] = useState(EMPTY_FORM);
+  const held = new Set(holdings.map(h => h.ticker));
+  const recentlySold = getRecentlySold(realizedGains, holdings, items);
+
+  const upsert = (item: WatchlistItem) => onChange([...items.filter(w => w.ticker !== item.ticker), item]);
+
+  const addItem = () => {
+    const ticker = form.ticker.trim().toUpperCase();
+    if (!ticker) return;
+    const entryPrice = parseFloat(form.entryPrice);
+    upsert({
+      ticker,
+      market: form.market,
+      name: form.name.trim() || ticker,
+      isETF: form.isETF,
+      referencePrice: parseFloat(form.referencePrice) || prices[ticker] || 0,
+      ...(entryPrice > 0 ? { entryPrice } : {}),
+      notes: form.notes,
+      addedAt: today
+    });
+    setForm({ ...EMPTY_FORM, market: form.market });
+  };
+
+  const updateItem = (ticker: string, patch: Partial<WatchlistItem>) =>
+    onChange(items.map(w => (w.ticker === ticker ? { ...w, ...patch } : w)));
+
+  return (
+    <div className={`rounded-xl shadow-sm border overflow-hidden transition-colors ${theme.card}`}>
+      <div className={`px-4 py-3 border-b flex flex-wrap gap-2 items-center justify-between ${theme.sectionHeader}`}>
+        <h2 className="font-bold flex items-center"><Eye size={18} className="mr-2" />觀察清單</h2>
+        <button
+          onClick={onRefresh}
+          disabled={refreshing || items.length === 0}
+          className={`flex items-center space-x-1 px-3 py-1.5 border rounded-lg text-sm transition-colors disabled:opacity-50 ${isDark ? 'border-gray-700 hover:bg-gray-800' : 'border-gray-300 hover:bg-gray-50'}`}
+        >
+          <RefreshCw size={16} className={refreshing ? 'animate-spin' : ''} />
+          <span>更新報價</span>
+        </button>
+      </div>
+
+      <div className="p-4 space-y-3">
+        <div className="grid grid-cols-2 md:grid-cols-7 gap-2">
+          <select value={form.market} onChange={(e) => setForm({ ...form, market: e.target.value as MarketType })} className={`p-2 border rounded text-sm ${theme.input}`}>
+            <option value="TW">台股</option>
+            <option value="US">美股</option>
+          </select>
+          <input type="text" placeholder="代號" value={form.ticker} onChange={(e) => setForm({ ...form, ticker: e.target.value })} className={`p-2 border rounded text-sm uppercase ${theme.input}`} />
+          <input type="text" placeholder="名稱" value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} className={`p-2 border rounded text-sm ${theme.input}`} />
+          <input type="number" step="0.01" placeholder="參考價" value={form.referencePrice} onChange={(e) => setForm({ ...form, referencePrice: e.target.value })} className={`p-2 border rounded text-sm ${theme.input}`} />
+          <input type="number" step="0.01" placeholder="進場價" value={form.entryPrice} onChange={(e) => setForm({ ...form, entryPrice: e.target.value })} className={`p-2 border rounded text-sm ${theme.input}`} />
+          <input type="text" placeholder="備註" value={form.notes} onChange={(e) => setForm({ ...form, notes: e.target.value })} className={`p-2 border rounded text-sm ${theme.input}`} />
+          <div className="flex items-center space-x-2">
+            <label className={`flex items-center text-sm space-x-1 ${theme.text}`}>
+              <input type="checkbox" checked={form.isETF} onChange={(e) => setForm({ ...form, isETF: e.target.checked })} className="rounded text-red-600 focus:ring-red-500" />
+              <span>ETF</span>
+            </label>
+            <button onClick={addItem} disabled={!form.ticker.trim()} className="flex-1 flex justify-center py-2 bg-red-600 hover:bg-red-700 text-white rounded disabled:opacity-50"><Plus size={16} /></button>
+          </div>
+        </div>
+        {recentlySold.length > 0 && (
+          <div className={`flex flex-wrap items-center gap-2 text-xs ${theme.subText}`}>
+            <span>最近出清：</span>
+            {recentlySold.map(r => (
+              <button
+                key={r.ticker}
+                onClick={() => upsert({ ticker: r.ticker, market: r.market, name: r.name, isETF: r.isETF, referencePrice: prices[r.ticker] || 0, notes: `${r.lastSell} 出清`, addedAt: today })}
+                className={`px-2 py-0.5 rounded-full border ${isDark ? 'border-gray-700 hover:bg-gray-800' : 'border-gray-300 hover:bg-gray-50'}`}
+                title="加入觀察清單"
+              >
+                + {r.ticker}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className={`overflow-x-auto border-t ${isDark ? 'border-gray-800' : 'border-gray-100'}`}>
+        <table className="w-full text-sm text-left">
+          <thead className={theme.tableHeader}>
+            <tr>
+              <th className={`${paddingClass} font-medium`}>標的</th>
+              <th className={`${paddingClass} font-medium text-right`}>現價</th>
+              <th className={`${paddingClass} font-medium text-right`}>較參考價</th>
+              <th className={`${paddingClass} font-medium text-right`}>進場價</th>
+              <th className={`${paddingClass} font-medium text-right`}>距進場價</th>
+              <th className={`${paddingClass} font-medium`}>備註</th>
+              <th className={`${paddingClass} font-medium text-center`}>操作</th>
+            </tr>
+          </thead>
+          <tbody className={`divide-y ${theme.divider}`}>
+            {items.length === 0 ? (
+              <tr><td colSpan={7} className={`px-6 py-8 text-center ${theme.subText}`}>尚無觀察標的</td></tr>
+            ) : [...items].sort((a, b) => a.ticker.localeCompare(b.ticker)).map(item => {
+              const price = getWatchPrice(item, prices);
+              const sinceAdded = item.referencePrice > 0 && price > 0 ? ((price - item.referencePrice) / item.referencePrice) * 100 : null;
+              const distance = getEntryDistance(price, item.entryPrice);
+              return (
+                <tr key={item.ticker} className={`transition-colors ${theme.tableRowHover}`}>
+                  <td className={paddingClass}>
+                    <div className="font-bold flex items-center space-x-1">
+                      <span>{item.ticker}</span>
+                      <span className={`text-[10px] font-bold px-1 rounded ${item.market === 'TW' ? 'text-green-600 bg-green-50' : 'text-blue-600 bg-blue-50'}`}>{item.market}</span>
+                      {item.isETF && <span className="text-[10px] px-1 rounded text-amber-600 bg-amber-50">ETF</span>}
+                      {held.has(item.ticker) && <span className="text-[10px] px-1 rounded text-red-600 bg-red-50">持有中</span>}
+                    </div>
+                    <div className={`text-xs ${theme.subText}`}>{item.name} · {item.addedAt} 加入</div>
+                  </td>
+                  <td className={`${paddingClass} text-right ${theme.priceInputWrapper}`}>
+                    <input
+                      type="number"
+                      className={`w-20 text-right p-1 border rounded focus:ring-2 focus:ring-red-500 outline-none font-bold shadow-sm ${theme.priceInput}`}
+                      value={prices[item.ticker] || ''}
+                      placeholder={item.referencePrice ? String(item.referencePrice) : '輸入'}
+                      onChange={(e) => onUpdatePrice(item.ticker, e.target.value)}
+                    />
+                  </td>
+                  <td className={`${paddingClass} text-right ${sinceAdded === null ? theme.subText : getPLColor(sinceAdded, isDark)}`} title={`參考價 ${item.referencePrice || '—'}`}>
+                    {sinceAdded === null ? '—' : `${sinceAdded > 0 ? '+' : ''}${sinceAdded.toFixed(2)}%`}
+                  </td>
+                  <td className={`${paddingClass} text-right`}>
+                    <input
+                      type="number"
+                      step="0.01"
+                      className={`w-20 text-right p-1 border rounded ${theme.input}`}
+                      value={item.entryPrice ?? ''}
+                      placeholder="設定"
+                      onChange={(e) => updateItem(item.ticker, { entryPrice: parseFloat(e.target.value) > 0 ? parseFloat(e.target.value) : undefined })}
+                    />
+                  </td>
+                  <td className={`${paddingClass} text-right font-medium ${distance === null ? theme.subText : distance <= 0 ? 'text-amber-500' : ''}`}>
+                    {distance === null ? '—' : distance <= 0 ? `已到價 (${distance.toFixed(2)}%)` : `+${distance.toFixed(2)}%`}
+                    {distance !== null && distance > 0 && <div className={`text-xs ${theme.subText}`}>差 {formatNumber(price - item.entryPrice!, 2)}</div>}
+                  </td>
+                  <td className={paddingClass}>
+                    <input type="text" value={item.notes} onChange={(e) => updateItem(item.ticker, { notes: e.target.value })} className={`w-full min-w-[8rem] p-1 border rounded text-sm ${theme.input}`} />
+                  </td>
+                  <td className={`${paddingClass} text-center whitespace-nowrap`}>
+                    <button onClick={() => onRecordBuy(item)} className={`${theme.buttonSecondary} p-1 transition-colors hover:text-red-500`} title="記錄買進"><ShoppingCart size={16} /></button>
+                    <button onClick={() => onChange(items.filter(w => w.ticker !== item.ticker))} className={`${theme.buttonSecondary} p-1 transition-colors hover:text-red-500`} title="移出清單"><Trash2 size={16} /></button>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,93 @@
+import type { AppSettings, CreditType, Holding, MarketType, ShortPosition, TransactionType } from './types';
+
+// --- 信用交易 (融資 / 融券) ---
+// 維持率一律以「擔保品價值 / 借款或借券市值」表示：
+// 融資 = 融資股票市值 / 融資金額；融券 = (保證金 + 擔保價款) / 融券股票市值；
+// 整戶 = (融資股票市值 + 融券保證金 + 擔保價款) / (融資金額 + 融券股票市值)。
+
+export const CREDIT_LABELS: Record<CreditType | 'cash', string> = {
+  cash: '現股',
+  margin: '融資',
+  short: '融券'
+};
+
+// 交易紀錄顯示用：融資買進、融券回補…
+export const getCreditActionLabel = (type: TransactionType, credit: CreditType) => {
+  if (credit === 'margin') return type === 'buy' ? '融資買進' : '融資賣出';
+  return type === 'sell' ? '融券賣出' : '融券回補';
+};
+
+// 這筆交易是否開啟新的信用部位 (需要借款或保證金)
+export const opensCreditPosition = (type: TransactionType, credit: CreditType | undefined) =>
+  (credit === 'margin' && type === 'buy') || (credit === 'short' && type === 'sell');
+
+export const getCreditRates = (market: MarketType, settings: AppSettings) => market === 'TW'
+  ? { loanRatio: settings.twMarginLoanRatio, shortRatio: settings.twShortMarginRatio, interestRate: settings.twMarginInterestRate, borrowRate: 0, maintenance: settings.twMaintenanceRatio }
+  : { loanRatio: settings.usMarginLoanRatio, shortRatio: settings.usShortMarginRatio, interestRate: settings.usMarginInterestRate, borrowRate: settings.usShortBorrowRate, maintenance: settings.usMaintenanceRatio };
+
+const daysBetween = (from: string, to: string) => Math.max(0, (new Date(to).getTime() - new Date(from).getTime()) / 86400000);
+
+// 按日計息 (年息 / 365)
+export const accrueInterest = (principal: number, annualRate: number, from: string, to: string) =>
+  principal > 0 && annualRate > 0 ? principal * annualRate * daysBetween(from, to) / 365 : 0;
+
+// 依成數估算融資金額或融券保證金：台股融資以千元為單位無條件捨去、保證金以百元為單位無條件進位；
+// 台股借券費依賣出金額一次收取，美股改為按日計息
+export const estimateCreditAmounts = (type: TransactionType, credit: CreditType, market: MarketType, price: number, shares: number, settings: AppSettings) => {
+  const rawAmount = price * shares;
+  const rates = getCreditRates(market, settings);
+  if (credit === 'margin' && type === 'buy') {
+    const loan = rawAmount * rates.loanRatio;
+    return { loanAmount: market === 'TW' ? Math.floor(loan / 1000) * 1000 : Math.round(loan * 100) / 100, borrowFee: 0 };
+  }
+  if (credit === 'short' && type === 'sell') {
+    const collateral = rawAmount * rates.shortRatio;
+    return {
+      loanAmount: market === 'TW' ? Math.ceil(collateral / 100) * 100 : Math.round(collateral * 100) / 100,
+      borrowFee: market === 'TW' ? Math.round(rawAmount * settings.twShortFeeRate) : 0
+    };
+  }
+  return { loanAmount: 0, borrowFee: 0 };
+};
+
+export const getMarginMaintenance = (holding: Pick<Holding, 'loanBalance' | 'marginValue'>) =>
+  holding.loanBalance > 0 ? holding.marginValue / holding.loanBalance : null;
+
+export const getShortMaintenance = (short: Pick<ShortPosition, 'collateral' | 'proceeds' | 'price' | 'shares'>) => {
+  const value = short.price * short.shares;
+  return value > 0 ? (short.collateral + short.proceeds) / value : null;
+};
+
+// 融券部位的淨值：自備保證金加上未實現損益 (擔保價款由券商留存，不屬於投資人)
+export const getShortEquity = (short: Pick<ShortPosition, 'collateral' | 'unrealizedPL'>) => short.collateral + short.unrealizedPL;
+
+// 整戶維持率；同一帳戶內的台股與美股分開計算 (幣別不同)
+export const getAccountMaintenance = (holdings: Holding[], shorts: ShortPosition[]) => {
+  const collateral = holdings.reduce((sum, h) => sum + h.marginValue, 0) + shorts.reduce((sum, s) => sum + s.collateral + s.proceeds, 0);
+  const exposure = holdings.reduce((sum, h) => sum + h.loanBalance, 0) + shorts.reduce((sum, s) => sum + s.price * s.shares, 0);
+  return exposure > 0 ? collateral / exposure : null;
+};
+
+export interface CreditSummary {
+  market: MarketType;
+  loanBalance: number; // 融資金額
+  shortValue: number; // 融券股票市值
+  accruedCost: number; // 未平倉的應計融資利息與借券費
+  ratio: number | null;
+}
+
+// 帳戶內各市場的信用部位摘要；沒有信用部位的市場略過
+export const summarizeCredit = (holdings: Holding[], shorts: ShortPosition[]): CreditSummary[] =>
+  (['TW', 'US'] as const)
+    .filter(market => holdings.some(x => x.market === market && x.loanBalance > 0) || shorts.some(x => x.market === market))
+    .map((market): CreditSummary => {
+      const h = holdings.filter(x => x.market === market && x.loanBalance > 0);
+      const s = shorts.filter(x => x.market === market);
+      return {
+        market,
+        loanBalance: h.reduce((sum, x) => sum + x.loanBalance, 0),
+        shortValue: s.reduce((sum, x) => sum + x.price * x.shares, 0),
+        accruedCost: h.reduce((sum, x) => sum + x.accruedInterest, 0) + s.reduce((sum, x) => sum + x.borrowCost, 0),
+        ratio: getAccountMaintenance(h, s)
+      };
+    });
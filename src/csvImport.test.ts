@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { buildImportPreview, detectDateFormat, detectNumberFormat, parseDate, parseDelimited, parseNumber } from './csvImport';
+import type { ImportOptions } from './csvImport';
+import { DEFAULT_SETTINGS } from './settings';
+
+describe('parseDelimited', () => {
+  it('雙引號內的分隔符號、換行與跳脫引號保留在欄位中', () => {
+    const table = parseDelimited('\uFEFF日期,代號,名稱,備註\r\n2024-01-02,2330,"台積電, 普通股","第一行\n第二行 ""重點"""\r\n\r\n');
+    expect(table.delimiter).toBe(',');
+    expect(table.headers).toEqual(['日期', '代號', '名稱', '備註']);
+    expect(table.rows).toEqual([['2024-01-02', '2330', '台積電, 普通股', '第一行\n第二行 "重點"']]);
+  });
+
+  it('依第一行判斷 Tab 與分號分隔', () => {
+    expect(parseDelimited('日期\t代號\n2024-01-02\t2330').rows).toEqual([['2024-01-02', '2330']]);
+    expect(parseDelimited('date;price\n2024-01-02;"1,5"').rows).toEqual([['2024-01-02', '1,5']]);
+  });
+});
+
+describe('parseDate', () => {
+  it('依指定格式解析年月日順序', () => {
+    expect(parseDate('2024/1/5', 'YMD')).toBe('2024-01-05');
+    expect(parseDate('01/05/2024', 'MDY')).toBe('2024-01-05');
+    expect(parseDate('05.01.2024', 'DMY')).toBe('2024-01-05');
+    expect(parseDate('113年1月5日', 'ROC')).toBe('2024-01-05');
+    expect(parseDate('20240105', 'DMY')).toBe('2024-01-05');
+  });
+
+  it('不存在的日期無法解析', () => {
+    expect(parseDate('2023-02-29', 'YMD')).toBeNull();
+    expect(parseDate('13/01/2024', 'MDY')).toBeNull();
+    expect(parseDate('2024-01', 'YMD')).toBeNull();
+  });
+
+  it('民國年與西元年互不誤判，日月順序依可解析的樣本判斷', () => {
+    expect(detectDateFormat(['113/01/05', '113/12/31'])).toBe('ROC');
+    expect(detectDateFormat(['2024/01/05', '20241231'])).toBe('YMD');
+    expect(detectDateFormat(['12/31/2024', '01/05/2024'])).toBe('MDY');
+    expect(detectDateFormat(['31/12/2024', '05/01/2024'])).toBe('DMY');
+  });
+});
+
+describe('parseNumber', () => {
+  it('一般格式去除千分位與貨幣符號', () => {
+    expect(parseNumber('$1,234.5', 'dot')).toBe(1234.5);
+    expect(parseNumber('-2,000', 'dot')).toBe(-2000);
+    expect(parseNumber('', 'dot')).toBeNaN();
+  });
+
+  it('歐式格式以逗號為小數點', () => {
+    expect(parseNumber('1.234,56', 'comma')).toBe(1234.56);
+    expect(parseNumber('12,5', 'comma')).toBe(12.5);
+    expect(detectNumberFormat(['1.234,56'])).toBe('comma');
+    expect(detectNumberFormat(['12,5'])).toBe('comma');
+    expect(detectNumberFormat(['1,234', '56.7'])).toBe('dot');
+  });
+});
+
+describe('buildImportPreview', () => {
+  const options: ImportOptions = {
+    mapping: { date: '日期', ticker: '代號', type: '買賣', price: '價格', shares: '股數', fee: '手續費' },
+    dateFormat: 'ROC',
+    numberFormat: 'comma',
+    defaultMarket: 'TW'
+  };
+
+  it('依日期與數字格式轉換，檔案有手續費時以檔案為準', () => {
+    const table = parseDelimited('日期;代號;買賣;價格;股數;手續費\n113/01/05;2330;買進;"1.050,5";1.000;20\n113/01/06;0050;賣出;150;500;');
+    const [buy, sell] = buildImportPreview(table, options, [], DEFAULT_SETTINGS);
+
+    expect(buy.errors).toEqual([]);
+    expect(buy.transaction).toMatchObject({ date: '2024-01-05', type: 'buy', price: 1050.5, shares: 1000, fee: 20, manualFee: true, totalAmount: 1050520 });
+    expect(sell.transaction).toMatchObject({ date: '2024-01-06', ticker: '0050', isETF: true, market: 'TW' });
+    expect(sell.transaction?.manualFee).toBeUndefined();
+  });
+
+  it('無法解析的列列出原因，不產生交易', () => {
+    const table = parseDelimited('日期;代號;買賣;價格;股數\n2024-13-01;2330;轉帳;0;100');
+    const [row] = buildImportPreview(table, options, [], DEFAULT_SETTINGS);
+    expect(row.transaction).toBeNull();
+    expect(row.errors).toEqual(['日期無法解析', '無法判斷買賣別', '成交價無效']);
+  });
+});
@@ -0,0 +1,306 @@
+import { calculateTransactionAmount, getAccountId, getSettlementAmount, isSameDayTrade } from './ledger';
+import type { AppSettings, MarketType, Transaction, TradeType } from './types';
+
+// --- 券商對帳單 CSV/TSV 匯入 ---
+
+export type ImportField = 'date' | 'ticker' | 'name' | 'type' | 'market' | 'price' | 'shares' | 'fee' | 'tax' | 'isETF';
+export type DateFormat = 'YMD' | 'MDY' | 'DMY' | 'ROC';
+export type NumberFormat = 'dot' | 'comma';
+
+export const IMPORT_FIELD_LABELS: Record<ImportField, string> = {
+  date: '日期',
+  ticker: '代號',
+  name: '名稱',
+  type: '買賣別',
+  market: '市場',
+  price: '成交價',
+  shares: '股數',
+  fee: '手續費',
+  tax: '交易稅',
+  isETF: 'ETF'
+};
+
+export const REQUIRED_IMPORT_FIELDS: ImportField[] = ['date', 'ticker', 'type', 'price', 'shares'];
+
+export const DATE_FORMAT_LABELS: Record<DateFormat, string> = {
+  YMD: '年/月/日 (2024-01-31)',
+  MDY: '月/日/年 (01/31/2024)',
+  DMY: '日/月/年 (31/01/2024)',
+  ROC: '民國年 (113/01/31)'
+};
+
+export const NUMBER_FORMAT_LABELS: Record<NumberFormat, string> = {
+  dot: '1,234.56',
+  comma: '1.234,56'
+};
+
+// 欄位對應以表頭名稱記錄，同一家券商的檔案欄位順序變動也能套用
+export type ColumnMapping = Partial<Record<ImportField, string>>;
+
+export interface ImportPreset {
+  name: string;
+  mapping: ColumnMapping;
+  dateFormat: DateFormat;
+  numberFormat: NumberFormat;
+  defaultMarket: MarketType;
+}
+
+export interface ParsedTable {
+  headers: string[];
+  rows: string[][];
+  delimiter: string;
+}
+
+export interface ImportOptions {
+  mapping: ColumnMapping;
+  dateFormat: DateFormat;
+  numberFormat: NumberFormat;
+  defaultMarket: MarketType;
+  // 匯入到哪個帳戶；費用估算應傳入該帳戶的費率
+  accountId?: string;
+}
+
+export interface ImportPreviewRow {
+  line: number;
+  raw: string[];
+  transaction: Transaction | null;
+  errors: string[];
+  duplicateOf: string | null;
+}
+
+const detectDelimiter = (line: string) => {
+  const candidates = ['\t', ',', ';'];
+  return candidates.reduce((best, d) => (line.split(d).length > line.split(best).length ? d : best), ',');
+};
+
+// 支援雙引號包住含分隔符號或換行的欄位
+export const parseDelimited = (text: string): ParsedTable => {
+  const cleaned = text.replace(/^\uFEFF/, '');
+  const firstLine = cleaned.split(/\r?\n/).find(l => l.trim()) || '';
+  const delimiter = detectDelimiter(firstLine);
+  const records: string[][] = [];
+  let field = '';
+  let record: string[] = [];
+  let inQuotes = false;
+
+  for (let i = 0; i < cleaned.length; i++) {
+    const c = cleaned[i];
+    if (inQuotes) {
+      if (c === '"' && cleaned[i + 1] === '"') { field += '"'; i++; }
+      else if (c === '"') inQuotes = false;
+      else field += c;
+    } else if (c === '"') {
+      inQuotes = true;
+    } else if (c === delimiter) {
+      record.push(field.trim()); field = '';
+    } else if (c === '\n' || c === '\r') {
+      if (c === '\r' && cleaned[i + 1] === '\n') i++;
+      record.push(field.trim()); field = '';
+      if (record.some(v => v !== '')) records.push(record);
+      record = [];
+    } else {
+      field += c;
+    }
+  }
+  record.push(field.trim());
+  if (record.some(v => v !== '')) records.push(record);
+
+  const [headers = [], ...rows] = records;
+  return { headers, rows, delimiter };
+};
+
+const FIELD_HINTS: Record<ImportField, RegExp> = {
+  date: /日期|date|成交日|交易日/i,
+  ticker: /代號|代碼|ticker|symbol|股票代/i,
+  name: /名稱|name|股票名/i,
+  type: /買賣|類別|type|side|action|交易別/i,
+  market: /市場|market|exchange/i,
+  price: /成交價|單價|價格|price/i,
+  shares: /股數|數量|shares|qty|quantity/i,
+  fee: /手續費|fee|commission/i,
+  tax: /交易稅|證交稅|tax/i,
+  isETF: /etf/i
+};
+
+// 依表頭名稱猜測欄位對應
+export const guessMapping = (headers: string[]): ColumnMapping => {
+  const mapping: ColumnMapping = {};
+  const used = new Set<string>();
+  (Object.keys(FIELD_HINTS) as ImportField[]).forEach(field => {
+    const header = headers.find(h => !used.has(h) && FIELD_HINTS[field].test(h));
+    if (header) {
+      mapping[field] = header;
+      used.add(header);
+    }
+  });
+  return mapping;
+};
+
+const toIsoDate = (y: number, m: number, d: number) => {
+  if (!(y > 0 && m >= 1 && m <= 12 && d >= 1 && d <= 31)) return null;
+  const date = new Date(Date.UTC(y, m - 1, d));
+  if (date.getUTCMonth() !== m - 1) return null;
+  return date.toISOString().split('T')[0];
+};
+
+export const parseDate = (value: string, format: DateFormat): string | null => {
+  const parts = value.trim().split(/[-/.\s年月日]+/).filter(Boolean).map(p => parseInt(p, 10));
+  if (parts.length === 1 && /^\d{8}$/.test(value.trim())) {
+    const v = value.trim();
+    return toIsoDate(+v.slice(0, 4), +v.slice(4, 6), +v.slice(6, 8));
+  }
+  if (parts.length < 3 || parts.some(isNaN)) return null;
+  const [a, b, c] = parts;
+  switch (format) {
+    case 'YMD': return toIsoDate(a, b, c);
+    case 'MDY': return toIsoDate(c, a, b);
+    case 'DMY': return toIsoDate(c, b, a);
+    case 'ROC': return toIsoDate(a + 1911, b, c);
+  }
+};
+
+// 取能解析最多樣本的格式 (個別錯誤列不影響判斷)
+export const detectDateFormat = (samples: string[]): DateFormat => {
+  const values = samples.filter(Boolean);
+  const order: DateFormat[] = ['YMD', 'ROC', 'MDY', 'DMY'];
+  const score = (format: DateFormat) => values.filter(v => {
+    if (!parseDate(v, format)) return false;
+    // 民國年需為 2~3 位數，避免與西元年互相誤判
+    const first = v.trim().split(/[-/.\s年]/)[0];
+    return format === 'ROC' ? first.length <= 3 : format === 'YMD' ? first.length === 4 || first.length === 8 : true;
+  }).length;
+  return order.reduce((best, format) => (score(format) > score(best) ? format : best), order[0]);
+};
+
+export const parseNumber = (value: string, format: NumberFormat): number => {
+  let v = value.replace(/[^\d.,-]/g, '');
+  v = format === 'comma' ? v.replace(/\./g, '').replace(',', '.') : v.replace(/,/g, '');
+  return v === '' ? NaN : parseFloat(v);
+};
+
+// 「1.234,56」或只有逗號小數 (12,5) 的樣本視為歐式格式
+export const detectNumberFormat = (samples: string[]): NumberFormat => {
+  const euro = samples.some(v => /\d\.\d{3},\d+$/.test(v) || /^-?\d+,\d{1,2}$/.test(v.trim()));
+  return euro ? 'comma' : 'dot';
+};
+
+export const parseTradeType = (value: string): TradeType | null => {
+  const v = value.trim().toLowerCase();
+  if (/^(b|buy|bought|買|買進|買入|現買|普買)$/.test(v) || v.includes('買')) return 'buy';
+  if (/^(s|sell|sold|賣|賣出|現賣|普賣)$/.test(v) || v.includes('賣')) return 'sell';
+  return null;
+};
+
+const parseMarket = (value: string | undefined, ticker: string, fallback: MarketType): MarketType => {
+  const v = (value || '').trim().toUpperCase();
+  if (['TW', 'TWSE', 'TPEX', 'TWD', '台股', '上市', '上櫃'].includes(v)) return 'TW';
+  if (['US', 'NYSE', 'NASDAQ', 'AMEX', 'USD', '美股'].includes(v)) return 'US';
+  if (/^\d{4,6}[A-Z]?$/.test(ticker)) return 'TW';
+  if (/^[A-Z][A-Z.-]*$/.test(ticker)) return 'US';
+  return fallback;
+};
+
+const parseBoolean = (value: string | undefined) => /^(y|yes|true|1|是|v)$/i.test((value || '').trim());
+
+const isSameTrade = (a: Transaction, b: Transaction) =>
+  getAccountId(a) === getAccountId(b) &&
+  a.date === b.date &&
+  a.ticker === b.ticker &&
+  a.type === b.type &&
+  Math.abs(a.shares - b.shares) < 0.000001 &&
+  Math.abs(a.price - b.price) < 0.0001;
+
+export const buildImportPreview = (
+  table: ParsedTable,
+  options: ImportOptions,
+  existing: Transaction[],
+  settings: AppSettings
+): ImportPreviewRow[] => {
+  const index = (field: ImportField) => {
+    const header = options.mapping[field];
+    return header ? table.headers.indexOf(header) : -1;
+  };
+  const cell = (row: string[], field: ImportField) => {
+    const i = index(field);
+    return i >= 0 ? row[i] : undefined;
+  };
+  const seed = Date.now();
+  const accepted: Transaction[] = [];
+
+  const rows = table.rows.map((row, i): ImportPreviewRow => {
+    const errors: string[] = [];
+    REQUIRED_IMPORT_FIELDS.forEach(field => {
+      if (index(field) < 0) errors.push(`未對應「${IMPORT_FIELD_LABELS[field]}」欄位`);
+    });
+    if (errors.length > 0) return { line: i + 2, raw: row, transaction: null, errors, duplicateOf: null };
+
+    const date = parseDate(cell(row, 'date') || '', options.dateFormat);
+    const ticker = (cell(row, 'ticker') || '').trim().toUpperCase();
+    const type = parseTradeType(cell(row, 'type') || '');
+    const price = parseNumber(cell(row, 'price') || '', options.numberFormat);
+    const shares = Math.abs(parseNumber(cell(row, 'shares') || '', options.numberFormat));
+    const feeCell = cell(row, 'fee');
+    const taxCell = cell(row, 'tax');
+
+    if (!date) errors.push('日期無法解析');
+    if (!ticker) errors.push('缺少代號');
+    if (!type) errors.push('無法判斷買賣別');
+    if (!(price > 0)) errors.push('成交價無效');
+    if (!(shares > 0)) errors.push('股數無效');
+    if (!date || !ticker || !type || errors.length > 0) {
+      return { line: i + 2, raw: row, transaction: null, errors, duplicateOf: null };
+    }
+
+    const market = parseMarket(cell(row, 'market'), ticker, options.defaultMarket);
+    const isETF = index('isETF') >= 0 ? parseBoolean(cell(row, 'isETF')) : (market === 'TW' && /^00\d{2,4}[A-Z]?$/.test(ticker));
+    // 台股債券 ETF 代號以 B 結尾 (例如 00679B)
+    const isBondETF = isETF && market === 'TW' && /B$/.test(ticker);
+    const estimated = calculateTransactionAmount(type, market, price, shares, isETF, settings, { isBondETF });
+
+    // 檔案有提供實際費用時以檔案為準，否則依設定估算
+    const actualFee = feeCell ? Math.abs(parseNumber(feeCell, options.numberFormat)) : NaN;
+    const actualTax = taxCell ? Math.abs(parseNumber(taxCell, options.numberFormat)) : NaN;
+    const fee = isNaN(actualFee) ? estimated.fee : actualFee;
+    const tax = isNaN(actualTax) ? estimated.tax : actualTax;
+
+    const transaction: Transaction = {
+      id: `${seed}-${i}`,
+      date,
+      ticker,
+      name: (cell(row, 'name') || '').trim() || ticker,
+      type,
+      market,
+      price,
+      shares,
+      isETF,
+      fee,
+      tax,
+      totalAmount: getSettlementAmount(type, price, shares, fee, tax),
+      ...(isBondETF ? { isBondETF } : {}),
+      ...(isNaN(actualFee) && isNaN(actualTax) ? {} : { manualFee: true }),
+      ...(options.accountId ? { accountId: options.accountId } : {})
+    };
+
+    const existingDup = existing.find(t => isSameTrade(t, transaction));
+    const fileDup = accepted.find(t => isSameTrade(t, transaction));
+    accepted.push(transaction);
+
+    return {
+      line: i + 2,
+      raw: row,
+      transaction,
+      errors,
+      duplicateOf: existingDup ? `既有紀錄 ${existingDup.date} ${existingDup.ticker}` : fileDup ? '檔案內重複列' : null
+    };
+  });
+
+  // 當沖要等整份檔案讀完才能判斷 (同日買進可能排在賣出之後)；檔案已提供費用時沿用檔案金額
+  const pool = [...existing, ...accepted];
+  return rows.map(row => {
+    const t = row.transaction;
+    if (!t || t.type !== 'sell' || !isSameDayTrade(pool, t)) return row;
+    if (t.manualFee) return { ...row, transaction: { ...t, isDayTrade: true } };
+    const { fee, tax, total } = calculateTransactionAmount(t.type, t.market, t.price, t.shares, t.isETF, settings, { isBondETF: t.isBondETF, isDayTrade: true });
+    return { ...row, transaction: { ...t, fee, tax, totalAmount: total, isDayTrade: true } };
+  });
+};
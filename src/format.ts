@@ -0,0 +1,12 @@
+import type { CurrencyType } from './types';
+
+export const formatCurrency = (val: number, currency: CurrencyType) => {
+  return new Intl.NumberFormat('zh-TW', {
+    style: 'currency',
+    currency: currency,
+    maximumFractionDigits: currency === 'TWD' ? 0 : 2,
+    minimumFractionDigits: currency === 'TWD' ? 0 : 2
+  }).format(val);
+};
+
+export const formatNumber = (val: number, decimals: number = 0) => new Intl.NumberFormat('zh-TW', { minimumFractionDigits: decimals, maximumFractionDigits: decimals }).format(val);
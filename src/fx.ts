@@ -0,0 +1,135 @@
+import type { CurrencyType, FxRate, Holding, MarketType, RealizedItem } from './types';
+
+// --- 匯率與合併換算 ---
+
+export const sortFxRates = (rates: FxRate[]) => [...rates].sort((a, b) => a.date.localeCompare(b.date));
+
+// 取得指定日期當天或之前最近一筆匯率；日期早於所有紀錄時用最早一筆
+export const getUsdTwdRate = (rates: FxRate[], date?: string): number | null => {
+  if (rates.length === 0) return null;
+  const sorted = sortFxRates(rates);
+  if (!date) return sorted[sorted.length - 1].rate;
+  let found = sorted[0].rate;
+  for (const r of sorted) {
+    if (r.date > date) break;
+    found = r.rate;
+  }
+  return found;
+};
+
+// 1 單位 from 幣別可換得多少 to 幣別
+export const getConversionFactor = (from: CurrencyType, to: CurrencyType, usdTwd: number) => {
+  if (from === to) return 1;
+  return from === 'USD' ? usdTwd : 1 / usdTwd;
+};
+
+export interface ConsolidatedHolding {
+  ticker: string;
+  name: string;
+  market: MarketType;
+  currency: CurrencyType;
+  marketValue: number;
+  totalCost: number;
+  unrealizedPL: number;
+  fxGain: number;
+  priceGain: number;
+  roi: number;
+}
+
+export interface ConsolidatedRealized {
+  ticker: string;
+  name: string;
+  market: MarketType;
+  currency: CurrencyType;
+  totalRevenue: number;
+  totalCost: number;
+  realizedPL: number;
+  fxGain: number;
+  priceGain: number;
+  roi: number;
+}
+
+export interface ConsolidatedSummary {
+  baseCurrency: CurrencyType;
+  marketValue: number;
+  totalCost: number;
+  unrealizedPL: number;
+  realizedPL: number;
+  roi: number;
+  missingRate: boolean;
+}
+
+// 成本以買進日匯率換算、市值以最新匯率換算；差額拆成價差與匯差：
+// 價差 = (本幣賣價 - 本幣成本) × 賣出日匯率，匯差 = 本幣成本 × (賣出日匯率 - 買進日匯率)
+export const consolidate = (
+  holdings: Holding[],
+  realizedGains: RealizedItem[],
+  rates: FxRate[],
+  baseCurrency: CurrencyType
+) => {
+  const latest = getUsdTwdRate(rates);
+  const missingRate = latest === null && [...holdings, ...realizedGains].some(i => i.currency !== baseCurrency);
+  const factorOn = (currency: CurrencyType, date?: string) =>
+    getConversionFactor(currency, baseCurrency, getUsdTwdRate(rates, date) ?? 1);
+
+  const consolidatedHoldings: ConsolidatedHolding[] = holdings.map(h => {
+    const nowFactor = factorOn(h.currency);
+    const marketValue = h.marketValue * nowFactor;
+    const totalCost = h.lots.reduce((sum, lot) => sum + lot.totalCost * factorOn(h.currency, lot.date), 0);
+    const priceGain = (h.marketValue - h.totalCost) * nowFactor;
+    const unrealizedPL = marketValue - totalCost;
+    return {
+      ticker: h.ticker,
+      name: h.name,
+      market: h.market,
+      currency: h.currency,
+      marketValue,
+      totalCost,
+      unrealizedPL,
+      fxGain: unrealizedPL - priceGain,
+      priceGain,
+      roi: totalCost > 0 ? (unrealizedPL / totalCost) * 100 : 0
+    };
+  });
+
+  const consolidatedRealized: ConsolidatedRealized[] = realizedGains.map(r => {
+    let totalRevenue = 0;
+    let totalCost = 0;
+    let priceGain = 0;
+    r.closedLots.forEach(lot => {
+      const sellFactor = factorOn(r.currency, lot.sellDate);
+      const buyFactor = factorOn(r.currency, lot.buyDate);
+      totalRevenue += lot.proceeds * sellFactor;
+      totalCost += lot.cost * buyFactor;
+      priceGain += (lot.proceeds - lot.cost) * sellFactor;
+    });
+    const realizedPL = totalRevenue - totalCost;
+    return {
+      ticker: r.ticker,
+      name: r.name,
+      market: r.market,
+      currency: r.currency,
+      totalRevenue,
+      totalCost,
+      realizedPL,
+      fxGain: realizedPL - priceGain,
+      priceGain,
+      roi: totalCost > 0 ? (realizedPL / totalCost) * 100 : 0
+    };
+  });
+
+  const marketValue = consolidatedHoldings.reduce((sum, h) => sum + h.marketValue, 0);
+  const totalCost = consolidatedHoldings.reduce((sum, h) => sum + h.totalCost, 0);
+  const unrealizedPL = marketValue - totalCost;
+  const summary: ConsolidatedSummary = {
+    baseCurrency,
+    marketValue,
+    totalCost,
+    unrealizedPL,
+    realizedPL: consolidatedRealized.reduce((sum, r) => sum + r.realizedPL, 0),
+    roi: totalCost > 0 ? (unrealizedPL / totalCost) * 100 : 0,
+    missingRate
+  };
+
+  return { holdings: consolidatedHoldings, realized: consolidatedRealized, summary };
+};
@@ -0,0 +1,7 @@
+// --- 識別碼 ---
+// 新增資料用的唯一 id；randomUUID 只在安全環境 (https / localhost) 提供，其他情況以時間加亂數代替。
+
+export const createId = () =>
+  typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function'
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { checkLedgerIntegrity, getIntroducedIssues } from './integrity';
+import type { Transaction, TransactionType } from './types';
+
+const tx = (id: string, type: TransactionType, date: string, shares: number): Transaction =>
+  ({ id, date, ticker: '2330', name: '台積電', type, market: 'TW', price: 100, shares, isETF: false, fee: 0, tax: 0, totalAmount: 100 * shares });
+
+describe('checkLedgerIntegrity', () => {
+  it('標出無持股賣出與賣超', () => {
+    const issues = checkLedgerIntegrity([tx('s0', 'sell', '2024-01-01', 100), tx('b1', 'buy', '2024-01-02', 100), tx('s1', 'sell', '2024-01-03', 300)]);
+    expect(issues.map(i => i.key)).toEqual(['orphanSell|s0', 'oversell|s1']);
+  });
+
+  it('較晚輸入、日期早於既有賣出的交易標為補登', () => {
+    const issues = checkLedgerIntegrity([tx('b1', 'buy', '2024-01-02', 100), tx('s1', 'sell', '2024-03-01', 100), tx('b2', 'buy', '2024-02-01', 100)]);
+    expect(issues).toHaveLength(1);
+    expect(issues[0].key).toBe('backdated|b2');
+    expect(issues[0].transactionIds).toEqual(['b2', 's1']);
+  });
+});
+
+describe('getIntroducedIssues', () => {
+  const ledger = [tx('b1', 'buy', '2024-01-02', 1000), tx('b2', 'buy', '2024-02-01', 1000), tx('s1', 'sell', '2024-03-01', 500)];
+
+  it('修改既有買進的股數時提示受影響的較晚賣出', () => {
+    const issues = getIntroducedIssues(ledger, { ...ledger[1], shares: 800 });
+    expect(issues.map(i => [i.key, i.transactionIds])).toEqual([['backdated|b2', ['b2', 's1']]]);
+  });
+
+  it('修改既有買進的日期時提示受影響的較晚賣出', () => {
+    expect(getIntroducedIssues(ledger, { ...ledger[0], date: '2024-01-05' })[0].transactionIds).toEqual(['b1', 's1']);
+  });
+
+  it('只修改筆記等不影響股數的欄位時不提示', () => {
+    expect(getIntroducedIssues(ledger, { ...ledger[1], note: '加碼' })).toEqual([]);
+  });
+
+  it('修改造成賣超時仍以錯誤擋下', () => {
+    const issues = getIntroducedIssues(ledger, { ...ledger[2], shares: 3000 });
+    expect(issues.some(i => i.kind === 'oversell' && i.severity === 'error')).toBe(true);
+  });
+});
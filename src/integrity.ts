@@ -0,0 +1,154 @@
+import { getAccountId, sortTransactionsByDate } from './ledger';
+import { getCreditActionLabel } from './credit';
+import type { Transaction } from './types';
+
+// --- 帳務檢查 ---
+// 依 buildLedger 相同的順序重播股數，找出帳務引擎會默默忽略或截斷的交易：
+// 沒有持股的賣出 / 轉出、超過持股的賣出 / 轉出，以及補登在既有賣出之前、會改變已實現損益的交易。
+// 現股、融資與融券各自是獨立部位：融資賣出只能沖銷融資買進，融券回補只能沖銷融券賣出。
+
+export type IntegrityIssueKind = 'orphanSell' | 'oversell' | 'backdated';
+
+export const INTEGRITY_KIND_LABELS: Record<IntegrityIssueKind, string> = {
+  orphanSell: '無持股賣出',
+  oversell: '賣超',
+  backdated: '補登影響已實現'
+};
+
+export interface IntegrityIssue {
+  key: string; // kind|交易 id
+  kind: IntegrityIssueKind;
+  severity: 'error' | 'warning';
+  ticker: string;
+  accountId: string;
+  // 第一筆為問題交易，其後為相關交易 (例如受影響的賣出)
+  transactionIds: string[];
+  message: string;
+}
+
+const EPSILON = 0.000001;
+
+// 會改變持股股數或成本的交易類別
+const SHARE_TYPES = new Set<Transaction['type']>(['buy', 'sell', 'transfer', 'stockDividend', 'split', 'capitalReduction']);
+
+const fmt = (shares: number) => String(Math.round(shares * 10000) / 10000);
+
+const positionKey = (accountId: string, ticker: string, credit?: Transaction['credit']) => `${accountId}|${ticker}${credit ? `|${credit}` : ''}`;
+
+// 減少部位的交易：一般 / 融資賣出、轉出，以及融券回補
+const closesPosition = (t: Transaction) => t.type === 'transfer' || (t.credit === 'short' ? t.type === 'buy' : t.type === 'sell');
+
+// 會實現損益的交易 (轉出不實現損益)
+const realizesPL = (t: Transaction) => closesPosition(t) && t.type !== 'transfer';
+
+// 交易影響的部位；轉帳同時影響轉入帳戶
+const affectedPositions = (t: Transaction) => {
+  const keys = [positionKey(getAccountId(t), t.ticker, t.type === 'buy' || t.type === 'sell' ? t.credit : undefined)];
+  if (t.type === 'transfer' && t.toAccountId) keys.push(positionKey(t.toAccountId, t.ticker));
+  return keys;
+};
+
+const actionLabel = (t: Transaction) => (t.credit && t.type !== 'transfer' ? getCreditActionLabel(t.type, t.credit) : t.type === 'transfer' ? '轉出' : '賣出');
+
+export const checkLedgerIntegrity = (transactions: Transaction[]): IntegrityIssue[] => {
+  const issues: IntegrityIssue[] = [];
+  const held: Record<string, number> = {};
+
+  sortTransactionsByDate(transactions).forEach(t => {
+    const accountId = getAccountId(t);
+    const key = positionKey(accountId, t.ticker, t.type === 'buy' || t.type === 'sell' ? t.credit : undefined);
+    const shares = held[key] || 0;
+    const verb = actionLabel(t);
+
+    if ((t.type === 'buy' && t.credit !== 'short') || (t.type === 'sell' && t.credit === 'short')) {
+      held[key] = shares + t.shares;
+    } else if (closesPosition(t)) {
+      if (shares <= EPSILON) {
+        issues.push({ key: `orphanSell|${t.id}`, kind: 'orphanSell', severity: 'error', ticker: t.ticker, accountId, transactionIds: [t.id], message: `${t.date} ${verb} ${fmt(t.shares)} 股，當時沒有持股，這筆不會計入損益` });
+        return;
+      }
+      if (t.shares > shares + EPSILON) {
+        issues.push({ key: `oversell|${t.id}`, kind: 'oversell', severity: 'error', ticker: t.ticker, accountId, transactionIds: [t.id], message: `${t.date} ${verb} ${fmt(t.shares)} 股，超過當時持股 ${fmt(shares)} 股` });
+      }
+      const moved = Math.min(t.shares, shares);
+      held[key] = shares - moved <= EPSILON ? 0 : shares - moved;
+      if (t.type === 'transfer' && t.toAccountId && t.toAccountId !== accountId) {
+        const target = positionKey(t.toAccountId, t.ticker);
+        held[target] = (held[target] || 0) + moved;
+      }
+    } else if (t.type === 'stockDividend') {
+      held[key] = shares + t.shares;
+    } else if ((t.type === 'split' || t.type === 'capitalReduction') && t.ratio && t.ratio > 0) {
+      [key, positionKey(accountId, t.ticker, 'margin'), positionKey(accountId, t.ticker, 'short')].forEach(k => {
+        if (held[k] > 0) held[k] *= t.ratio!;
+      });
+    }
+  });
+
+  // 依輸入順序檢查：較晚輸入、日期卻早於既有賣出的交易，會回頭改變那些賣出的沖銷成本
+  const sellsSoFar: Record<string, Transaction[]> = {};
+  const latestSell: Record<string, string> = {};
+  transactions.forEach(t => {
+    if (!SHARE_TYPES.has(t.type)) return;
+    const keys = affectedPositions(t);
+    // 先以最晚的賣出日篩掉大多數正常依序輸入的交易，避免每筆都掃過所有賣出
+    const affected = keys
+      .filter(k => latestSell[k] > t.date)
+      .flatMap(k => sellsSoFar[k].filter(s => s.date > t.date));
+    if (affected.length > 0) {
+      issues.push({
+        key: `backdated|${t.id}`,
+        kind: 'backdated',
+        severity: 'warning',
+        ticker: t.ticker,
+        accountId: getAccountId(t),
+        transactionIds: [t.id, ...affected.map(s => s.id)],
+        message: `${t.date} 的交易在 ${affected.length} 筆較晚日期的賣出之後才輸入，已重新計算那些賣出的已實現損益`
+      });
+    }
+    if (realizesPL(t)) {
+      const k = keys[0];
+      sellsSoFar[k] = sellsSoFar[k] || [];
+      sellsSoFar[k].push(t);
+      if (!latestSell[k] || t.date > latestSell[k]) latestSell[k] = t.date;
+    }
+  });
+
+  return issues;
+};
+
+// 新增或修改一筆交易後才出現的問題 (既有問題不重複提示)
+export const getIntroducedIssues = (transactions: Transaction[], draft: Transaction, existing = checkLedgerIntegrity(transactions)) => {
+  const original = transactions.find(t => t.id === draft.id);
+  const next = original ? transactions.map(t => (t.id === draft.id ? draft : t)) : [...transactions, draft];
+  const before = new Set(existing.map(i => i.key));
+  const issues = checkLedgerIntegrity(next).filter(i => !before.has(i.key));
+
+  // 修改既有交易會保留原本的輸入順序，上面的檢查看不出來；
+  // 日期或股數有變時，新舊日期較早者之後的同部位賣出都會重新沖銷
+  const key = `backdated|${draft.id}`;
+  if (original && SHARE_TYPES.has(draft.type) && (original.date !== draft.date || Math.abs(original.shares - draft.shares) > EPSILON) && !issues.some(i => i.key === key)) {
+    const since = original.date < draft.date ? original.date : draft.date;
+    const keys = new Set([...affectedPositions(original), ...affectedPositions(draft)]);
+    const affected = next.filter(t => t.id !== draft.id && realizesPL(t) && t.date > since && keys.has(affectedPositions(t)[0]));
+    if (affected.length > 0) {
+      issues.push({
+        key,
+        kind: 'backdated',
+        severity: 'warning',
+        ticker: draft.ticker,
+        accountId: getAccountId(draft),
+        transactionIds: [draft.id, ...affected.map(s => s.id)],
+        message: `修改 ${since} 的交易日期或股數，會重新計算 ${affected.length} 筆較晚日期賣出的已實現損益`
+      });
+    }
+  }
+  return issues;
+};
+
+// 交易 id → 相關問題，供交易列標示
+export const groupIssuesByTransaction = (issues: IntegrityIssue[]) => {
+  const map = new Map<string, IntegrityIssue[]>();
+  issues.forEach(issue => issue.transactionIds.forEach(id => map.set(id, [...(map.get(id) || []), issue])));
+  return map;
+};
@@ -0,0 +1,192 @@
+import { describe, expect, it } from 'vitest';
+import { buildLedger, calculateTransactionAmount, isSameDayTrade } from './ledger';
+import { DEFAULT_SETTINGS } from './settings';
+import type { AppSettings, CostBasisMethod, Transaction, TransactionType } from './types';
+
+// 依帳務引擎的費率規則產生交易；只需指定與測試相關的欄位
+let nextId = 0;
+const trade = (
+  type: TransactionType,
+  date: string,
+  price: number,
+  shares: number,
+  extra: Partial<Transaction> = {},
+  settings: AppSettings = DEFAULT_SETTINGS
+): Transaction => {
+  const market = extra.market || 'TW';
+  const isETF = !!extra.isETF;
+  const { fee, tax, total } = calculateTransactionAmount(type, market, price, shares, isETF, settings, extra);
+  nextId += 1;
+  return { id: `t${nextId}`, date, ticker: '2330', name: '台積電', type, market, price, shares, isETF, fee, tax, totalAmount: total, ...extra };
+};
+
+const withCostBasis = (method: CostBasisMethod): AppSettings => ({ ...DEFAULT_SETTINGS, twCostBasis: method });
+
+describe('calculateTransactionAmount', () => {
+  it('台股手續費未達低消時以最低手續費計', () => {
+    // 1000 股 × 10 元：10000 × 0.1425% × 6 折 = 8.55 → 低消 20
+    expect(calculateTransactionAmount('buy', 'TW', 10, 1000, false, DEFAULT_SETTINGS)).toEqual({ fee: 20, tax: 0, total: 10020 });
+  });
+
+  it('台股零股適用零股低消', () => {
+    expect(calculateTransactionAmount('buy', 'TW', 100, 10, false, DEFAULT_SETTINGS).fee).toBe(1);
+  });
+
+  it('台股手續費超過低消時無條件捨去', () => {
+    // 1000 股 × 100 元：100000 × 0.1425% × 6 折 = 85.5
+    expect(calculateTransactionAmount('buy', 'TW', 100, 1000, false, DEFAULT_SETTINGS).fee).toBe(85);
+  });
+
+  it('台股賣出依 ETF、個股與債券 ETF 適用不同證交稅率', () => {
+    expect(calculateTransactionAmount('sell', 'TW', 100, 1000, false, DEFAULT_SETTINGS).tax).toBe(300);
+    expect(calculateTransactionAmount('sell', 'TW', 100, 1000, true, DEFAULT_SETTINGS).tax).toBe(100);
+    expect(calculateTransactionAmount('sell', 'TW', 100, 1000, true, DEFAULT_SETTINGS, { isBondETF: true }).tax).toBe(0);
+  });
+
+  it('賣出交割金額扣除手續費與證交稅', () => {
+    expect(calculateTransactionAmount('sell', 'TW', 100, 1000, true, DEFAULT_SETTINGS)).toEqual({ fee: 85, tax: 100, total: 99815 });
+  });
+});
+
+describe('當沖', () => {
+  it('個股當沖賣出適用減半稅率，零股同樣以零股低消計手續費', () => {
+    // 500 股 × 100 元：50000 × 0.15% = 75；手續費 50000 × 0.1425% × 6 折 = 42.75 → 42
+    expect(calculateTransactionAmount('sell', 'TW', 100, 500, false, DEFAULT_SETTINGS, { isDayTrade: true })).toEqual({ fee: 42, tax: 75, total: 49883 });
+    // 10 股 × 100 元：手續費未達零股低消，稅 1000 × 0.15% = 1.5 → 1
+    expect(calculateTransactionAmount('sell', 'TW', 100, 10, false, DEFAULT_SETTINGS, { isDayTrade: true })).toEqual({ fee: 1, tax: 1, total: 998 });
+  });
+
+  it('ETF 與債券 ETF 當沖不適用減半稅率', () => {
+    expect(calculateTransactionAmount('sell', 'TW', 100, 1000, true, DEFAULT_SETTINGS, { isDayTrade: true }).tax).toBe(100);
+    expect(calculateTransactionAmount('sell', 'TW', 100, 1000, true, DEFAULT_SETTINGS, { isDayTrade: true, isBondETF: true }).tax).toBe(0);
+  });
+
+  it('同帳戶同一天的買進 (含零股合計) 足以涵蓋賣出股數時視為當沖', () => {
+    const buys = [trade('buy', '2024-05-02', 100, 1000), trade('buy', '2024-05-02', 100, 500)];
+    const sell = { id: 's', date: '2024-05-02', ticker: '2330', market: 'TW' as const, shares: 1500 };
+    expect(isSameDayTrade(buys, sell)).toBe(true);
+    expect(isSameDayTrade(buys, { ...sell, shares: 1600 })).toBe(false);
+    expect(isSameDayTrade(buys, { ...sell, date: '2024-05-03' })).toBe(false);
+    expect(isSameDayTrade(buys, { ...sell, accountId: 'other' })).toBe(false);
+    expect(isSameDayTrade(buys, { ...sell, market: 'US' })).toBe(false);
+  });
+});
+
+describe('buildLedger', () => {
+  it('部分賣出依均價沖銷成本，剩餘持股保留均價', () => {
+    const buy = trade('buy', '2024-01-02', 50, 2000);
+    const sell = trade('sell', '2024-02-01', 60, 500);
+    const { holdings, realizedGains } = buildLedger([buy, sell], DEFAULT_SETTINGS);
+
+    expect(holdings).toHaveLength(1);
+    expect(holdings[0].shares).toBe(1500);
+    expect(holdings[0].totalCost).toBeCloseTo(buy.totalAmount * 0.75);
+    expect(holdings[0].avgCost).toBeCloseTo(buy.totalAmount / 2000);
+    expect(realizedGains[0].realizedPL).toBeCloseTo(sell.totalAmount - buy.totalAmount * 0.25);
+  });
+
+  it('全數賣出後不再列為持股，損益全部實現', () => {
+    const buys = [trade('buy', '2024-01-02', 50, 1000), trade('buy', '2024-01-10', 55, 1000)];
+    const sell = trade('sell', '2024-03-01', 60, 2000);
+    const { holdings, realizedGains } = buildLedger([...buys, sell], DEFAULT_SETTINGS, { '2330': 60 });
+
+    expect(holdings).toHaveLength(0);
+    expect(realizedGains[0].totalCost).toBeCloseTo(buys[0].totalAmount + buys[1].totalAmount);
+    expect(realizedGains[0].realizedPL).toBeCloseTo(sell.totalAmount - buys[0].totalAmount - buys[1].totalAmount);
+    expect(realizedGains[0].closedLots.reduce((sum, lot) => sum + lot.shares, 0)).toBeCloseTo(2000);
+  });
+
+  it('全數賣出後重新買進，成本從新的買進起算', () => {
+    const first = trade('buy', '2024-01-02', 50, 1000);
+    const sell = trade('sell', '2024-02-01', 60, 1000);
+    const again = trade('buy', '2024-03-01', 40, 1000);
+    const { holdings } = buildLedger([first, sell, again], DEFAULT_SETTINGS);
+
+    expect(holdings[0].shares).toBe(1000);
+    expect(holdings[0].totalCost).toBeCloseTo(again.totalAmount);
+  });
+
+  it('融資買進的持股領到的股利計入持股報酬', () => {
+    const marginBuy = trade('buy', '2024-01-02', 50, 1000, { credit: 'margin', loanAmount: 30000 });
+    const cashBuy = trade('buy', '2024-01-03', 50, 1000);
+    const dividend = trade('dividend', '2024-07-01', 3, 2000);
+    const { holdings } = buildLedger([marginBuy, cashBuy, dividend], DEFAULT_SETTINGS, { '2330': 50 });
+
+    expect(holdings[0].dividendIncome).toBeCloseTo(dividend.totalAmount);
+    expect(holdings[0].totalReturn).toBeCloseTo(holdings[0].unrealizedPL + dividend.totalAmount);
+  });
+
+  it('全部以融資買進時股利不會被清空', () => {
+    const marginBuy = trade('buy', '2024-01-02', 50, 1000, { credit: 'margin', loanAmount: 30000 });
+    const dividend = trade('dividend', '2024-07-01', 3, 1000);
+    const { holdings } = buildLedger([marginBuy, dividend], DEFAULT_SETTINGS, { '2330': 50 });
+
+    expect(holdings[0].dividendIncome).toBeCloseTo(3000);
+  });
+
+  it('配股依現股與融資合計股數配發，融資部位同樣增加股數', () => {
+    const marginBuy = trade('buy', '2024-01-02', 50, 1000, { credit: 'margin', loanAmount: 30000 });
+    const cashBuy = trade('buy', '2024-01-03', 50, 1000);
+    const stockDividend = trade('stockDividend', '2024-08-01', 0, 200);
+    // 配股後融資部位應為 1100 股，可全數賣出償還
+    const marginSell = trade('sell', '2024-09-01', 50, 1100, { credit: 'margin' });
+    const { holdings } = buildLedger([marginBuy, cashBuy, stockDividend, marginSell], DEFAULT_SETTINGS, { '2330': 50 });
+
+    expect(holdings).toHaveLength(1);
+    expect(holdings[0].shares).toBeCloseTo(1100);
+    expect(holdings[0].totalCost).toBeCloseTo(cashBuy.totalAmount);
+  });
+
+  describe('成本法', () => {
+    const cheap = trade('buy', '2024-01-02', 50, 1000);
+    const expensive = trade('buy', '2024-02-01', 80, 1000);
+
+    const soldCost = (method: CostBasisMethod, sell: Transaction) => {
+      const { holdings, realizedGains } = buildLedger([cheap, expensive, sell], withCostBasis(method));
+      return { remaining: holdings[0], lots: realizedGains[0].closedLots };
+    };
+
+    it('移動平均：每個批次依比例扣除', () => {
+      const { remaining, lots } = soldCost('average', trade('sell', '2024-03-01', 70, 1000));
+      const total = cheap.totalAmount + expensive.totalAmount;
+      expect(lots.reduce((sum, lot) => sum + lot.cost, 0)).toBeCloseTo(total / 2);
+      expect(lots.map(lot => lot.shares)).toEqual([500, 500]);
+      expect(remaining.totalCost).toBeCloseTo(total / 2);
+    });
+
+    it('FIFO：先沖銷最早買進的批次', () => {
+      const { remaining, lots } = soldCost('fifo', trade('sell', '2024-03-01', 70, 1000));
+      expect(lots).toHaveLength(1);
+      expect(lots[0].lotId).toBe(cheap.id);
+      expect(lots[0].cost).toBeCloseTo(cheap.totalAmount);
+      expect(remaining.totalCost).toBeCloseTo(expensive.totalAmount);
+    });
+
+    it('LIFO：先沖銷最近買進的批次', () => {
+      const { remaining, lots } = soldCost('lifo', trade('sell', '2024-03-01', 70, 1000));
+      expect(lots).toHaveLength(1);
+      expect(lots[0].lotId).toBe(expensive.id);
+      expect(remaining.totalCost).toBeCloseTo(cheap.totalAmount);
+    });
+
+    it.each<CostBasisMethod>(['average', 'fifo', 'lifo', 'specific'])('%s：賣超時只就持有股數沖銷成本與認列價款', method => {
+      const sell = trade('sell', '2024-03-01', 70, 2500);
+      const { holdings, realizedGains } = buildLedger([cheap, expensive, sell], withCostBasis(method));
+      const held = cheap.totalAmount + expensive.totalAmount;
+
+      expect(holdings).toHaveLength(0);
+      expect(realizedGains[0].totalCost).toBeCloseTo(held);
+      expect(realizedGains[0].totalRevenue).toBeCloseTo(sell.totalAmount * 2000 / 2500);
+      expect(realizedGains[0].realizedPL).toBeCloseTo(sell.totalAmount * 2000 / 2500 - held);
+      expect(realizedGains[0].closedLots.reduce((sum, lot) => sum + lot.shares, 0)).toBeCloseTo(2000);
+    });
+
+    it('指定批次：依選擇沖銷，未涵蓋的股數以 FIFO 補足', () => {
+      const sell = trade('sell', '2024-03-01', 70, 1500, { lotSelections: [{ lotId: expensive.id, shares: 1000 }] });
+      const { remaining, lots } = soldCost('specific', sell);
+      expect(lots.map(lot => [lot.lotId, lot.shares])).toEqual([[expensive.id, 1000], [cheap.id, 500]]);
+      expect(remaining.shares).toBe(500);
+      expect(remaining.totalCost).toBeCloseTo(cheap.totalAmount / 2);
+    });
+  });
+});
@@ -0,0 +1,590 @@
+import { DEFAULT_ACCOUNT_ID, TW_BOARD_LOT, TW_NHI_THRESHOLD } from './settings';
+import { accrueInterest, getCreditRates } from './credit';
+import type { Account, AppSettings, ClosedLot, CostBasisMethod, CurrencyType, Holding, MarketType, OpenLot, RealizedItem, ShortLot, ShortPosition, Transaction, TransactionType } from './types';
+
+// --- 帳務引擎 ---
+// 純函數，不依賴 React；UI 與其他功能都透過這裡計算損益，確保數字一致。
+
+const EPSILON = 0.000001;
+
+export const getCurrency = (market: MarketType): CurrencyType => market === 'TW' ? 'TWD' : 'USD';
+
+// 由價格、股數與實際費用推算交割金額 (買進為支出、其餘為收入)
+export const getSettlementAmount = (type: TransactionType, price: number, shares: number, fee: number, tax: number) => {
+  const rawAmount = price * shares;
+  switch (type) {
+    case 'buy': return rawAmount + fee;
+    case 'sell':
+    case 'dividend': return rawAmount - fee - tax;
+    case 'capitalReduction': return rawAmount - fee;
+    default: return 0;
+  }
+};
+
+// 台股交易屬性：債券 ETF 免證交稅；當沖賣出 (非 ETF) 適用減半稅率
+export type TradeAttributes = Pick<Transaction, 'isBondETF' | 'isDayTrade'>;
+
+// 台股不足一張 (1000 股) 的部分以零股交易，最低手續費另計
+export const isOddLot = (market: MarketType, shares: number) => market === 'TW' && shares % TW_BOARD_LOT !== 0;
+
+const getTwTaxRate = (isETF: boolean, attributes: TradeAttributes, settings: AppSettings) => {
+  if (attributes.isBondETF) return 0;
+  if (isETF) return settings.twTaxRateETF;
+  return attributes.isDayTrade ? settings.twDayTradeTaxRate : settings.twTaxRateStock;
+};
+
+// 依市場規則計算手續費、交易稅與交割金額
+export const calculateTransactionAmount = (
+  type: TransactionType,
+  market: MarketType,
+  price: number,
+  shares: number,
+  isETF: boolean,
+  settings: AppSettings,
+  attributes: TradeAttributes = {}
+) => {
+  const rawAmount = price * shares;
+  let fee = 0;
+  let tax = 0;
+
+  // 現金股利：美股預扣所得稅，台股單次達門檻扣二代健保補充保費
+  if (type === 'dividend') {
+    if (market === 'TW') {
+      tax = rawAmount >= TW_NHI_THRESHOLD ? Math.floor(rawAmount * settings.twDividendNhiRate) : 0;
+    } else {
+      tax = rawAmount * settings.usDividendWithholdingRate;
+    }
+    return { fee, tax, total: getSettlementAmount(type, price, shares, fee, tax) };
+  }
+  // 減資退還股款不收費用；配股與分割不涉及現金
+  if (type !== 'buy' && type !== 'sell') return { fee, tax, total: getSettlementAmount(type, price, shares, fee, tax) };
+
+  if (market === 'TW') {
+    const minFee = isOddLot(market, shares) ? settings.twOddLotMinFee : settings.twMinFee;
+    fee = Math.max(minFee, Math.floor(rawAmount * settings.twFeeRate * settings.twDiscount));
+    tax = type === 'sell' ? Math.floor(rawAmount * getTwTaxRate(isETF, attributes, settings)) : 0;
+  } else {
+    fee = Math.max(settings.usMinFee, rawAmount * settings.usFeeRate);
+    tax = type === 'sell' ? rawAmount * settings.usTaxRate : 0;
+  }
+
+  return { fee, tax, total: getSettlementAmount(type, price, shares, fee, tax) };
+};
+
+// 以現價全數賣出的預估淨收入 (已扣除賣出手續費與交易稅)
+export const estimateLiquidationValue = (
+  market: MarketType,
+  price: number,
+  shares: number,
+  isETF: boolean,
+  settings: AppSettings,
+  attributes: TradeAttributes = {}
+) => calculateTransactionAmount('sell', market, price, shares, isETF, settings, { isBondETF: attributes.isBondETF }).total;
+
+// 當沖：同帳戶同一天已有買進足以涵蓋這筆台股賣出的股數 (先賣後買的當沖需手動勾選)
+export const isSameDayTrade = (
+  transactions: Transaction[],
+  sell: Pick<Transaction, 'id' | 'date' | 'ticker' | 'market' | 'shares' | 'accountId'>
+) => {
+  if (sell.market !== 'TW') return false;
+  const accountId = sell.accountId || DEFAULT_ACCOUNT_ID;
+  const bought = transactions
+    .filter(t => t.id !== sell.id && t.type === 'buy' && t.date === sell.date && t.ticker === sell.ticker && getAccountId(t) === accountId)
+    .reduce((sum, t) => sum + t.shares, 0);
+  return bought > 0 && bought + EPSILON >= sell.shares;
+};
+
+export const sortTransactionsByDate = (transactions: Transaction[]) =>
+  [...transactions].sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+
+export const getCostBasisMethod = (market: MarketType, settings: AppSettings): CostBasisMethod =>
+  (market === 'TW' ? settings.twCostBasis : settings.usCostBasis) || 'average';
+
+// --- 帳戶 ---
+
+export const getAccountId = (t: Transaction) => t.accountId || DEFAULT_ACCOUNT_ID;
+
+// 帳戶自訂的券商費率覆蓋全域參數
+export const getAccountSettings = (settings: AppSettings, accounts: Account[], accountId: string): AppSettings => {
+  const account = accounts.find(a => a.id === accountId);
+  return account ? { ...settings, ...account.fees } : settings;
+};
+
+// 交易是否影響指定帳戶 (轉帳同時影響轉出與轉入帳戶)
+export const involvesAccount = (t: Transaction, accountId: string) =>
+  getAccountId(t) === accountId || (t.type === 'transfer' && t.toAccountId === accountId);
+
+export interface LedgerOptions {
+  accounts?: Account[];
+  // 只輸出此帳戶的部位；未指定時合併所有帳戶
+  accountId?: string | null;
+  // 融資利息與借券利息計算到此日 (YYYY-MM-DD)；未指定時未平倉部位不計應計利息
+  asOf?: string;
+}
+
+interface PositionState {
+  accountId: string;
+  ticker: string;
+  name: string;
+  market: MarketType;
+  shares: number;
+  totalCost: number;
+  isETF: boolean;
+  isBondETF: boolean;
+  lots: OpenLot[];
+  dividendIncome: number;
+}
+
+// 股數依比例調整 (配股、分割、減資)，總成本不變、每股成本重新攤提
+const rebaseShares = (pos: PositionState, ratio: number) => {
+  if (pos.shares <= 0 || !(ratio > 0)) return;
+  pos.lots.forEach(lot => {
+    lot.shares *= ratio;
+    lot.originalShares *= ratio;
+    lot.costPerShare /= ratio;
+  });
+  pos.shares *= ratio;
+};
+
+// 減資退還股款視為退回成本，依各批次成本比例扣減
+const returnCapital = (pos: PositionState, amount: number) => {
+  if (pos.totalCost <= 0 || amount <= 0) return;
+  const fraction = Math.min(1, amount / pos.totalCost);
+  pos.lots.forEach(lot => {
+    lot.totalCost -= lot.totalCost * fraction;
+    lot.costPerShare = lot.shares > 0 ? lot.totalCost / lot.shares : 0;
+  });
+  pos.totalCost -= pos.totalCost * fraction;
+};
+
+interface ShortState {
+  accountId: string;
+  ticker: string;
+  name: string;
+  market: MarketType;
+  isETF: boolean;
+  shares: number;
+  lots: ShortLot[];
+}
+
+// 依成本法決定這筆賣出要從哪些批次扣除多少股
+const allocateSell = (lots: OpenLot[], t: Transaction, method: CostBasisMethod) => {
+  const allocations: { lot: OpenLot; shares: number }[] = [];
+  const available = new Map(lots.map(lot => [lot.lotId, lot.shares]));
+  let remaining = t.shares;
+
+  const take = (lot: OpenLot, wanted: number) => {
+    const shares = Math.min(wanted, available.get(lot.lotId) || 0, remaining);
+    if (shares <= EPSILON) return;
+    allocations.push({ lot, shares });
+    available.set(lot.lotId, (available.get(lot.lotId) || 0) - shares);
+    remaining -= shares;
+  };
+
+  if (method === 'specific') {
+    (t.lotSelections || []).forEach(sel => {
+      const lot = lots.find(l => l.lotId === sel.lotId);
+      if (lot) take(lot, sel.shares);
+    });
+  }
+  // 指定批次未涵蓋的股數以 FIFO 補足
+  const ordered = method === 'lifo' ? [...lots].reverse() : lots;
+  ordered.forEach(lot => take(lot, remaining));
+
+  return allocations;
+};
+
+// 扣除賣出股數的成本，回傳沖銷成本與各批次明細；融資批次同時償還借款並計算利息
+// 賣超 (股數多於持股) 時只就持有的股數沖銷成本、認列價款，超出的部分由資料檢查提示
+const closePosition = (pos: PositionState, t: Transaction, method: CostBasisMethod, interestRate = 0) => {
+  const closedLots: ClosedLot[] = [];
+  const proceedsPerShare = t.shares > 0 ? t.totalAmount / t.shares : 0;
+  const soldShares = Math.min(t.shares, pos.shares);
+  let interest = 0;
+  const toClosedLot = (lot: OpenLot, shares: number, cost: number, repaid: number): ClosedLot => {
+    const lotInterest = accrueInterest(repaid, interestRate, lot.date, t.date);
+    interest += lotInterest;
+    return {
+      lotId: lot.lotId,
+      sellId: t.id,
+      buyDate: lot.date,
+      sellDate: t.date,
+      shares,
+      cost: cost + lotInterest,
+      proceeds: proceedsPerShare * shares,
+      realizedPL: proceedsPerShare * shares - cost - lotInterest,
+      ...(lotInterest > 0 ? { interest: lotInterest } : {})
+    };
+  };
+
+  let costOfSoldShares = 0;
+
+  if (method === 'average') {
+    // 移動平均：每個批次依比例扣除，成本以均價計
+    const avgCost = pos.totalCost / pos.shares;
+    const fraction = soldShares / pos.shares;
+    costOfSoldShares = avgCost * soldShares;
+    pos.lots.forEach(lot => {
+      const weight = pos.totalCost > 0 ? lot.totalCost / pos.totalCost : lot.shares / pos.shares;
+      const repaid = (lot.loan || 0) * fraction;
+      closedLots.push(toClosedLot(lot, lot.shares * fraction, costOfSoldShares * weight, repaid));
+      lot.shares -= lot.shares * fraction;
+      lot.totalCost -= lot.totalCost * fraction;
+      if (lot.loan) lot.loan -= repaid;
+    });
+  } else {
+    allocateSell(pos.lots, t, method).forEach(({ lot, shares }) => {
+      const cost = lot.costPerShare * shares;
+      const repaid = lot.loan ? lot.loan * shares / lot.shares : 0;
+      closedLots.push(toClosedLot(lot, shares, cost, repaid));
+      lot.shares -= shares;
+      lot.totalCost -= cost;
+      if (lot.loan) lot.loan -= repaid;
+      costOfSoldShares += cost;
+    });
+  }
+
+  pos.lots = pos.lots.filter(lot => lot.shares > EPSILON);
+  pos.totalCost -= costOfSoldShares;
+  pos.shares -= soldShares;
+
+  return { costOfSoldShares, proceeds: proceedsPerShare * soldShares, closedLots, interest };
+};
+
+// 融券回補一律先進先出；借券費依股數比例攤提，美股另計按日借券利息
+const coverShort = (pos: ShortState, t: Transaction, borrowRate: number) => {
+  const closedLots: ClosedLot[] = [];
+  const costPerShare = t.shares > 0 ? t.totalAmount / t.shares : 0;
+  let remaining = Math.min(t.shares, pos.shares);
+  pos.lots.forEach(lot => {
+    const shares = Math.min(lot.shares, remaining);
+    if (shares <= EPSILON) return;
+    const fraction = shares / lot.shares;
+    const proceeds = lot.proceeds * fraction;
+    const borrowFee = lot.borrowFee * fraction;
+    const interest = borrowFee + accrueInterest(proceeds, borrowRate, lot.date, t.date);
+    const cost = costPerShare * shares + interest;
+    closedLots.push({
+      lotId: lot.lotId,
+      sellId: t.id,
+      buyDate: lot.date,
+      sellDate: t.date,
+      shares,
+      cost,
+      proceeds,
+      realizedPL: proceeds - cost,
+      ...(interest > 0 ? { interest } : {}),
+      isShort: true
+    });
+    lot.shares -= shares;
+    lot.proceeds -= proceeds;
+    lot.collateral -= lot.collateral * fraction;
+    lot.borrowFee -= borrowFee;
+    remaining -= shares;
+  });
+  pos.lots = pos.lots.filter(lot => lot.shares > EPSILON);
+  pos.shares = pos.lots.reduce((sum, lot) => sum + lot.shares, 0);
+  return closedLots;
+};
+
+// 持股以「帳戶 + 代號」為單位各自計算成本，輸出時再依代號合併
+export const buildLedger = (
+  transactions: Transaction[],
+  settings: AppSettings,
+  prices: Record<string, number> = {},
+  options: LedgerOptions = {}
+): { holdings: Holding[]; realizedGains: RealizedItem[]; shorts: ShortPosition[]; cashFlows: Record<string, number> } => {
+  const accounts = options.accounts || [];
+  // 交易 id → 現金增減 (原幣別，流入為正)；帳務引擎忽略的交易 (例如無持股賣出) 不影響現金
+  const cashFlows: Record<string, number> = {};
+  // key 為「帳戶|代號」；融資部位與現股分開計算，key 另加「|margin」
+  const tempHoldings: Record<string, PositionState> = {};
+  const tempRealized: Record<string, RealizedItem> = {};
+  const tempShorts: Record<string, ShortState> = {};
+  const accountOf = (key: string) => key.slice(0, key.lastIndexOf('|'));
+  const ratesOf = (market: MarketType, accountId: string) => getCreditRates(market, getAccountSettings(settings, accounts, accountId));
+
+  const getPosition = (accountId: string, t: Transaction, margin = false) => {
+    const key = `${accountId}|${t.ticker}`;
+    const holdingKey = margin ? `${key}|margin` : key;
+    if (!tempHoldings[holdingKey]) {
+      tempHoldings[holdingKey] = {
+        accountId,
+        ticker: t.ticker,
+        name: t.name,
+        market: t.market,
+        shares: 0,
+        totalCost: 0,
+        isETF: t.isETF,
+        isBondETF: !!t.isBondETF,
+        lots: [],
+        dividendIncome: 0
+      };
+    }
+    if (!tempRealized[key]) {
+      tempRealized[key] = {
+        ticker: t.ticker,
+        name: t.name,
+        market: t.market,
+        currency: getCurrency(t.market),
+        realizedPL: 0,
+        totalCost: 0,
+        totalRevenue: 0,
+        roi: 0,
+        tradeCount: 0,
+        isETF: t.isETF,
+        closedLots: [],
+        dividendIncome: 0
+      };
+    }
+    return { h: tempHoldings[holdingKey], r: tempRealized[key] };
+  };
+
+  const getShort = (accountId: string, t: Transaction) => {
+    const key = `${accountId}|${t.ticker}`;
+    if (!tempShorts[key]) tempShorts[key] = { accountId, ticker: t.ticker, name: t.name, market: t.market, isETF: t.isETF, shares: 0, lots: [] };
+    return tempShorts[key];
+  };
+
+  // 配股、分割與減資的股數比例同樣套用在融資與融券部位
+  const rebaseCredit = (accountId: string, ticker: string, ratio: number) => {
+    const margin = tempHoldings[`${accountId}|${ticker}|margin`];
+    if (margin) rebaseShares(margin, ratio);
+    const short = tempShorts[`${accountId}|${ticker}`];
+    if (short && short.shares > 0 && ratio > 0) {
+      short.lots.forEach(lot => { lot.shares *= ratio; });
+      short.shares *= ratio;
+    }
+  };
+
+  const resetIfEmpty = (h: PositionState) => {
+    if (h.shares <= EPSILON) {
+      h.shares = 0;
+      h.totalCost = 0;
+      h.lots = [];
+      h.dividendIncome = 0;
+    }
+  };
+
+  sortTransactionsByDate(transactions).forEach(t => {
+    const accountId = getAccountId(t);
+    const { h, r } = getPosition(accountId, t, t.credit === 'margin');
+
+    if (t.credit === 'short' && (t.type === 'sell' || t.type === 'buy')) {
+      const s = getShort(accountId, t);
+      if (t.type === 'sell') {
+        s.lots.push({ lotId: t.id, date: t.date, shares: t.shares, proceeds: t.totalAmount, collateral: t.loanAmount || 0, borrowFee: t.borrowFee || 0 });
+        s.shares += t.shares;
+        // 融券賣出：自備保證金，賣出價款由券商留存為擔保價款
+        cashFlows[t.id] = -(t.loanAmount || 0);
+      } else if (s.shares > 0) {
+        const collateralBefore = s.lots.reduce((sum, lot) => sum + lot.collateral, 0);
+        const closedLots = coverShort(s, t, ratesOf(t.market, accountId).borrowRate);
+        // 回補：領回保證金與擔保價款，扣除回補價款與借券費
+        cashFlows[t.id] = collateralBefore - s.lots.reduce((sum, lot) => sum + lot.collateral, 0) + closedLots.reduce((sum, lot) => sum + lot.realizedPL, 0);
+        r.realizedPL += closedLots.reduce((sum, lot) => sum + lot.realizedPL, 0);
+        r.totalCost += closedLots.reduce((sum, lot) => sum + lot.cost, 0);
+        r.totalRevenue += closedLots.reduce((sum, lot) => sum + lot.proceeds, 0);
+        r.tradeCount += 1;
+        r.closedLots.push(...closedLots);
+      }
+    } else if (t.type === 'buy') {
+      h.totalCost += t.totalAmount;
+      h.shares += t.shares;
+      h.lots.push({
+        lotId: t.id,
+        date: t.date,
+        shares: t.shares,
+        originalShares: t.shares,
+        costPerShare: t.shares > 0 ? t.totalAmount / t.shares : 0,
+        totalCost: t.totalAmount,
+        ...(t.credit === 'margin' ? { loan: t.loanAmount || 0 } : {})
+      });
+      // 融資買進只付自備款
+      cashFlows[t.id] = -(t.totalAmount - (t.credit === 'margin' ? t.loanAmount || 0 : 0));
+    } else if (t.type === 'sell') {
+      if (h.shares > 0) {
+        const interestRate = t.credit === 'margin' ? ratesOf(t.market, accountId).interestRate : 0;
+        const loanBefore = h.lots.reduce((sum, lot) => sum + (lot.loan || 0), 0);
+        const { costOfSoldShares, proceeds, closedLots, interest } = closePosition(h, t, getCostBasisMethod(t.market, settings), interestRate);
+        // 融資賣出：價款先償還借款與利息
+        cashFlows[t.id] = t.totalAmount - interest - (loanBefore - h.lots.reduce((sum, lot) => sum + (lot.loan || 0), 0));
+
+        r.realizedPL += proceeds - costOfSoldShares - interest;
+        r.totalCost += costOfSoldShares + interest;
+        r.totalRevenue += proceeds;
+        r.tradeCount += 1;
+        r.closedLots.push(...closedLots);
+      }
+    } else if (t.type === 'transfer') {
+      // 依成本法從轉出帳戶取出批次，原封不動 (含買進日與成本) 放入轉入帳戶
+      const target = t.toAccountId && t.toAccountId !== getAccountId(t) ? getPosition(t.toAccountId, t).h : null;
+      if (target && h.shares > 0) {
+        const moved = { ...t, shares: Math.min(t.shares, h.shares) };
+        const { costOfSoldShares, closedLots } = closePosition(h, moved, getCostBasisMethod(t.market, settings));
+        closedLots.filter(lot => lot.shares > EPSILON).forEach(lot => {
+          target.lots.push({
+            lotId: lot.lotId,
+            date: lot.buyDate,
+            shares: lot.shares,
+            originalShares: lot.shares,
+            costPerShare: lot.cost / lot.shares,
+            totalCost: lot.cost
+          });
+        });
+        target.lots.sort((a, b) => a.date.localeCompare(b.date));
+        target.shares += moved.shares;
+        target.totalCost += costOfSoldShares;
+        target.isETF = h.isETF;
+        target.isBondETF = h.isBondETF;
+      }
+    } else if (t.type === 'dividend') {
+      // 股利依股數分給實際持有的現股與融資部位，避免記在沒有股數的部位而被清空
+      const held = [tempHoldings[`${accountId}|${t.ticker}`], tempHoldings[`${accountId}|${t.ticker}|margin`]].filter(p => p && p.shares > 0);
+      const heldShares = held.reduce((sum, p) => sum + p.shares, 0);
+      if (heldShares > 0) held.forEach(p => { p.dividendIncome += t.totalAmount * p.shares / heldShares; });
+      else h.dividendIncome += t.totalAmount;
+      r.dividendIncome += t.totalAmount;
+      cashFlows[t.id] = t.totalAmount;
+    } else if (t.type === 'stockDividend') {
+      // 配發股數依現股與融資合計換算比例
+      const heldShares = h.shares + (tempHoldings[`${accountId}|${t.ticker}|margin`]?.shares ?? 0);
+      if (heldShares > 0) {
+        const ratio = (heldShares + t.shares) / heldShares;
+        rebaseShares(h, ratio);
+        rebaseCredit(accountId, t.ticker, ratio);
+      } else {
+        h.shares = t.shares;
+        h.lots.push({ lotId: t.id, date: t.date, shares: t.shares, originalShares: t.shares, costPerShare: 0, totalCost: 0 });
+      }
+    } else if (t.type === 'split') {
+      rebaseShares(h, t.ratio ?? 1);
+      rebaseCredit(accountId, t.ticker, t.ratio ?? 1);
+    } else if (t.type === 'capitalReduction') {
+      returnCapital(h, t.totalAmount);
+      cashFlows[t.id] = t.totalAmount;
+      rebaseShares(h, t.ratio ?? 1);
+      rebaseCredit(accountId, t.ticker, t.ratio ?? 1);
+    }
+
+    resetIfEmpty(h);
+  });
+
+  const visible = (accountId: string) => !options.accountId || accountId === options.accountId;
+
+  const accountHoldings = Object.values(tempHoldings)
+    .filter(h => h.shares > 0 && visible(h.accountId))
+    .map((h): Holding => {
+      const currentPrice = prices[h.ticker] || 0;
+      const avgCost = h.shares > 0 ? h.totalCost / h.shares : 0;
+      const marketValue = estimateLiquidationValue(h.market, currentPrice, h.shares, h.isETF, getAccountSettings(settings, accounts, h.accountId), h);
+      const loanBalance = h.lots.reduce((sum, lot) => sum + (lot.loan || 0), 0);
+      const interestRate = ratesOf(h.market, h.accountId).interestRate;
+      const accruedInterest = options.asOf ? h.lots.reduce((sum, lot) => sum + accrueInterest(lot.loan || 0, interestRate, lot.date, options.asOf!), 0) : 0;
+      const unrealizedPL = marketValue - h.totalCost - accruedInterest;
+      const roi = h.totalCost > 0 ? (unrealizedPL / h.totalCost) * 100 : 0;
+
+      return {
+        ...h,
+        currency: getCurrency(h.market),
+        avgCost,
+        marketValue,
+        unrealizedPL,
+        roi,
+        totalReturn: unrealizedPL + h.dividendIncome,
+        loanBalance,
+        marginValue: loanBalance > 0 ? currentPrice * h.shares : 0,
+        accruedInterest
+      };
+    });
+
+  // 同一代號分散在多個帳戶 (或同時有現股與融資) 時合併為一列
+  const holdings = [...groupByTicker(accountHoldings).values()].map(list => list.reduce((sum, h): Holding => {
+    const shares = sum.shares + h.shares;
+    const totalCost = sum.totalCost + h.totalCost;
+    const marketValue = sum.marketValue + h.marketValue;
+    const accruedInterest = sum.accruedInterest + h.accruedInterest;
+    const unrealizedPL = marketValue - totalCost - accruedInterest;
+    return {
+      ...sum,
+      shares,
+      totalCost,
+      marketValue,
+      unrealizedPL,
+      avgCost: shares > 0 ? totalCost / shares : 0,
+      roi: totalCost > 0 ? (unrealizedPL / totalCost) * 100 : 0,
+      lots: [...sum.lots, ...h.lots].sort((a, b) => a.date.localeCompare(b.date)),
+      dividendIncome: sum.dividendIncome + h.dividendIncome,
+      totalReturn: sum.totalReturn + h.totalReturn,
+      loanBalance: sum.loanBalance + h.loanBalance,
+      marginValue: sum.marginValue + h.marginValue,
+      accruedInterest
+    };
+  }));
+
+  const accountShorts = Object.values(tempShorts)
+    .filter(s => s.shares > EPSILON && visible(s.accountId))
+    .map((s): ShortPosition => {
+      const accountSettings = getAccountSettings(settings, accounts, s.accountId);
+      const price = prices[s.ticker] || 0;
+      const borrowRate = getCreditRates(s.market, accountSettings).borrowRate;
+      const proceeds = s.lots.reduce((sum, lot) => sum + lot.proceeds, 0);
+      const borrowCost = s.lots.reduce((sum, lot) => sum + lot.borrowFee + (options.asOf ? accrueInterest(lot.proceeds, borrowRate, lot.date, options.asOf) : 0), 0);
+      const coverCost = price > 0 ? calculateTransactionAmount('buy', s.market, price, s.shares, s.isETF, accountSettings).total : 0;
+      return {
+        ticker: s.ticker,
+        name: s.name,
+        market: s.market,
+        currency: getCurrency(s.market),
+        isETF: s.isETF,
+        shares: s.shares,
+        avgPrice: proceeds / s.shares,
+        proceeds,
+        collateral: s.lots.reduce((sum, lot) => sum + lot.collateral, 0),
+        borrowCost,
+        coverCost,
+        price,
+        unrealizedPL: price > 0 ? proceeds - coverCost - borrowCost : 0,
+        lots: s.lots.map(lot => ({ ...lot }))
+      };
+    });
+  const shorts = [...groupByTicker(accountShorts).values()].map(list => list.reduce((sum, s): ShortPosition => {
+    const shares = sum.shares + s.shares;
+    const proceeds = sum.proceeds + s.proceeds;
+    return {
+      ...sum,
+      shares,
+      proceeds,
+      avgPrice: proceeds / shares,
+      collateral: sum.collateral + s.collateral,
+      borrowCost: sum.borrowCost + s.borrowCost,
+      coverCost: sum.coverCost + s.coverCost,
+      unrealizedPL: sum.unrealizedPL + s.unrealizedPL,
+      lots: [...sum.lots, ...s.lots].sort((a, b) => a.date.localeCompare(b.date))
+    };
+  }));
+
+  const accountRealized = Object.entries(tempRealized)
+    .filter(([key, r]) => r.tradeCount > 0 && visible(accountOf(key)))
+    .map(([, r]) => r);
+  const realizedGains = [...groupByTicker(accountRealized).values()].map(list => {
+    const merged = list.reduce((sum, r): RealizedItem => ({
+      ...sum,
+      realizedPL: sum.realizedPL + r.realizedPL,
+      totalCost: sum.totalCost + r.totalCost,
+      totalRevenue: sum.totalRevenue + r.totalRevenue,
+      tradeCount: sum.tradeCount + r.tradeCount,
+      closedLots: [...sum.closedLots, ...r.closedLots],
+      dividendIncome: sum.dividendIncome + r.dividendIncome
+    }));
+    return { ...merged, roi: merged.totalCost > 0 ? (merged.realizedPL / merged.totalCost) * 100 : 0 };
+  });
+
+  return { holdings, realizedGains, shorts, cashFlows };
+};
+
+const groupByTicker = <T extends { ticker: string }>(items: T[]) => {
+  const groups = new Map<string, T[]>();
+  items.forEach(item => groups.set(item.ticker, [...(groups.get(item.ticker) || []), item]));
+  return groups;
+};
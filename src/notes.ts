@@ -0,0 +1,47 @@
+import { Marked } from 'marked';
+import type { Transaction } from './types';
+
+// --- 交易筆記 ---
+// 筆記以 Markdown 儲存，顯示時用 marked 轉成 HTML。沒有額外的 sanitizer，
+// 所以在 renderer 內處理：原始 HTML 一律當成文字跳脫，連結與圖片只接受 http(s) / mailto。
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&#39;');
+
+const isSafeUrl = (href: string) => /^(https?:|mailto:)/i.test(href.trim());
+
+const markdown = new Marked({
+  async: false,
+  gfm: true,
+  breaks: true,
+  renderer: {
+    html({ text }) {
+      return escapeHtml(text);
+    },
+    link({ href, title, tokens }) {
+      const label = this.parser.parseInline(tokens);
+      if (!isSafeUrl(href)) return label;
+      return `<a href="${escapeHtml(href)}"${title ? ` title="${escapeHtml(title)}"` : ''} target="_blank" rel="noopener noreferrer">${label}</a>`;
+    },
+    image({ href, title, text }) {
+      if (!isSafeUrl(href)) return escapeHtml(text);
+      return `<img src="${escapeHtml(href)}" alt="${escapeHtml(text)}"${title ? ` title="${escapeHtml(title)}"` : ''} loading="lazy" referrerpolicy="no-referrer">`;
+    }
+  }
+});
+
+export const renderMarkdown = (text: string) => markdown.parse(text) as string;
+
+// 不分大小寫的關鍵字比對；空白分隔的每個詞都要出現
+export const matchesQuery = (query: string, ...texts: (string | undefined)[]) => {
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (words.length === 0) return true;
+  const haystack = texts.filter(Boolean).join('\n').toLowerCase();
+  return words.every(w => haystack.includes(w));
+};
+
+// 某代號有筆記的交易，依日期由舊到新
+export const getTransactionNotes = (transactions: Transaction[], ticker: string) =>
+  transactions
+    .filter(t => t.ticker === ticker && t.note?.trim())
+    .sort((a, b) => a.date.localeCompare(b.date));
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { getDueDates, getPlanDate } from './plans';
+import type { InvestmentPlan } from './types';
+
+const plan = (overrides: Partial<InvestmentPlan> = {}): InvestmentPlan => ({
+  id: 'p1',
+  ticker: '0050',
+  name: '元大台灣50',
+  market: 'TW',
+  isETF: true,
+  mode: 'amount',
+  amount: 3000,
+  dayOfMonth: 6,
+  startDate: '2024-01-01',
+  ...overrides
+});
+
+describe('getPlanDate', () => {
+  it('超過當月天數以月底計，遇週末順延到週一', () => {
+    expect(getPlanDate(2024, 1, 31)).toBe('2024-02-29');
+    // 2024-08-31 為週六
+    expect(getPlanDate(2024, 7, 31)).toBe('2024-09-02');
+  });
+});
+
+describe('getDueDates', () => {
+  it('列出起訖之間的每月扣款日', () => {
+    expect(getDueDates(plan(), undefined, '2024-03-31')).toEqual(['2024-01-08', '2024-02-06', '2024-03-06']);
+  });
+
+  it('已產生的日期不重複列出', () => {
+    expect(getDueDates(plan(), '2024-02-06', '2024-03-31')).toEqual(['2024-03-06']);
+  });
+
+  it('上個月的扣款日順延到上次產生之後時仍會列出', () => {
+    expect(getDueDates(plan({ dayOfMonth: 31 }), '2024-09-01', '2024-09-03')).toEqual(['2024-09-02']);
+  });
+
+  it('跨年時從前一年十二月開始找', () => {
+    // 2023-12-31 為週日，順延到 2024-01-01
+    expect(getDueDates(plan({ dayOfMonth: 31, startDate: '2023-01-01' }), '2023-12-30', '2024-01-02')).toEqual(['2024-01-01']);
+  });
+
+  it('不早於計畫開始日、不晚於結束日', () => {
+    expect(getDueDates(plan({ startDate: '2024-02-10', endDate: '2024-04-01' }), undefined, '2024-12-31')).toEqual(['2024-03-06']);
+  });
+});
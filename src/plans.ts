@@ -0,0 +1,138 @@
+import { DEFAULT_ACCOUNT_ID } from './settings';
+import { calculateTransactionAmount, getAccountSettings } from './ledger';
+import type { Account, AppData, AppSettings, InvestmentPlan, MarketType, Transaction } from './types';
+
+// --- 定期定額 ---
+// 每月扣款日到期時產生待確認的買進 (pendingTransactions)，使用者填入實際成交價後才寫入交易紀錄。
+// 台股定期定額以股為單位買零股，美股可買小數股；手續費低消改用定期定額的優惠低消。
+
+// 每期股數的小數位數
+const PLAN_SHARE_DECIMALS: Record<MarketType, number> = { TW: 0, US: 4 };
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+// 指定月份 (0 起算) 的扣款日：超過當月天數以月底計，遇週末順延到週一
+export const getPlanDate = (year: number, month: number, dayOfMonth: number) => {
+  const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  const date = new Date(Date.UTC(year, month, Math.min(Math.max(1, dayOfMonth), lastDay)));
+  const weekday = date.getUTCDay();
+  if (weekday === 6) date.setUTCDate(date.getUTCDate() + 2);
+  if (weekday === 0) date.setUTCDate(date.getUTCDate() + 1);
+  return `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())}`;
+};
+
+// after (不含) 到 until (含) 之間的扣款日，受計畫起迄日限制
+export const getDueDates = (plan: InvestmentPlan, after: string | undefined, until: string) => {
+  const dates: string[] = [];
+  const from = after && after > plan.startDate ? after : plan.startDate;
+  const end = plan.endDate && plan.endDate < until ? plan.endDate : until;
+  // 從前一個月開始找：上個月的扣款日可能因週末順延到 from 之後
+  let year = Number(from.slice(0, 4));
+  let month = Number(from.slice(5, 7)) - 2;
+  if (month < 0) {
+    month = 11;
+    year -= 1;
+  }
+  for (;;) {
+    const date = getPlanDate(year, month, plan.dayOfMonth);
+    // 週末順延可能跨到下個月，因此以「當月第一天」判斷是否已超過結束日
+    if (`${year}-${pad(month + 1)}-01` > end) break;
+    if (date >= plan.startDate && (!after || date > after) && date <= end) dates.push(date);
+    month += 1;
+    if (month === 12) {
+      month = 0;
+      year += 1;
+    }
+  }
+  return dates;
+};
+
+const floorTo = (value: number, decimals: number) => {
+  const factor = 10 ** decimals;
+  return Math.floor(value * factor + 0.000001) / factor;
+};
+
+// 定期定額的最低手續費取代一般與零股低消
+export const getPlanFeeSettings = (settings: AppSettings): AppSettings => ({
+  ...settings,
+  twMinFee: settings.twPlanMinFee,
+  twOddLotMinFee: settings.twPlanMinFee,
+  usMinFee: settings.usPlanMinFee
+});
+
+// 依計畫與成交價計算股數與費用；金額模式的投入金額不含手續費
+export const calculatePlanBuy = (plan: InvestmentPlan, price: number, settings: AppSettings, accounts: Account[]) => {
+  if (!(price > 0)) return null;
+  const shares = plan.mode === 'shares' ? plan.shares || 0 : floorTo((plan.amount || 0) / price, PLAN_SHARE_DECIMALS[plan.market]);
+  if (shares <= 0) return null;
+  const planSettings = getPlanFeeSettings(getAccountSettings(settings, accounts, plan.accountId || DEFAULT_ACCOUNT_ID));
+  const { fee, tax, total } = calculateTransactionAmount('buy', plan.market, price, shares, plan.isETF, planSettings);
+  return { shares, fee, tax, total };
+};
+
+export const getPlanTransactionId = (planId: string, date: string) => `plan-${planId}-${date}`;
+
+// 以參考價 (通常是目前現價) 估算的待確認買進；沒有參考價時股數與費用留待確認
+export const buildPendingTransaction = (plan: InvestmentPlan, date: string, price: number, settings: AppSettings, accounts: Account[]): Transaction => {
+  const estimate = calculatePlanBuy(plan, price, settings, accounts);
+  return {
+    id: getPlanTransactionId(plan.id, date),
+    date,
+    ticker: plan.ticker,
+    name: plan.name,
+    type: 'buy',
+    market: plan.market,
+    price: estimate ? price : 0,
+    shares: estimate ? estimate.shares : plan.shares || 0,
+    isETF: plan.isETF,
+    fee: estimate ? estimate.fee : 0,
+    tax: 0,
+    totalAmount: estimate ? estimate.total : plan.amount || 0,
+    accountId: plan.accountId || DEFAULT_ACCOUNT_ID,
+    planId: plan.id
+  };
+};
+
+type ScheduleInput = Pick<AppData, 'investmentPlans' | 'pendingTransactions' | 'transactions' | 'manualPrices' | 'settings' | 'accounts'>;
+
+// 產生到今天為止尚未產生的扣款；暫停中的計畫直接跳過這段期間，恢復後不補扣
+export const schedulePlans = (data: ScheduleInput, today: string) => {
+  const existing = new Set([...data.pendingTransactions, ...data.transactions].map(t => t.id));
+  const created: Transaction[] = [];
+  const investmentPlans = data.investmentPlans.map(plan => {
+    if (plan.startDate > today || (plan.generatedThrough && plan.generatedThrough >= today)) return plan;
+    if (!plan.paused) {
+      getDueDates(plan, plan.generatedThrough, today)
+        .filter(date => !existing.has(getPlanTransactionId(plan.id, date)))
+        .forEach(date => created.push(buildPendingTransaction(plan, date, data.manualPrices[plan.ticker] || 0, data.settings, data.accounts)));
+    }
+    return { ...plan, generatedThrough: today };
+  });
+  return { investmentPlans, pendingTransactions: [...data.pendingTransactions, ...created], added: created.length };
+};
+
+// 填入實際成交價 (與日期) 後轉成正式交易；計畫已刪除時沿用原本的股數
+export const confirmPendingTransaction = (
+  pending: Transaction,
+  plan: InvestmentPlan | undefined,
+  price: number,
+  date: string,
+  settings: AppSettings,
+  accounts: Account[]
+): Transaction | null => {
+  const source: InvestmentPlan = plan ?? {
+    id: pending.planId || '',
+    ticker: pending.ticker,
+    name: pending.name,
+    market: pending.market,
+    isETF: pending.isETF,
+    accountId: pending.accountId,
+    mode: 'shares',
+    shares: pending.shares,
+    dayOfMonth: 1,
+    startDate: pending.date
+  };
+  const result = calculatePlanBuy(source, price, settings, accounts);
+  if (!result) return null;
+  return { ...pending, date, price, shares: result.shares, fee: result.fee, tax: result.tax, totalAmount: result.total };
+};
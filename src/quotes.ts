@@ -0,0 +1,85 @@
+import { isRecord } from './backup';
+import type { MarketType, QuoteSettings } from './types';
+
+// --- 報價來源 ---
+// 所有來源都實作 QuoteProvider，一次查詢多檔，個別失敗不影響其他標的。
+
+export interface QuoteRequest {
+  ticker: string;
+  market: MarketType;
+}
+
+export interface Quote {
+  ticker: string;
+  price: number;
+  asOf: string; // ISO 時間，來源沒提供時用取得時間
+}
+
+export interface QuoteBatchResult {
+  quotes: Quote[];
+  errors: { ticker: string; message: string }[];
+}
+
+export interface QuoteProvider {
+  id: string;
+  fetchQuotes: (requests: QuoteRequest[]) => Promise<QuoteBatchResult>;
+}
+
+// 台股加上 .TW (已帶 .TW/.TWO 的上櫃代號保留原樣)；美股的類別股以 - 取代 . (BRK.B → BRK-B)
+export const toQuoteSymbol = (ticker: string, market: MarketType) => {
+  const t = ticker.trim().toUpperCase();
+  if (market === 'TW') return /\.TWO?$/.test(t) ? t : `${t}.TW`;
+  return t.replace(/\./g, '-');
+};
+
+const toIsoTime = (value: unknown, fallback: string) => {
+  if (typeof value === 'number' && isFinite(value)) return new Date(value < 1e12 ? value * 1000 : value).toISOString();
+  if (typeof value === 'string' && !isNaN(Date.parse(value))) return new Date(value).toISOString();
+  return fallback;
+};
+
+// 接受 { quotes: {...} } 或直接以代號為 key 的物件；值可以是數字或 { price, time }
+export const parseQuotePayload = (payload: unknown, requests: QuoteRequest[], fetchedAt: string): QuoteBatchResult => {
+  const table = isRecord(payload) && isRecord(payload.quotes) ? payload.quotes : payload;
+  const result: QuoteBatchResult = { quotes: [], errors: [] };
+  if (!isRecord(table)) {
+    requests.forEach(r => result.errors.push({ ticker: r.ticker, message: '回應格式錯誤' }));
+    return result;
+  }
+
+  requests.forEach(r => {
+    const entry = table[toQuoteSymbol(r.ticker, r.market)] ?? table[r.ticker];
+    const price = typeof entry === 'number' ? entry : isRecord(entry) ? Number(entry.price) : NaN;
+    if (!(price > 0)) {
+      result.errors.push({ ticker: r.ticker, message: entry === undefined ? '查無報價' : '報價無效' });
+      return;
+    }
+    result.quotes.push({ ticker: r.ticker, price, asOf: toIsoTime(isRecord(entry) ? entry.time : undefined, fetchedAt) });
+  });
+  return result;
+};
+
+// url 含 {symbols} 時代入代號清單，否則附加 ?symbols=；靜態 JSON 檔會忽略查詢參數
+export const createJsonProvider = (url: string): QuoteProvider => ({
+  id: 'json',
+  fetchQuotes: async requests => {
+    if (requests.length === 0) return { quotes: [], errors: [] };
+    const symbols = encodeURIComponent(requests.map(r => toQuoteSymbol(r.ticker, r.market)).join(','));
+    const endpoint = url.includes('{symbols}')
+      ? url.replace('{symbols}', symbols)
+      : `${url}${url.includes('?') ? '&' : '?'}symbols=${symbols}`;
+    const res = await fetch(endpoint);
+    if (!res.ok) throw new Error(`報價來源回應 HTTP ${res.status}`);
+    return parseQuotePayload(await res.json(), requests, new Date().toISOString());
+  }
+});
+
+// 手動模式沒有來源可查
+export const createQuoteProvider = (settings: QuoteSettings): QuoteProvider | null =>
+  settings.provider === 'json' && settings.url.trim() ? createJsonProvider(settings.url.trim()) : null;
+
+export const isPriceStale = (updatedAt: string | undefined, staleHours: number, now: number) =>
+  !updatedAt || now - Date.parse(updatedAt) > staleHours * 60 * 60 * 1000;
+
+export const formatUpdatedAt = (updatedAt: string | undefined) =>
+  updatedAt ? new Date(updatedAt).toLocaleString('zh-TW', { month: '2-digit', day: '2-digit', hour: '2-digit', minute: '2-digit', hour12: false }) : '從未更新';
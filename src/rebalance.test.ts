@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { buildRebalancePlan } from './rebalance';
+import type { RebalanceCandidate } from './rebalance';
+import { DEFAULT_REBALANCE_SETTINGS, DEFAULT_SETTINGS } from './settings';
+import type { RebalanceSettings } from './types';
+
+const candidate = (ticker: string, shares: number, market: RebalanceCandidate['market'] = 'TW'): RebalanceCandidate =>
+  ({ ticker, name: ticker, market, isETF: ticker.startsWith('00'), shares });
+
+const plan = (candidates: RebalanceCandidate[], prices: Record<string, number>, options: Partial<RebalanceSettings>) =>
+  buildRebalancePlan(candidates, prices, 30, candidates[0].market === 'TW' ? 'TWD' : 'USD', DEFAULT_SETTINGS, { ...DEFAULT_REBALANCE_SETTINGS, ...options });
+
+const sharesOf = (result: ReturnType<typeof plan>) => Object.fromEntries(result.proposals.map(p => [p.ticker, p.type === 'sell' ? -p.shares : p.shares]));
+
+describe('buildRebalancePlan', () => {
+  // 2330 市值 150 萬、0050 市值 45 萬，目標各半：各需調整 52.5 萬
+  const candidates = [candidate('2330', 3000), candidate('0050', 3000)];
+  const prices = { '2330': 500, '0050': 150 };
+  const tickerTargets = { '2330': 50, '0050': 50 };
+
+  it('台股整張模式四捨五入到 1000 股', () => {
+    expect(sharesOf(plan(candidates, prices, { tickerTargets, twLotMode: 'board' }))).toEqual({ '2330': -1000, '0050': 4000 });
+  });
+
+  it('台股零股模式以 1 股為單位', () => {
+    expect(sharesOf(plan(candidates, prices, { tickerTargets, twLotMode: 'odd' }))).toEqual({ '2330': -1050, '0050': 3500 });
+  });
+
+  it('進位後的賣出股數不超過持股', () => {
+    const result = plan([candidate('2330', 600), candidate('0050', 3000)], { '2330': 500, '0050': 100 }, { tickerTargets: { '2330': 0, '0050': 100 }, twLotMode: 'board' });
+    expect(sharesOf(result)).toEqual({ '2330': -600, '0050': 3000 });
+  });
+
+  it('美股依設定取整股或保留四位小數股', () => {
+    const us = [candidate('AAPL', 10, 'US'), candidate('MSFT', 10, 'US')];
+    const usPrices = { AAPL: 200, MSFT: 300 };
+    const targets = { AAPL: 50, MSFT: 50 };
+    expect(sharesOf(plan(us, usPrices, { tickerTargets: targets, usFractional: false }))).toEqual({ AAPL: 3, MSFT: -2 });
+    expect(sharesOf(plan(us, usPrices, { tickerTargets: targets, usFractional: true }))).toEqual({ AAPL: 2.5, MSFT: -1.6667 });
+  });
+
+  it('偏離未達門檻時不調整', () => {
+    const result = plan(candidates, prices, { tickerTargets: { '2330': 76, '0050': 24 }, driftThreshold: 2 });
+    expect(result.proposals).toEqual([]);
+    expect(result.rows.map(row => Math.round(row.drift * 10) / 10)).toEqual([0.9, -0.9]);
+  });
+});
@@ -0,0 +1,171 @@
+import { calculateTransactionAmount, getCurrency } from './ledger';
+import { getConversionFactor } from './fx';
+import { TW_BOARD_LOT } from './settings';
+import type { AppSettings, CurrencyType, Holding, MarketType, RebalanceSettings, Transaction } from './types';
+
+// --- 再平衡 ---
+// 依目標權重計算偏離與建議買賣。權重以市價 (股價 × 股數) 換算基準幣別計算，
+// 只有設定了目標的代號或市場參與再平衡，其餘持股不動；目標合計不等於 100% 時依比例換算。
+
+export interface RebalanceCandidate {
+  ticker: string;
+  name: string;
+  market: MarketType;
+  isETF: boolean;
+  isBondETF?: boolean;
+  shares: number;
+}
+
+export interface RebalanceRow {
+  key: string; // 代號或市場
+  label: string;
+  currentValue: number; // 基準幣別
+  currentWeight: number; // %
+  targetWeight: number; // % (已依目標合計換算)
+  drift: number; // 百分點，正數代表超配
+  afterWeight: number;
+}
+
+export interface RebalanceProposal {
+  ticker: string;
+  name: string;
+  market: MarketType;
+  currency: CurrencyType;
+  isETF: boolean;
+  isBondETF?: boolean;
+  type: 'buy' | 'sell';
+  shares: number;
+  price: number;
+  fee: number;
+  tax: number;
+  total: number; // 原幣別交割金額
+}
+
+export interface RebalancePlan {
+  rows: RebalanceRow[];
+  proposals: RebalanceProposal[];
+  poolValue: number;
+  // 各幣別淨現金流：賣出收入 - 買進支出
+  netCash: Partial<Record<CurrencyType, number>>;
+  totalCosts: Partial<Record<CurrencyType, number>>;
+  warnings: string[];
+}
+
+const MARKET_LABELS: Record<MarketType, string> = { TW: '台股', US: '美股' };
+
+const roundShares = (market: MarketType, shares: number, options: RebalanceSettings) => {
+  if (market === 'TW') {
+    return options.twLotMode === 'board' ? Math.round(shares / TW_BOARD_LOT) * TW_BOARD_LOT : Math.round(shares);
+  }
+  return options.usFractional ? Math.round(shares * 10000) / 10000 : Math.round(shares);
+};
+
+export const buildRebalancePlan = (
+  candidates: RebalanceCandidate[],
+  prices: Record<string, number>,
+  usdTwd: number,
+  baseCurrency: CurrencyType,
+  settings: AppSettings,
+  options: RebalanceSettings
+): RebalancePlan => {
+  const warnings: string[] = [];
+  const toBase = (market: MarketType) => getConversionFactor(getCurrency(market), baseCurrency, usdTwd);
+  const valueOf = (c: RebalanceCandidate) => c.shares * (prices[c.ticker] || 0) * toBase(c.market);
+
+  const rawTargets: Record<string, number> = options.scope === 'ticker' ? options.tickerTargets : options.marketTargets;
+  const targetKeys = Object.keys(rawTargets).filter(k => rawTargets[k] >= 0);
+  const targetSum = targetKeys.reduce((sum, k) => sum + rawTargets[k], 0);
+  if (targetKeys.length === 0 || targetSum <= 0) {
+    return { rows: [], proposals: [], poolValue: 0, netCash: {}, totalCosts: {}, warnings: ['尚未設定目標權重'] };
+  }
+  if (Math.abs(targetSum - 100) > 0.01) warnings.push(`目標合計 ${targetSum.toFixed(1)}%，已依比例換算為 100%`);
+
+  const keyOf = (c: RebalanceCandidate) => (options.scope === 'ticker' ? c.ticker : c.market);
+  const members = candidates.filter(c => targetKeys.includes(keyOf(c)));
+  members.filter(c => !(prices[c.ticker] > 0)).forEach(c => warnings.push(`${c.ticker} 沒有現價，無法計算`));
+  const priced = members.filter(c => prices[c.ticker] > 0);
+  const poolValue = priced.reduce((sum, c) => sum + valueOf(c), 0);
+
+  // 每個目標群組要增減的基準幣別金額，再依群組內現有市值比例分配到各代號
+  const proposals: RebalanceProposal[] = [];
+  const afterValues: Record<string, number> = {};
+  const rows = targetKeys.map((key): RebalanceRow => {
+    const group = priced.filter(c => keyOf(c) === key);
+    const currentValue = group.reduce((sum, c) => sum + valueOf(c), 0);
+    const targetWeight = (rawTargets[key] / targetSum) * 100;
+    const currentWeight = poolValue > 0 ? (currentValue / poolValue) * 100 : 0;
+    const drift = currentWeight - targetWeight;
+    afterValues[key] = currentValue;
+
+    if (group.length === 0) {
+      if (targetWeight > 0) warnings.push(options.scope === 'ticker' ? `${key} 沒有現價或代號資料，請先加入觀察清單並輸入現價` : `${MARKET_LABELS[key as MarketType]} 目前沒有持股可分配`);
+    } else if (Math.abs(drift) >= options.driftThreshold) {
+      const delta = (poolValue * targetWeight) / 100 - currentValue;
+      group.forEach(c => {
+        const share = currentValue > 0 ? valueOf(c) / currentValue : 1 / group.length;
+        const price = prices[c.ticker];
+        let shares = roundShares(c.market, (delta * share) / toBase(c.market) / price, options);
+        if (shares < 0) shares = Math.max(shares, -c.shares);
+        if (shares === 0) return;
+        const type = shares > 0 ? 'buy' : 'sell';
+        const amount = calculateTransactionAmount(type, c.market, price, Math.abs(shares), c.isETF, settings, { isBondETF: c.isBondETF });
+        proposals.push({
+          ticker: c.ticker,
+          name: c.name,
+          market: c.market,
+          currency: getCurrency(c.market),
+          isETF: c.isETF,
+          ...(c.isBondETF ? { isBondETF: true } : {}),
+          type,
+          shares: Math.abs(shares),
+          price,
+          fee: amount.fee,
+          tax: amount.tax,
+          total: amount.total
+        });
+        afterValues[key] += shares * price * toBase(c.market);
+      });
+    }
+
+    return { key, label: options.scope === 'ticker' ? key : MARKET_LABELS[key as MarketType], currentValue, currentWeight, targetWeight, drift, afterWeight: 0 };
+  });
+
+  const afterTotal = Object.values(afterValues).reduce((sum, v) => sum + v, 0);
+  rows.forEach(row => { row.afterWeight = afterTotal > 0 ? (afterValues[row.key] / afterTotal) * 100 : 0; });
+
+  const netCash: Partial<Record<CurrencyType, number>> = {};
+  const totalCosts: Partial<Record<CurrencyType, number>> = {};
+  proposals.forEach(p => {
+    netCash[p.currency] = (netCash[p.currency] || 0) + (p.type === 'sell' ? p.total : -p.total);
+    totalCosts[p.currency] = (totalCosts[p.currency] || 0) + p.fee + p.tax;
+  });
+
+  return { rows, proposals, poolValue, netCash, totalCosts, warnings };
+};
+
+// 確認後的建議轉成一般交易紀錄，費用依公式估算
+export const proposalToTransaction = (p: RebalanceProposal, id: string, date: string, accountId: string): Transaction => ({
+  id,
+  date,
+  ticker: p.ticker,
+  name: p.name,
+  type: p.type,
+  market: p.market,
+  price: p.price,
+  shares: p.shares,
+  isETF: p.isETF,
+  ...(p.isBondETF ? { isBondETF: true } : {}),
+  fee: p.fee,
+  tax: p.tax,
+  totalAmount: p.total,
+  accountId
+});
+
+export const holdingToCandidate = (h: Holding): RebalanceCandidate => ({
+  ticker: h.ticker,
+  name: h.name,
+  market: h.market,
+  isETF: h.isETF,
+  isBondETF: h.isBondETF,
+  shares: h.shares
+});
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { accrueInterest } from './credit';
+import { calculateTransactionAmount } from './ledger';
+import { computeReturns } from './returns';
+import { DEFAULT_SETTINGS } from './settings';
+import type { Transaction, TransactionType } from './types';
+
+const usTrade = (id: string, type: TransactionType, date: string, price: number, shares: number, extra: Partial<Transaction> = {}): Transaction => {
+  const { fee, tax, total } = calculateTransactionAmount(type, 'US', price, shares, false, DEFAULT_SETTINGS);
+  return { id, date, ticker: 'TSLA', name: 'Tesla', type, market: 'US', price, shares, isETF: false, fee, tax, totalAmount: total, ...extra };
+};
+
+const twTrade = (id: string, type: TransactionType, date: string, price: number, shares: number, extra: Partial<Transaction> = {}): Transaction => {
+  const { fee, tax, total } = calculateTransactionAmount(type, 'TW', price, shares, false, DEFAULT_SETTINGS);
+  return { id, date, ticker: '2330', name: '台積電', type, market: 'TW', price, shares, isETF: false, fee, tax, totalAmount: total, ...extra };
+};
+
+describe('computeReturns', () => {
+  it('融資買進只以自備款為投入，持有期間以扣除借款的淨值計算', () => {
+    const buy = twTrade('m1', 'buy', '2024-01-02', 50, 1000, { credit: 'margin', loanAmount: 30000 });
+    const result = computeReturns([buy], DEFAULT_SETTINGS, { '2330': 60 }, '2024-01-02', '2024-06-30');
+
+    expect(result.netInflow).toBeCloseTo(buy.totalAmount - 30000);
+    expect(result.endValue).toBeCloseTo(calculateTransactionAmount('sell', 'TW', 60, 1000, false, DEFAULT_SETTINGS).total - 30000);
+    expect(result.profit).toBeCloseTo(result.endValue - result.netInflow);
+  });
+
+  it('融資賣出後領回償還借款與利息後的餘額', () => {
+    const buy = twTrade('m1', 'buy', '2024-01-02', 50, 1000, { credit: 'margin', loanAmount: 30000 });
+    const sell = twTrade('m2', 'sell', '2024-03-01', 60, 1000, { credit: 'margin' });
+    const result = computeReturns([buy, sell], DEFAULT_SETTINGS, { '2330': 60 }, '2024-01-02', '2024-06-30');
+
+    const interest = accrueInterest(30000, DEFAULT_SETTINGS.twMarginInterestRate, buy.date, sell.date);
+    expect(result.endValue).toBeCloseTo(0);
+    expect(result.netInflow).toBeCloseTo(buy.totalAmount - 30000 - (sell.totalAmount - interest - 30000));
+    expect(result.profit).toBeCloseTo(sell.totalAmount - buy.totalAmount - interest);
+  });
+
+  it('融券以保證金為投入，價格不變時只虧損費用', () => {
+    const short = usTrade('s1', 'sell', '2024-01-02', 200, 10, { credit: 'short', loanAmount: 1000 });
+    const result = computeReturns([short], DEFAULT_SETTINGS, { TSLA: 200 }, '2024-01-02', '2024-06-30');
+
+    expect(result.netInflow).toBeCloseTo(1000);
+    expect(result.profit).toBeLessThan(0);
+    expect(result.profit).toBeGreaterThan(-10);
+    expect(result.twr).toBeCloseTo(result.profit / 1000, 2);
+  });
+
+  it('融券回補後領回保證金與損益 (扣除美股借券利息)', () => {
+    const short = usTrade('s1', 'sell', '2024-01-02', 200, 10, { credit: 'short', loanAmount: 1000 });
+    const cover = usTrade('c1', 'buy', '2024-03-01', 150, 10, { credit: 'short' });
+    const result = computeReturns([short, cover], DEFAULT_SETTINGS, { TSLA: 150 }, '2024-01-02', '2024-06-30');
+
+    expect(result.endValue).toBeCloseTo(0);
+    const borrowInterest = accrueInterest(short.totalAmount, DEFAULT_SETTINGS.usShortBorrowRate, short.date, cover.date);
+    expect(result.profit).toBeCloseTo(short.totalAmount - cover.totalAmount - borrowInterest);
+  });
+});
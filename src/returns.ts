@@ -0,0 +1,245 @@
+import { buildLedger, getAccountId, getCurrency, sortTransactionsByDate } from './ledger';
+import type { LedgerOptions } from './ledger';
+import { getConversionFactor, getUsdTwdRate } from './fx';
+import { getShortEquity } from './credit';
+import type { AppSettings, CurrencyType, FxRate, MarketType, Transaction } from './types';
+
+// --- 報酬率：資金加權 (XIRR) 與時間加權 (TWR) ---
+// 現金流以投資人角度記號：買進為流出 (負)、賣出/股利/減資退款為流入 (正)，期末市值視為最後一筆流入。
+// 融券以自備保證金為投入、部位以保證金加未實現損益計值，與現金帳相同。
+// 歷史市值以當時最後一筆成交價估算，期末以目前現價計。
+
+export type ReturnPeriod = 'ytd' | '1y' | 'inception';
+
+export const RETURN_PERIOD_LABELS: Record<ReturnPeriod, string> = {
+  ytd: '今年以來',
+  '1y': '近一年',
+  inception: '成立以來'
+};
+
+export interface ReturnResult {
+  start: string;
+  end: string;
+  days: number;
+  startValue: number;
+  endValue: number;
+  netInflow: number; // 期間內投入 - 取回
+  profit: number;
+  xirr: number | null; // 年化
+  twr: number | null; // 期間累積
+  twrAnnualized: number | null;
+}
+
+export interface TickerReturn {
+  ticker: string;
+  name: string;
+  market: MarketType;
+  currency: CurrencyType;
+  result: ReturnResult;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const EPSILON = 0.000001;
+
+const daysBetween = (from: string, to: string) => Math.round((Date.parse(to) - Date.parse(from)) / DAY_MS);
+
+export const getPeriodStart = (period: ReturnPeriod, today: string, firstDate: string) => {
+  if (period === 'ytd') return `${today.slice(0, 4)}-01-01`;
+  if (period === '1y') {
+    const d = new Date(`${today}T00:00:00Z`);
+    d.setUTCFullYear(d.getUTCFullYear() - 1);
+    return d.toISOString().split('T')[0];
+  }
+  return firstDate;
+};
+
+// 投資人角度的現金流；看單一帳戶時，轉出/轉入以移轉時參考市價視為取回/投入。
+// 融資與融券的買賣沿用帳務引擎的現金增減 (融資只計自備款與償還借款後的餘額；融券為繳交保證金、領回保證金與損益)
+const investorFlow = (t: Transaction, accountId: string | null | undefined, cashFlows: Record<string, number>) => {
+  if (t.type === 'transfer') {
+    if (!accountId) return 0;
+    if (getAccountId(t) === accountId) return t.price * t.shares;
+    if (t.toAccountId === accountId) return -t.price * t.shares;
+    return 0;
+  }
+  if (accountId && getAccountId(t) !== accountId) return 0;
+  if ((t.credit === 'short' || t.credit === 'margin') && (t.type === 'sell' || t.type === 'buy')) return cashFlows[t.id] || 0;
+  switch (t.type) {
+    case 'buy': return -t.totalAmount;
+    case 'sell':
+    case 'dividend':
+    case 'capitalReduction': return t.totalAmount;
+    default: return 0;
+  }
+};
+
+// 牛頓法求解，失敗時改用二分法
+export const xirr = (flows: { date: string; amount: number }[]): number | null => {
+  if (!flows.some(f => f.amount > 0) || !flows.some(f => f.amount < 0)) return null;
+  const t0 = flows[0].date;
+  const years = flows.map(f => daysBetween(t0, f.date) / 365);
+  const npv = (rate: number) => flows.reduce((sum, f, i) => sum + f.amount / Math.pow(1 + rate, years[i]), 0);
+  const dnpv = (rate: number) => flows.reduce((sum, f, i) => sum - (years[i] * f.amount) / Math.pow(1 + rate, years[i] + 1), 0);
+
+  let rate = 0.1;
+  for (let i = 0; i < 100; i++) {
+    const value = npv(rate);
+    const slope = dnpv(rate);
+    if (Math.abs(value) < 1e-7) return rate;
+    if (!isFinite(slope) || slope === 0) break;
+    const next = rate - value / slope;
+    if (!isFinite(next) || next <= -1) break;
+    if (Math.abs(next - rate) < 1e-10) return next;
+    rate = next;
+  }
+
+  let lo = -0.9999;
+  let hi = 10;
+  while (npv(hi) > 0 && hi < 1e6) hi *= 10;
+  if (Math.sign(npv(lo)) === Math.sign(npv(hi))) return null;
+  for (let i = 0; i < 200; i++) {
+    const mid = (lo + hi) / 2;
+    if (Math.sign(npv(mid)) === Math.sign(npv(lo))) lo = mid;
+    else hi = mid;
+  }
+  return (lo + hi) / 2;
+};
+
+const annualize = (cumulative: number, days: number) =>
+  days > 0 && cumulative > -1 ? Math.pow(1 + cumulative, 365 / days) - 1 : null;
+
+// convert 回傳指定幣別在某日換算為報表幣別的匯率
+export const computeReturns = (
+  transactions: Transaction[],
+  settings: AppSettings,
+  prices: Record<string, number>,
+  start: string,
+  end: string,
+  convert: (currency: CurrencyType, date: string | null) => number = () => 1,
+  options: LedgerOptions = {}
+): ReturnResult => {
+  const sorted = sortTransactionsByDate(transactions).filter(t => t.date <= end);
+  const lastPrices: Record<string, number> = {};
+  let cursor = 0;
+
+  // 依日期推進參考價 (與圖表走勢相同：成交價，遇分割/減資依比例換算)
+  const advanceTo = (date: string, inclusive: boolean) => {
+    while (cursor < sorted.length && (inclusive ? sorted[cursor].date <= date : sorted[cursor].date < date)) {
+      const t = sorted[cursor];
+      if (t.type === 'buy' || t.type === 'sell') lastPrices[t.ticker] = t.price;
+      else if ((t.type === 'split' || t.type === 'capitalReduction') && t.ratio && lastPrices[t.ticker]) lastPrices[t.ticker] /= t.ratio;
+      cursor++;
+    }
+  };
+
+  const { cashFlows } = buildLedger(sorted, settings, {}, options);
+
+  const valueOf = (upTo: Transaction[], marks: Record<string, number>, date: string | null) => {
+    const { holdings, shorts } = buildLedger(upTo, settings, marks, options);
+    // 融資部位以扣除借款後的淨值計算，與只計自備款的投入一致
+    return holdings.reduce((sum, h) => sum + (h.marketValue - h.loanBalance) * convert(getCurrency(h.market), date), 0) +
+      shorts.reduce((sum, s) => sum + getShortEquity(s) * convert(s.currency, date), 0);
+  };
+
+  advanceTo(start, false);
+  const startValue = valueOf(sorted.slice(0, cursor), { ...lastPrices }, start);
+
+  const flows: { date: string; amount: number }[] = [];
+  if (startValue > EPSILON) flows.push({ date: start, amount: -startValue });
+
+  let twrGrowth = 1;
+  let hasTwr = false;
+  let prevValue = startValue;
+  let netInflow = 0;
+
+  const inPeriod = sorted.filter(t => t.date >= start);
+  const dates = [...new Set(inPeriod.map(t => t.date))];
+  dates.forEach(date => {
+    advanceTo(date, true);
+    const dayFlow = inPeriod
+      .filter(t => t.date === date)
+      .reduce((sum, t) => sum + investorFlow(t, options.accountId, cashFlows) * convert(getCurrency(t.market), t.date), 0);
+    if (Math.abs(dayFlow) > EPSILON) flows.push({ date, amount: dayFlow });
+    netInflow -= dayFlow;
+
+    // 子期間報酬 = (當日收盤市值 + 當日取回 - 當日投入) / 前一子期間期末市值
+    const value = valueOf(sorted.slice(0, cursor), { ...lastPrices }, date);
+    if (prevValue > EPSILON) {
+      twrGrowth *= (value + dayFlow) / prevValue;
+      hasTwr = true;
+    }
+    prevValue = value;
+  });
+
+  advanceTo(end, true);
+  const endValue = valueOf(sorted, { ...lastPrices, ...prices }, null);
+  if (prevValue > EPSILON) {
+    twrGrowth *= endValue / prevValue;
+    hasTwr = true;
+  }
+  if (endValue > EPSILON) flows.push({ date: end, amount: endValue });
+
+  const days = daysBetween(start, end);
+  const twr = hasTwr ? twrGrowth - 1 : null;
+
+  return {
+    start,
+    end,
+    days,
+    startValue,
+    endValue,
+    netInflow,
+    profit: endValue - startValue - netInflow,
+    xirr: xirr(flows),
+    twr,
+    twrAnnualized: twr === null ? null : annualize(twr, days)
+  };
+};
+
+// 全投組以基準幣別計、各市場以原幣別計、各標的以原幣別計
+export const buildReturnReport = (
+  transactions: Transaction[],
+  settings: AppSettings,
+  prices: Record<string, number>,
+  rates: FxRate[],
+  baseCurrency: CurrencyType,
+  period: ReturnPeriod,
+  today: string,
+  options: LedgerOptions = {}
+) => {
+  if (transactions.length === 0) return null;
+  const firstDate = sortTransactionsByDate(transactions)[0].date;
+  const start = getPeriodStart(period, today, firstDate);
+  const toBase = (currency: CurrencyType, date: string | null) =>
+    getConversionFactor(currency, baseCurrency, (date ? getUsdTwdRate(rates, date) : getUsdTwdRate(rates)) ?? 1);
+
+  const portfolio = computeReturns(transactions, settings, prices, start, today, toBase, options);
+
+  const markets = (['TW', 'US'] as MarketType[])
+    .map(market => {
+      const scoped = transactions.filter(t => t.market === market);
+      if (scoped.length === 0) return null;
+      return { market, currency: getCurrency(market), result: computeReturns(scoped, settings, prices, start, today, undefined, options) };
+    })
+    .filter((m): m is { market: MarketType; currency: CurrencyType; result: ReturnResult } => m !== null);
+
+  const tickers: TickerReturn[] = [...new Set(transactions.map(t => t.ticker))]
+    .map(ticker => {
+      const scoped = transactions.filter(t => t.ticker === ticker);
+      const latest = scoped[scoped.length - 1];
+      return {
+        ticker,
+        name: latest.name,
+        market: latest.market,
+        currency: getCurrency(latest.market),
+        result: computeReturns(scoped, settings, prices, start, today, undefined, options)
+      };
+    })
+    // 期間內沒有部位也沒有交易的標的不列出
+    .filter(r => r.result.startValue > EPSILON || r.result.endValue > EPSILON || Math.abs(r.result.netInflow) > EPSILON || Math.abs(r.result.profit) > EPSILON)
+    .sort((a, b) => b.result.endValue - a.result.endValue);
+
+  return { start, end: today, portfolio, markets, tickers };
+};
+
+export type ReturnReport = NonNullable<ReturnType<typeof buildReturnReport>>;
@@ -0,0 +1,104 @@
+import type { Account, AlertSettings, AppSettings, RebalanceSettings, CostBasisMethod, FeeProfile, QuoteProviderId, QuoteSettings, TransactionType, VisualSettings } from './types';
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  twFeeRate: 0.001425,
+  twDiscount: 0.6,
+  twTaxRateStock: 0.003,
+  twTaxRateETF: 0.001,
+  twMinFee: 20,
+  twOddLotMinFee: 1,
+  twDayTradeTaxRate: 0.0015,
+  twCostBasis: 'average',
+  twDividendNhiRate: 0.0211,
+  usFeeRate: 0.001,
+  usMinFee: 0,
+  usTaxRate: 0.000008,
+  usCostBasis: 'average',
+  usDividendWithholdingRate: 0.3,
+  twPlanMinFee: 1,
+  usPlanMinFee: 0,
+  twMarginLoanRatio: 0.6,
+  twShortMarginRatio: 0.9,
+  twMarginInterestRate: 0.0645,
+  twShortFeeRate: 0.0008,
+  twMaintenanceRatio: 1.3,
+  usMarginLoanRatio: 0.5,
+  usShortMarginRatio: 0.5,
+  usMarginInterestRate: 0.08,
+  usShortBorrowRate: 0.03,
+  // 美股維持保證金 25% 換算為市值 / 借款
+  usMaintenanceRatio: 1.3333,
+  baseCurrency: 'TWD'
+};
+
+export const DEFAULT_VISUAL_SETTINGS: VisualSettings = {
+  darkMode: true,
+  density: 'normal'
+};
+
+// 預設只用手動現價；本機開發時可切換到 json 並使用內建的模擬報價端點
+export const DEFAULT_QUOTE_SETTINGS: QuoteSettings = {
+  provider: 'manual',
+  url: '/mock-quotes',
+  staleHours: 24
+};
+
+export const DEFAULT_ALERT_SETTINGS: AlertSettings = {
+  browserNotifications: false,
+  acknowledged: []
+};
+
+export const DEFAULT_REBALANCE_SETTINGS: RebalanceSettings = {
+  scope: 'ticker',
+  tickerTargets: {},
+  marketTargets: {},
+  twLotMode: 'board',
+  usFractional: false,
+  driftThreshold: 1
+};
+
+export const QUOTE_PROVIDER_LABELS: Record<QuoteProviderId, string> = {
+  manual: '手動輸入',
+  json: 'JSON / HTTP 端點'
+};
+
+export const COST_BASIS_LABELS: Record<CostBasisMethod, string> = {
+  average: '移動平均',
+  fifo: '先進先出 (FIFO)',
+  lifo: '後進先出 (LIFO)',
+  specific: '指定批次'
+};
+
+export const TRANSACTION_TYPE_LABELS: Record<TransactionType, string> = {
+  buy: '買進',
+  sell: '賣出',
+  dividend: '現金股利',
+  stockDividend: '配股',
+  split: '分割',
+  capitalReduction: '減資',
+  transfer: '轉帳'
+};
+
+export const DEFAULT_ACCOUNT_ID = 'default';
+
+export const DEFAULT_ACCOUNT: Account = { id: DEFAULT_ACCOUNT_ID, name: '預設帳戶', fees: {} };
+
+// 帳戶設定頁可個別覆寫的費率欄位
+export const FEE_PROFILE_FIELDS: { key: keyof FeeProfile; label: string; market: 'TW' | 'US'; step: string }[] = [
+  { key: 'twFeeRate', label: '手續費率', market: 'TW', step: '0.000001' },
+  { key: 'twDiscount', label: '手續費折扣', market: 'TW', step: '0.01' },
+  { key: 'twMinFee', label: '最低手續費', market: 'TW', step: '1' },
+  { key: 'twOddLotMinFee', label: '零股最低手續費', market: 'TW', step: '1' },
+  { key: 'twPlanMinFee', label: '定期定額最低手續費', market: 'TW', step: '1' },
+  { key: 'twMarginInterestRate', label: '融資年利率', market: 'TW', step: '0.0001' },
+  { key: 'usFeeRate', label: '手續費率', market: 'US', step: '0.0001' },
+  { key: 'usMinFee', label: '最低手續費', market: 'US', step: '0.01' },
+  { key: 'usPlanMinFee', label: '定期定額最低手續費', market: 'US', step: '0.01' },
+  { key: 'usMarginInterestRate', label: '融資年利率', market: 'US', step: '0.0001' }
+];
+
+// 台股一張 = 1000 股
+export const TW_BOARD_LOT = 1000;
+
+// 二代健保補充保費：單次股利達此金額才扣繳
+export const TW_NHI_THRESHOLD = 20000;
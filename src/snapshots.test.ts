@@ -0,0 +1,13 @@
+import { describe, expect, it } from 'vitest';
+import { dateKeyToTimestamp, getLocalDateKey, toDateKey } from './snapshots';
+
+describe('日期鍵', () => {
+  it('以當地日期為準，清晨的時間不會算成前一天', () => {
+    expect(getLocalDateKey(new Date(2024, 0, 5, 7, 30))).toBe('2024-01-05');
+    expect(toDateKey(new Date(2024, 0, 5, 0, 15).toISOString())).toBe('2024-01-05');
+  });
+
+  it('交易日轉成時間戳記再轉回仍是同一天', () => {
+    expect(toDateKey(dateKeyToTimestamp('2024-03-01'))).toBe('2024-03-01');
+  });
+});
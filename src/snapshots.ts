@@ -0,0 +1,122 @@
+import { buildLedger, sortTransactionsByDate } from './ledger';
+import type { LedgerOptions } from './ledger';
+import type { AppSettings, Holding, PortfolioSnapshot, PricePoint, SnapshotHolding, Transaction } from './types';
+
+// --- 價格歷史與每日快照 ---
+// manualPrices 只保留最新價；這裡另外保存每檔每天的價格與持股快照，用來回推過去某天的持股與漲跌。
+
+const EPSILON = 0.000001;
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+// 日期鍵一律用使用者當地日期；toISOString 是 UTC，台灣早上 8 點前會算成前一天
+export const getLocalDateKey = (date: Date = new Date()) => `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+export const toDateKey = (iso: string) => getLocalDateKey(new Date(iso));
+
+// 交易日 (YYYY-MM-DD) 當地午夜的時間戳記，轉回日期鍵時仍是同一天
+export const dateKeyToTimestamp = (date: string) => new Date(`${date}T00:00:00`).toISOString();
+
+// 同一天重複更新只保留最後一筆
+export const recordPrices = (
+  history: Record<string, PricePoint[]>,
+  prices: Record<string, number>,
+  date: string
+): Record<string, PricePoint[]> => {
+  const next = { ...history };
+  Object.entries(prices).forEach(([ticker, price]) => {
+    if (!(price > 0)) return;
+    const points = (next[ticker] || []).filter(p => p.date !== date);
+    next[ticker] = [...points, { date, price }].sort((a, b) => a.date.localeCompare(b.date));
+  });
+  return next;
+};
+
+// 指定日期當天或之前最近一筆價格
+export const getPriceOn = (history: Record<string, PricePoint[]>, ticker: string, date: string): PricePoint | null => {
+  let found: PricePoint | null = null;
+  for (const p of history[ticker] || []) {
+    if (p.date > date) break;
+    found = p;
+  }
+  return found;
+};
+
+const shiftDate = (date: string, days: number) => {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().split('T')[0];
+};
+
+export interface PriceChange {
+  since: string; // 比較基準價的日期
+  change: number; // 每股漲跌
+  pct: number;
+  valueChange: number; // 以目前股數計的市值變動
+}
+
+// 日變動：與今天之前最近一筆比較；週變動：與 7 天前 (或之前最近一筆) 比較
+export const getPriceChange = (
+  history: Record<string, PricePoint[]>,
+  holding: Holding,
+  currentPrice: number,
+  date: string,
+  days: number
+): PriceChange | null => {
+  const base = getPriceOn(history, holding.ticker, shiftDate(date, -days));
+  if (!base || !(currentPrice > 0)) return null;
+  const change = currentPrice - base.price;
+  return { since: base.date, change, pct: (change / base.price) * 100, valueChange: change * holding.shares };
+};
+
+// 以過去某天為止的交易重建持股；價格取當天或之前最近的歷史價，沒有時用當時最後成交價
+export const buildHoldingsAsOf = (
+  transactions: Transaction[],
+  settings: AppSettings,
+  history: Record<string, PricePoint[]>,
+  date: string,
+  options: LedgerOptions = {}
+) => {
+  const upTo = sortTransactionsByDate(transactions).filter(t => t.date <= date);
+  const marks: Record<string, number> = {};
+  upTo.forEach(t => {
+    if (t.type === 'buy' || t.type === 'sell') marks[t.ticker] = t.price;
+    else if ((t.type === 'split' || t.type === 'capitalReduction') && t.ratio && marks[t.ticker]) marks[t.ticker] /= t.ratio;
+  });
+  Object.keys(marks).forEach(ticker => {
+    const point = getPriceOn(history, ticker, date);
+    const lastTrade = upTo.filter(t => t.ticker === ticker).pop();
+    // 歷史價比最後一筆交易新才採用，避免分割前的舊價覆蓋換算後的成交價
+    if (point && (!lastTrade || point.date >= lastTrade.date)) marks[ticker] = point.price;
+  });
+  return { ...buildLedger(upTo, settings, marks, options), prices: marks };
+};
+
+export const takeSnapshot = (date: string, holdings: Holding[], prices: Record<string, number>): PortfolioSnapshot => ({
+  date,
+  holdings: holdings.map((h): SnapshotHolding => ({
+    ticker: h.ticker,
+    market: h.market,
+    shares: h.shares,
+    price: prices[h.ticker] || 0,
+    marketValue: h.marketValue,
+    totalCost: h.totalCost,
+    unrealizedPL: h.unrealizedPL
+  }))
+});
+
+const sameSnapshot = (a: PortfolioSnapshot, b: PortfolioSnapshot) =>
+  a.holdings.length === b.holdings.length &&
+  a.holdings.every((h, i) => {
+    const o = b.holdings[i];
+    return h.ticker === o.ticker && Math.abs(h.shares - o.shares) < EPSILON && Math.abs(h.price - o.price) < EPSILON && Math.abs(h.totalCost - o.totalCost) < EPSILON;
+  });
+
+// 內容沒有變化時回傳原陣列，呼叫端可據此略過 state 更新
+export const upsertSnapshot = (snapshots: PortfolioSnapshot[], snapshot: PortfolioSnapshot) => {
+  const existing = snapshots.find(s => s.date === snapshot.date);
+  if (existing && sameSnapshot(existing, snapshot)) return snapshots;
+  // 從未有過持股時不需要記錄空白快照
+  if (!existing && snapshots.length === 0 && snapshot.holdings.length === 0) return snapshots;
+  return [...snapshots.filter(s => s.date !== snapshot.date), snapshot].sort((a, b) => a.date.localeCompare(b.date));
+};
@@ -0,0 +1,46 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { loadAppData, migrateData, saveAppData } from './storage';
+
+// 以 Map 模擬 localStorage；IndexedDB 以一律開啟失敗的物件模擬
+const fakeLocalStorage = (failWrites = false) => {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => {
+      if (failWrites) throw new Error('QuotaExceededError');
+      items.set(key, value);
+    },
+    removeItem: (key: string) => { items.delete(key); }
+  };
+};
+
+const brokenIndexedDB = {
+  open: () => {
+    const request: { error: Error; onerror?: () => void } = { error: new Error('IndexedDB 無法使用') };
+    setTimeout(() => request.onerror?.());
+    return request;
+  }
+};
+
+const data = migrateData(4, { transactions: [] });
+
+describe('saveAppData', () => {
+  afterEach(() => vi.unstubAllGlobals());
+
+  it('IndexedDB 寫入失敗時改存 localStorage，之後可讀回', async () => {
+    vi.stubGlobal('localStorage', fakeLocalStorage());
+    vi.stubGlobal('indexedDB', brokenIndexedDB);
+
+    const result = await saveAppData(data);
+    expect(result.fallbackReason).toContain('IndexedDB 無法使用');
+    const loaded = await loadAppData();
+    expect(loaded.status).toBe('loaded');
+  });
+
+  it('兩處都寫不進去時拋出錯誤', async () => {
+    vi.stubGlobal('localStorage', fakeLocalStorage(true));
+    vi.stubGlobal('indexedDB', brokenIndexedDB);
+
+    await expect(saveAppData(data)).rejects.toThrow(/IndexedDB.*localStorage/);
+  });
+});
@@ -0,0 +1,231 @@
+import { isRecord, validateAppData } from './backup';
+import { DEFAULT_ACCOUNT, DEFAULT_ALERT_SETTINGS, DEFAULT_QUOTE_SETTINGS, DEFAULT_REBALANCE_SETTINGS } from './settings';
+import type { AppData } from './types';
+
+// --- 本機儲存 ---
+// 主要存放於 IndexedDB，不支援或寫入失敗時退回 localStorage (讀取時取較新的一份)。
+// 每份資料都帶 schemaVersion，讀取時依序套用 migration 升級到目前版本。
+// 讀不懂的資料絕不覆寫：載入失敗時回報 unreadable，由使用者決定下載或另存後重新開始。
+
+export const SCHEMA_VERSION = 14;
+
+const DB_NAME = 'stock-tracker';
+const STORE_NAME = 'app';
+const STATE_KEY = 'state';
+const LOCAL_KEY = 'stock_tracker_data';
+const LEGACY_KEY = 'stock_tracker_data_v4';
+const UNREADABLE_PREFIX = 'unreadable-';
+
+interface StoredEnvelope {
+  schemaVersion: number;
+  savedAt: string;
+  data: unknown;
+}
+
+// 寫入 IndexedDB 失敗、改存 localStorage 時附上原因，由畫面提示使用者
+export interface SaveResult {
+  fallbackReason: string | null;
+}
+
+export type LoadResult =
+  | { status: 'empty' }
+  | { status: 'loaded'; data: AppData; migratedFrom: number | null }
+  | { status: 'unreadable'; raw: string; reason: string };
+
+type Migration = (data: Record<string, unknown>) => Record<string, unknown>;
+
+// key 為升級後的版本；每個版本只負責從上一版升一級
+const MIGRATIONS: Record<number, Migration> = {
+  // v4 (localStorage 舊格式)：早期交易沒有 market 欄位，一律視為台股
+  5: data => ({
+    ...data,
+    transactions: (Array.isArray(data.transactions) ? data.transactions : []).map(t => ({
+      ...t,
+      market: (isRecord(t) && t.market) || 'TW'
+    })),
+    fxRates: data.fxRates ?? [],
+    importPresets: data.importPresets ?? []
+  }),
+  // v6：現價加上更新時間與報價來源設定；既有現價視為從未自動更新
+  6: data => ({
+    ...data,
+    priceUpdatedAt: data.priceUpdatedAt ?? {},
+    quoteSettings: data.quoteSettings ?? DEFAULT_QUOTE_SETTINGS
+  }),
+  // v7：新增每檔價格歷史與每日持股快照
+  7: data => ({
+    ...data,
+    priceHistory: data.priceHistory ?? {},
+    snapshots: data.snapshots ?? []
+  }),
+  // v8：多帳戶；既有交易不寫入 accountId，讀取時視為預設帳戶
+  8: data => ({
+    ...data,
+    accounts: data.accounts ?? [DEFAULT_ACCOUNT]
+  }),
+  // v9：持股警示價位 (目標價、停損價、最大回檔)
+  9: data => ({
+    ...data,
+    alertLevels: data.alertLevels ?? {},
+    alertSettings: data.alertSettings ?? DEFAULT_ALERT_SETTINGS
+  }),
+  // v10：觀察清單
+  10: data => ({
+    ...data,
+    watchlist: data.watchlist ?? []
+  }),
+  // v11：再平衡目標權重
+  11: data => ({
+    ...data,
+    rebalanceSettings: data.rebalanceSettings ?? DEFAULT_REBALANCE_SETTINGS
+  }),
+  // v12：每檔筆記；交易筆記為選填欄位，不需轉換
+  12: data => ({
+    ...data,
+    tickerNotes: data.tickerNotes ?? {}
+  }),
+  // v13：現金帳 (入金、出金與換匯)
+  13: data => ({
+    ...data,
+    cashEntries: data.cashEntries ?? []
+  }),
+  // v14：定期定額計畫與待確認的扣款
+  14: data => ({
+    ...data,
+    investmentPlans: data.investmentPlans ?? [],
+    pendingTransactions: data.pendingTransactions ?? []
+  })
+};
+
+export const migrateData = (version: number, data: unknown): AppData => {
+  if (version > SCHEMA_VERSION) throw new Error(`資料版本 ${version} 比程式支援的版本 ${SCHEMA_VERSION} 新`);
+  if (!isRecord(data)) throw new Error('資料格式錯誤');
+  let current = data;
+  for (let v = version + 1; v <= SCHEMA_VERSION; v++) {
+    const migration = MIGRATIONS[v];
+    if (!migration) throw new Error(`缺少 v${v - 1} → v${v} 的轉換程序`);
+    current = migration(current);
+  }
+  const result = validateAppData(current);
+  if (!result.data) throw new Error(result.errors.slice(0, 3).join('；'));
+  return result.data;
+};
+
+// --- IndexedDB ---
+
+const hasIndexedDB = () => typeof indexedDB !== 'undefined';
+
+const openDb = () => new Promise<IDBDatabase>((resolve, reject) => {
+  const request = indexedDB.open(DB_NAME, 1);
+  request.onupgradeneeded = () => request.result.createObjectStore(STORE_NAME);
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const idbRequest = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest) => {
+  const db = await openDb();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const tx = db.transaction(STORE_NAME, mode);
+      const request = run(tx.objectStore(STORE_NAME));
+      tx.oncomplete = () => resolve(request.result as T);
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error);
+    });
+  } finally {
+    db.close();
+  }
+};
+
+const describeError = (e: unknown) => (e instanceof Error ? e.message : String(e));
+
+const savedAtOf = (raw: string) => {
+  try {
+    const parsed: unknown = JSON.parse(raw);
+    return isRecord(parsed) && typeof parsed.savedAt === 'string' ? parsed.savedAt : '';
+  } catch {
+    return '';
+  }
+};
+
+const readRaw = async (): Promise<{ raw: string; legacy: boolean } | null> => {
+  const local = localStorage.getItem(LOCAL_KEY);
+  if (hasIndexedDB()) {
+    let stored: string | undefined;
+    try {
+      stored = await idbRequest<string | undefined>('readonly', store => store.get(STATE_KEY));
+    } catch (e) {
+      // 開不了 IndexedDB 時，先前寫入失敗所留下的 localStorage 備援仍可使用
+      if (local !== null) return { raw: local, legacy: false };
+      throw e;
+    }
+    // 上次寫入 IndexedDB 失敗時，localStorage 的備援會比較新
+    if (local !== null && (stored === undefined || savedAtOf(local) > savedAtOf(stored))) return { raw: local, legacy: false };
+    if (stored !== undefined) return { raw: stored, legacy: false };
+  } else if (local !== null) {
+    return { raw: local, legacy: false };
+  }
+  const legacy = localStorage.getItem(LEGACY_KEY);
+  return legacy !== null ? { raw: legacy, legacy: true } : null;
+};
+
+const writeRaw = async (key: string, raw: string) => {
+  if (hasIndexedDB()) {
+    await idbRequest('readwrite', store => store.put(raw, key));
+  } else {
+    localStorage.setItem(key === STATE_KEY ? LOCAL_KEY : `${LOCAL_KEY}_${key}`, raw);
+  }
+};
+
+export const loadAppData = async (): Promise<LoadResult> => {
+  let source: { raw: string; legacy: boolean } | null;
+  try {
+    source = await readRaw();
+  } catch (e) {
+    return { status: 'unreadable', raw: '', reason: `無法開啟本機資料庫：${String(e)}` };
+  }
+  if (!source) return { status: 'empty' };
+
+  try {
+    const parsed: unknown = JSON.parse(source.raw);
+    // 舊版 localStorage 資料沒有外層 envelope，視為 v4
+    const envelope: StoredEnvelope = source.legacy
+      ? { schemaVersion: 4, savedAt: '', data: parsed }
+      : parsed as StoredEnvelope;
+    if (!isRecord(envelope) || typeof envelope.schemaVersion !== 'number') throw new Error('缺少 schemaVersion');
+    const data = migrateData(envelope.schemaVersion, envelope.data);
+    return { status: 'loaded', data, migratedFrom: envelope.schemaVersion < SCHEMA_VERSION ? envelope.schemaVersion : null };
+  } catch (e) {
+    return { status: 'unreadable', raw: source.raw, reason: describeError(e) };
+  }
+};
+
+// 兩處都寫不進去時拋出錯誤，由呼叫端提示使用者先匯出備份
+export const saveAppData = async (data: AppData): Promise<SaveResult> => {
+  const envelope: StoredEnvelope = { schemaVersion: SCHEMA_VERSION, savedAt: new Date().toISOString(), data };
+  const raw = JSON.stringify(envelope);
+  if (!hasIndexedDB()) {
+    await writeRaw(STATE_KEY, raw);
+    return { fallbackReason: null };
+  }
+  try {
+    await writeRaw(STATE_KEY, raw);
+  } catch (e) {
+    try {
+      localStorage.setItem(LOCAL_KEY, raw);
+    } catch (fallbackError) {
+      throw new Error(`IndexedDB：${describeError(e)}；localStorage：${describeError(fallbackError)}`);
+    }
+    return { fallbackReason: describeError(e) };
+  }
+  // 新格式寫入成功後才移除舊版資料與先前的備援
+  localStorage.removeItem(LEGACY_KEY);
+  localStorage.removeItem(LOCAL_KEY);
+  return { fallbackReason: null };
+};
+
+// 另存無法讀取的原始資料，之後才允許以新資料覆寫主存檔
+export const quarantineUnreadable = async (raw: string) => {
+  if (!raw) return;
+  await writeRaw(`${UNREADABLE_PREFIX}${new Date().toISOString()}`, raw);
+};
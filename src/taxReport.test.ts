@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { buildLedger, calculateTransactionAmount } from './ledger';
+import { DEFAULT_SETTINGS } from './settings';
+import { buildTaxReport, getHoldingTerm, getTaxYears } from './taxReport';
+import type { Transaction, TransactionType } from './types';
+
+const usTrade = (id: string, type: TransactionType, date: string, price: number, shares: number): Transaction => {
+  const { fee, tax, total } = calculateTransactionAmount(type, 'US', price, shares, false, DEFAULT_SETTINGS);
+  return { id, date, ticker: 'AAPL', name: 'Apple', type, market: 'US', price, shares, isETF: false, fee, tax, totalAmount: total };
+};
+
+describe('getHoldingTerm', () => {
+  it('買進日隔年同日 (含) 以前賣出為短期，之後為長期', () => {
+    expect(getHoldingTerm('2023-03-15', '2024-03-15')).toBe('short');
+    expect(getHoldingTerm('2023-03-15', '2024-03-16')).toBe('long');
+    // 閏日買進：隔年 2/28 仍為短期
+    expect(getHoldingTerm('2024-02-29', '2025-02-28')).toBe('short');
+    expect(getHoldingTerm('2024-02-29', '2025-03-01')).toBe('long');
+  });
+});
+
+describe('buildTaxReport', () => {
+  const transactions = [
+    usTrade('b1', 'buy', '2022-06-01', 100, 10),
+    usTrade('b2', 'buy', '2023-06-01', 150, 10),
+    usTrade('s1', 'sell', '2023-12-31', 180, 10),
+    usTrade('s2', 'sell', '2024-01-01', 200, 10)
+  ];
+  const { realizedGains } = buildLedger(transactions, { ...DEFAULT_SETTINGS, usCostBasis: 'fifo' });
+
+  it('以賣出日所屬年度切分，跨年當天的賣出歸到新年度', () => {
+    expect(getTaxYears(realizedGains)).toEqual(['2024', '2023']);
+    expect(buildTaxReport(realizedGains, transactions, '2023').rows.map(row => row.sellId)).toEqual(['s1']);
+    expect(buildTaxReport(realizedGains, transactions, '2024').rows.map(row => row.sellId)).toEqual(['s2']);
+    expect(buildTaxReport(realizedGains, transactions, '2022')).toEqual({ year: '2022', rows: [], totals: [] });
+  });
+
+  it('年度小計依持有期間區分短期與長期損益', () => {
+    const report = buildTaxReport(realizedGains, transactions, '2023');
+    const [row] = report.rows;
+    expect(row).toMatchObject({ lotId: 'b1', buyDate: '2022-06-01', term: 'long' });
+    expect(row.proceeds).toBeCloseTo(transactions[2].totalAmount);
+    expect(row.costBasis).toBeCloseTo(transactions[0].totalAmount);
+    expect(row.fees).toBeCloseTo(transactions[0].fee + transactions[2].fee + transactions[2].tax);
+    expect(report.totals).toHaveLength(1);
+    expect(report.totals[0].longTermGain).toBeCloseTo(row.gain);
+    expect(report.totals[0].shortTermGain).toBe(0);
+
+    expect(buildTaxReport(realizedGains, transactions, '2024').rows[0].term).toBe('short');
+  });
+});
@@ -0,0 +1,109 @@
+import { toCsv } from './backup';
+import type { CurrencyType, MarketType, RealizedItem, Transaction } from './types';
+
+// --- 年度已實現損益報表 (報稅用) ---
+// 以賣出日所屬年度列出每一筆沖銷：取得日、賣出日、收入、成本、費用與損益；美股另依持有期間區分短期/長期。
+
+export type HoldingTerm = 'short' | 'long';
+
+export const HOLDING_TERM_LABELS: Record<HoldingTerm, string> = {
+  short: '短期',
+  long: '長期'
+};
+
+export interface TaxReportRow {
+  sellId: string;
+  lotId: string;
+  ticker: string;
+  name: string;
+  market: MarketType;
+  currency: CurrencyType;
+  buyDate: string;
+  sellDate: string;
+  shares: number;
+  proceeds: number; // 已扣除賣出手續費與交易稅
+  costBasis: number; // 含買進手續費
+  fees: number; // 上兩欄已含的買進與賣出費用 (僅供參考)
+  gain: number;
+  term: HoldingTerm | null; // 台股不區分
+}
+
+export interface TaxReportTotal {
+  market: MarketType;
+  currency: CurrencyType;
+  count: number;
+  proceeds: number;
+  costBasis: number;
+  fees: number;
+  gain: number;
+  shortTermGain: number;
+  longTermGain: number;
+}
+
+export interface TaxReport {
+  year: string;
+  rows: TaxReportRow[];
+  totals: TaxReportTotal[];
+}
+
+// 美股持有超過一年 (買進日隔年同日之後賣出) 為長期
+export const getHoldingTerm = (buyDate: string, sellDate: string): HoldingTerm => {
+  const [y, m, d] = buyDate.split('-');
+  return sellDate > `${Number(y) + 1}-${m}-${d}` ? 'long' : 'short';
+};
+
+export const getTaxYears = (realizedGains: RealizedItem[]) =>
+  [...new Set(realizedGains.flatMap(r => r.closedLots.map(lot => lot.sellDate.slice(0, 4))))].sort().reverse();
+
+export const buildTaxReport = (realizedGains: RealizedItem[], transactions: Transaction[], year: string): TaxReport => {
+  const byId = new Map(transactions.map(t => [t.id, t]));
+
+  const rows = realizedGains
+    .flatMap(r => r.closedLots
+      .filter(lot => lot.sellDate.startsWith(year))
+      .map((lot): TaxReportRow => {
+        const sell = byId.get(lot.sellId);
+        const buy = byId.get(lot.lotId);
+        const sellFees = sell && sell.shares > 0 ? ((sell.fee + sell.tax) * lot.shares) / sell.shares : 0;
+        // 買進手續費依沖銷成本佔該筆買進的比例分攤 (分割後股數會變，成本不會)
+        const buyFees = buy && buy.totalAmount > 0 ? Math.min(buy.fee, (buy.fee * lot.cost) / buy.totalAmount) : 0;
+        return {
+          sellId: lot.sellId,
+          lotId: lot.lotId,
+          ticker: r.ticker,
+          name: r.name,
+          market: r.market,
+          currency: r.currency,
+          buyDate: lot.buyDate,
+          sellDate: lot.sellDate,
+          shares: lot.shares,
+          proceeds: lot.proceeds,
+          costBasis: lot.cost,
+          fees: sellFees + buyFees,
+          gain: lot.realizedPL,
+          term: r.market === 'US' ? getHoldingTerm(lot.buyDate, lot.sellDate) : null
+        };
+      }))
+    .sort((a, b) => a.sellDate.localeCompare(b.sellDate) || a.ticker.localeCompare(b.ticker) || a.buyDate.localeCompare(b.buyDate));
+
+  const totals = (['TW', 'US'] as MarketType[])
+    .map(market => rows.filter(row => row.market === market))
+    .filter(list => list.length > 0)
+    .map((list): TaxReportTotal => list.reduce((sum, row) => ({
+      ...sum,
+      count: sum.count + 1,
+      proceeds: sum.proceeds + row.proceeds,
+      costBasis: sum.costBasis + row.costBasis,
+      fees: sum.fees + row.fees,
+      gain: sum.gain + row.gain,
+      shortTermGain: sum.shortTermGain + (row.term === 'short' ? row.gain : 0),
+      longTermGain: sum.longTermGain + (row.term === 'long' ? row.gain : 0)
+    }), { market: list[0].market, currency: list[0].currency, count: 0, proceeds: 0, costBasis: 0, fees: 0, gain: 0, shortTermGain: 0, longTermGain: 0 }));
+
+  return { year, rows, totals };
+};
+
+export const taxReportToCsv = (report: TaxReport) => toCsv(
+  ['year', 'market', 'currency', 'ticker', 'name', 'acquiredDate', 'soldDate', 'shares', 'proceeds', 'costBasis', 'fees', 'gain', 'term'],
+  report.rows.map(r => [report.year, r.market, r.currency, r.ticker, r.name, r.buyDate, r.sellDate, r.shares, r.proceeds, r.costBasis, r.fees, r.gain, r.term ?? ''])
+);
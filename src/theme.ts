@@ -0,0 +1,33 @@
+// --- 主題樣式 ---
+
+export const getTheme = (isDark: boolean) => ({
+  bg: isDark ? 'bg-gray-950' : 'bg-gray-100',
+  text: isDark ? 'text-gray-100' : 'text-gray-800',
+  subText: isDark ? 'text-gray-400' : 'text-gray-500',
+  card: isDark ? 'bg-gray-900 border-gray-800' : 'bg-white border-gray-200',
+  header: isDark ? 'bg-gray-900 border-gray-800' : 'bg-white border-gray-100',
+  tableHeader: isDark ? 'bg-gray-800 text-gray-400' : 'bg-gray-50 text-gray-500',
+  tableRowHover: isDark ? 'hover:bg-gray-800' : 'hover:bg-gray-50',
+  input: isDark ? 'bg-gray-800 border-gray-700 text-white focus:bg-gray-700' : 'bg-white border-gray-200 text-gray-900 focus:bg-white',
+  divider: isDark ? 'divide-gray-800' : 'divide-gray-100',
+  buttonSecondary: isDark ? 'text-gray-400 hover:text-gray-200' : 'text-gray-500 hover:text-gray-700',
+  activeTab: isDark ? 'bg-red-900/30 text-red-400' : 'bg-red-50 text-red-600',
+  inactiveTab: isDark ? 'text-gray-400 hover:text-gray-200' : 'text-gray-500 hover:text-gray-700',
+  yellowBg: isDark ? 'bg-yellow-900/20 text-yellow-500 border-yellow-900' : 'bg-yellow-50 text-yellow-800 border-yellow-100',
+  modalBg: isDark ? 'bg-gray-900' : 'bg-white',
+  priceInput: isDark ? 'bg-gray-800 border-gray-700 text-white' : 'bg-white border-yellow-200 text-gray-800',
+  priceInputWrapper: isDark ? 'bg-gray-800/50' : 'bg-yellow-50/30',
+  sectionHeader: isDark ? 'border-gray-800' : 'border-gray-100 bg-gray-50',
+});
+
+export type Theme = ReturnType<typeof getTheme>;
+
+// 台股慣例：紅漲綠跌
+export const getPLColor = (val: number, isDark: boolean) =>
+  val > 0 ? 'text-red-500' : val < 0 ? 'text-green-500' : (isDark ? 'text-gray-400' : 'text-gray-500');
+
+export const getPLBgColor = (val: number, isDark: boolean) => {
+  if (val > 0) return isDark ? 'bg-red-900/30' : 'bg-red-50';
+  if (val < 0) return isDark ? 'bg-green-900/30' : 'bg-green-50';
+  return isDark ? 'bg-gray-700' : 'bg-gray-50';
+};
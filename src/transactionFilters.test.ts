@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { EMPTY_TRANSACTION_FILTERS, filterTransactions, readFiltersFromSearch, writeFiltersToSearch } from './transactionFilters';
+import type { Transaction } from './types';
+
+const tx = (id: string, extra: Partial<Transaction>): Transaction => ({
+  id, date: '2024-01-02', ticker: '2330', name: '台積電', type: 'buy', market: 'TW', price: 100, shares: 1000, isETF: false, fee: 0, tax: 0, totalAmount: 100000, ...extra
+});
+
+const transactions = [
+  tx('a', { date: '2024-01-02', note: '法說會前布局' }),
+  tx('b', { date: '2024-03-15', ticker: '0050', name: '元大台灣50', isETF: true, totalAmount: 15000 }),
+  tx('c', { date: '2024-06-01', ticker: 'AAPL', name: 'Apple', market: 'US', type: 'sell', totalAmount: 1900 })
+];
+
+const ids = (list: Transaction[]) => list.map(t => t.id);
+
+describe('filterTransactions', () => {
+  it('日期區間包含起訖日', () => {
+    expect(ids(filterTransactions(transactions, { ...EMPTY_TRANSACTION_FILTERS, from: '2024-03-15', to: '2024-06-01' }))).toEqual(['b', 'c']);
+  });
+
+  it('類型、市場與 ETF 條件同時成立', () => {
+    expect(ids(filterTransactions(transactions, { ...EMPTY_TRANSACTION_FILTERS, type: 'buy', etf: 'stock' }))).toEqual(['a']);
+    expect(ids(filterTransactions(transactions, { ...EMPTY_TRANSACTION_FILTERS, market: 'US' }))).toEqual(['c']);
+  });
+
+  it('金額區間以交割金額比對，無法解析的輸入視為未設定', () => {
+    expect(ids(filterTransactions(transactions, { ...EMPTY_TRANSACTION_FILTERS, minAmount: '2000', maxAmount: '20000' }))).toEqual(['b']);
+    expect(ids(filterTransactions(transactions, { ...EMPTY_TRANSACTION_FILTERS, minAmount: 'abc' }))).toEqual(['a', 'b', 'c']);
+  });
+
+  it('文字搜尋涵蓋交易筆記與該檔筆記', () => {
+    expect(ids(filterTransactions(transactions, { ...EMPTY_TRANSACTION_FILTERS, text: '法說會' }))).toEqual(['a']);
+    expect(ids(filterTransactions(transactions, { ...EMPTY_TRANSACTION_FILTERS, text: '蘋果' }, { AAPL: '蘋果供應鏈' }))).toEqual(['c']);
+  });
+});
+
+describe('readFiltersFromSearch', () => {
+  it('讀取網址參數與代號篩選', () => {
+    const { filters, ticker, present } = readFiltersFromSearch('?q=%E5%8F%B0%E7%A9%8D&from=2024-01-01&type=sell&market=US&etf=etf&min=100&ticker=2330');
+    expect(filters).toEqual({ ...EMPTY_TRANSACTION_FILTERS, text: '台積', from: '2024-01-01', type: 'sell', market: 'US', etf: 'etf', minAmount: '100' });
+    expect(ticker).toBe('2330');
+    expect(present).toBe(true);
+  });
+
+  it('無效的值當作未設定', () => {
+    const { filters } = readFiltersFromSearch('?type=toString&market=JP&etf=bond&min=abc');
+    expect(filters).toEqual(EMPTY_TRANSACTION_FILTERS);
+  });
+
+  it('沒有篩選參數時標示為未設定', () => {
+    expect(readFiltersFromSearch('?tab=transactions')).toEqual({ filters: EMPTY_TRANSACTION_FILTERS, ticker: null, present: false });
+  });
+});
+
+describe('writeFiltersToSearch', () => {
+  it('只更新篩選參數，其他參數保留', () => {
+    const search = writeFiltersToSearch('?tab=transactions&q=old&max=5', { ...EMPTY_TRANSACTION_FILTERS, text: '0050', to: '2024-12-31' }, '0050');
+    const params = new URLSearchParams(search);
+    expect(params.get('tab')).toBe('transactions');
+    expect(params.get('q')).toBe('0050');
+    expect(params.get('to')).toBe('2024-12-31');
+    expect(params.get('ticker')).toBe('0050');
+    expect(params.has('max')).toBe(false);
+  });
+
+  it('清空條件後不留下查詢字串，且可讀回相同條件', () => {
+    expect(writeFiltersToSearch('?q=old&ticker=2330', EMPTY_TRANSACTION_FILTERS, null)).toBe('');
+    const filters = { ...EMPTY_TRANSACTION_FILTERS, market: 'TW' as const, minAmount: '1000' };
+    expect(readFiltersFromSearch(writeFiltersToSearch('', filters, '2330'))).toEqual({ filters, ticker: '2330', present: true });
+  });
+});
@@ -0,0 +1,112 @@
+import { TRANSACTION_TYPE_LABELS } from './settings';
+import { matchesQuery } from './notes';
+import type { MarketType, Transaction, TransactionType } from './types';
+
+// --- 交易紀錄篩選 ---
+// 篩選條件以字串保存 (對應輸入框)，並同步到網址的查詢參數，重新整理或分享網址時保留。
+
+export interface TransactionFilters {
+  text: string; // 代號、名稱、交易筆記與該檔筆記
+  from: string;
+  to: string;
+  type: TransactionType | '';
+  market: MarketType | '';
+  etf: '' | 'etf' | 'stock';
+  minAmount: string; // 交割金額 (原幣別)
+  maxAmount: string;
+}
+
+export const EMPTY_TRANSACTION_FILTERS: TransactionFilters = { text: '', from: '', to: '', type: '', market: '', etf: '', minAmount: '', maxAmount: '' };
+
+// 網址參數名稱；ticker 對應既有的單一代號篩選
+const URL_KEYS: Record<keyof TransactionFilters, string> = {
+  text: 'q',
+  from: 'from',
+  to: 'to',
+  type: 'type',
+  market: 'market',
+  etf: 'etf',
+  minAmount: 'min',
+  maxAmount: 'max'
+};
+const TICKER_KEY = 'ticker';
+
+// 文字搜尋以外、目前生效的條件數
+export const countActiveFilters = (filters: TransactionFilters) =>
+  (Object.keys(filters) as (keyof TransactionFilters)[]).filter(k => k !== 'text' && filters[k] !== '').length;
+
+export const filterTransactions = (transactions: Transaction[], filters: TransactionFilters, tickerNotes: Record<string, string> = {}) => {
+  const min = parseFloat(filters.minAmount);
+  const max = parseFloat(filters.maxAmount);
+  const text = filters.text.trim();
+  return transactions.filter(t =>
+    (!filters.from || t.date >= filters.from) &&
+    (!filters.to || t.date <= filters.to) &&
+    (!filters.type || t.type === filters.type) &&
+    (!filters.market || t.market === filters.market) &&
+    (!filters.etf || t.isETF === (filters.etf === 'etf')) &&
+    (isNaN(min) || t.totalAmount >= min) &&
+    (isNaN(max) || t.totalAmount <= max) &&
+    (!text || matchesQuery(text, t.ticker, t.name, t.note, tickerNotes[t.ticker]))
+  );
+};
+
+export interface TransactionSubtotal {
+  market: MarketType;
+  count: number;
+  buyShares: number;
+  sellShares: number;
+  fee: number;
+  tax: number;
+  buyAmount: number; // 買進交割金額
+  sellAmount: number; // 賣出交割金額
+}
+
+// 篩選結果依市場 (幣別) 小計；股數只計買賣
+export const summarizeTransactions = (transactions: Transaction[]): TransactionSubtotal[] =>
+  (['TW', 'US'] as const)
+    .map(market => transactions.filter(t => t.market === market).reduce((sum, t): TransactionSubtotal => ({
+      ...sum,
+      count: sum.count + 1,
+      buyShares: sum.buyShares + (t.type === 'buy' ? t.shares : 0),
+      sellShares: sum.sellShares + (t.type === 'sell' ? t.shares : 0),
+      fee: sum.fee + t.fee,
+      tax: sum.tax + t.tax,
+      buyAmount: sum.buyAmount + (t.type === 'buy' ? t.totalAmount : 0),
+      sellAmount: sum.sellAmount + (t.type === 'sell' ? t.totalAmount : 0)
+    }), { market, count: 0, buyShares: 0, sellShares: 0, fee: 0, tax: 0, buyAmount: 0, sellAmount: 0 }))
+    .filter(s => s.count > 0);
+
+// 讀取網址中的篩選條件；無效的值當作未設定
+export const readFiltersFromSearch = (search: string) => {
+  const params = new URLSearchParams(search);
+  const get = (key: keyof TransactionFilters) => params.get(URL_KEYS[key]) ?? '';
+  const type = get('type');
+  const market = get('market');
+  const etf = get('etf');
+  const filters: TransactionFilters = {
+    text: get('text'),
+    from: get('from'),
+    to: get('to'),
+    type: Object.hasOwn(TRANSACTION_TYPE_LABELS, type) ? type as TransactionType : '',
+    market: market === 'TW' || market === 'US' ? market : '',
+    etf: etf === 'etf' || etf === 'stock' ? etf : '',
+    minAmount: isNaN(parseFloat(get('minAmount'))) ? '' : get('minAmount'),
+    maxAmount: isNaN(parseFloat(get('maxAmount'))) ? '' : get('maxAmount')
+  };
+  const ticker = params.get(TICKER_KEY) || null;
+  return { filters, ticker, present: ticker !== null || Object.values(URL_KEYS).some(k => params.has(k)) };
+};
+
+// 寫回網址：只更新篩選相關的參數，其他參數保留
+export const writeFiltersToSearch = (search: string, filters: TransactionFilters, ticker: string | null) => {
+  const params = new URLSearchParams(search);
+  (Object.keys(URL_KEYS) as (keyof TransactionFilters)[]).forEach(k => {
+    if (filters[k]) params.set(URL_KEYS[k], filters[k]);
+    else params.delete(URL_KEYS[k]);
+  });
+  if (ticker) params.set(TICKER_KEY, ticker);
+  else params.delete(TICKER_KEY);
+  const next = params.toString();
+  return next ? `?${next}` : '';
+};
@@ -0,0 +1,327 @@
+import type { ImportPreset } from './csvImport';
+
+// --- 介面定義 ---
+
+export type MarketType = 'TW' | 'US';
+export type CurrencyType = 'TWD' | 'USD';
+export type TradeType = 'buy' | 'sell';
+// 公司行動：現金股利、配股、股票分割 (含反分割)、減資
+export type CorporateActionType = 'dividend' | 'stockDividend' | 'split' | 'capitalReduction';
+// 帳戶間移轉持股：不產生損益，批次連同原始成本與買進日一併移到目的帳戶
+export type TransferType = 'transfer';
+export type TransactionType = TradeType | CorporateActionType | TransferType;
+export type CostBasisMethod = 'average' | 'fifo' | 'lifo' | 'specific';
+
+// 信用交易：融資 (借款買進) 或融券 (借券放空)
+export type CreditType = 'margin' | 'short';
+
+// 指定批次賣出時，一筆賣出要沖銷哪幾筆買進 (lotId 即買進交易的 id)
+export interface LotSelection {
+  lotId: string;
+  shares: number;
+}
+
+export interface Transaction {
+  id: string;
+  date: string;
+  ticker: string;
+  name: string;
+  type: TransactionType;
+  market: MarketType;
+  price: number;
+  shares: number;
+  isETF: boolean;
+  fee: number;
+  tax: number;
+  totalAmount: number;
+  lotSelections?: LotSelection[];
+  // 分割：新股數 / 舊股數；減資：每股換發新股比例
+  ratio?: number;
+  // 手續費或稅額為手動輸入 (券商實收與公式不同)
+  manualFee?: boolean;
+  // 所屬帳戶；舊資料沒有此欄位時視為預設帳戶
+  accountId?: string;
+  // 轉帳的目的帳戶 (accountId 為轉出帳戶)；price 為移轉時的參考市價，只用於績效計算
+  toAccountId?: string;
+  // 台股債券 ETF (免證交稅)
+  isBondETF?: boolean;
+  // 台股當沖賣出 (證交稅減半)；未設定時視為一般交易
+  isDayTrade?: boolean;
+  // 交易筆記 (Markdown)：買賣理由、投資論點、出場計畫
+  note?: string;
+  // 信用交易：買進 + margin 為融資買進、賣出 + margin 為融資賣出；賣出 + short 為融券賣出、買進 + short 為融券回補
+  credit?: CreditType;
+  // 融資買進的借款金額，或融券賣出繳交的保證金 (原幣別)
+  loanAmount?: number;
+  // 融券賣出的借券費 (台股於賣出時一次收取)
+  borrowFee?: number;
+  // 由定期定額計畫產生的買進
+  planId?: string;
+}
+
+// 尚未賣出的買進批次
+export interface OpenLot {
+  lotId: string;
+  date: string;
+  shares: number;
+  originalShares: number;
+  costPerShare: number;
+  totalCost: number;
+  loan?: number; // 融資批次尚未償還的借款
+}
+
+// 單筆賣出沖銷單一批次的結果
+export interface ClosedLot {
+  lotId: string;
+  sellId: string;
+  buyDate: string;
+  sellDate: string;
+  shares: number;
+  cost: number;
+  proceeds: number;
+  realizedPL: number;
+  interest?: number; // 融資利息或融券借券費 (已含在 cost)
+  isShort?: boolean; // 融券回補：buyDate 為融券賣出日、sellDate 為回補日
+}
+
+export interface Holding {
+  ticker: string;
+  name: string;
+  market: MarketType;
+  currency: CurrencyType;
+  shares: number;
+  avgCost: number;
+  totalCost: number;
+  marketValue: number;
+  unrealizedPL: number;
+  roi: number;
+  isETF: boolean;
+  isBondETF: boolean;
+  lots: OpenLot[];
+  dividendIncome: number;
+  totalReturn: number;
+  // 融資部分：借款餘額、融資股票市值 (現價 × 股數) 與至今應計利息 (已從 unrealizedPL 扣除)
+  loanBalance: number;
+  marginValue: number;
+  accruedInterest: number;
+}
+
+export interface ShortLot {
+  lotId: string;
+  date: string;
+  shares: number;
+  proceeds: number; // 融券賣出淨收入 (擔保價款)
+  collateral: number; // 保證金
+  borrowFee: number;
+}
+
+// 融券 (放空) 部位
+export interface ShortPosition {
+  ticker: string;
+  name: string;
+  market: MarketType;
+  currency: CurrencyType;
+  isETF: boolean;
+  shares: number;
+  avgPrice: number; // 放空均價 (淨收入 / 股數)
+  proceeds: number;
+  collateral: number;
+  borrowCost: number; // 借券費加上至今應計的借券利息
+  coverCost: number; // 以現價回補的預估支出 (含手續費)
+  price: number;
+  unrealizedPL: number;
+  lots: ShortLot[];
+}
+
+export interface RealizedItem {
+  ticker: string;
+  name: string;
+  market: MarketType;
+  currency: CurrencyType;
+  realizedPL: number;
+  totalCost: number;
+  totalRevenue: number;
+  roi: number;
+  tradeCount: number;
+  isETF: boolean; // 新增：為了在已實現列表也能顯示 ETF
+  closedLots: ClosedLot[];
+  dividendIncome: number;
+}
+
+export interface AppSettings {
+  // 台股設定
+  twFeeRate: number;
+  twDiscount: number;
+  twTaxRateStock: number;
+  twTaxRateETF: number;
+  twMinFee: number;
+  twOddLotMinFee: number; // 零股最低手續費 (各券商不同)
+  twDayTradeTaxRate: number; // 現股當沖賣出的證交稅率
+  twCostBasis: CostBasisMethod;
+  twDividendNhiRate: number;
+  // 美股設定
+  usFeeRate: number;
+  usMinFee: number;
+  usTaxRate: number;
+  usCostBasis: CostBasisMethod;
+  usDividendWithholdingRate: number;
+  // 定期定額的最低手續費 (多數券商另有優惠低消)
+  twPlanMinFee: number;
+  usPlanMinFee: number;
+  // 信用交易：成數為借款 (融資) 或保證金 (融券) 佔成交金額的比例；維持率低於下限時提示追繳
+  twMarginLoanRatio: number;
+  twShortMarginRatio: number;
+  twMarginInterestRate: number; // 融資年利率
+  twShortFeeRate: number; // 融券借券費率 (依賣出金額一次收取)
+  twMaintenanceRatio: number;
+  usMarginLoanRatio: number;
+  usShortMarginRatio: number;
+  usMarginInterestRate: number;
+  usShortBorrowRate: number; // 借券年利率 (依放空金額按日計)
+  usMaintenanceRatio: number;
+  // 合併檢視
+  baseCurrency: CurrencyType;
+}
+
+// 券商費率 (交易稅為法定稅率，不隨券商變動)：未設定的欄位沿用全域交易參數
+export type FeeProfile = Pick<AppSettings, 'twFeeRate' | 'twDiscount' | 'twMinFee' | 'twOddLotMinFee' | 'twPlanMinFee' | 'twMarginInterestRate' | 'usFeeRate' | 'usMinFee' | 'usPlanMinFee' | 'usMarginInterestRate'>;
+
+export interface Account {
+  id: string;
+  name: string;
+  fees: Partial<FeeProfile>;
+}
+
+// 定期定額：每月固定日以金額或股數買進；到期時產生待確認的買進，確認實際成交價後才計入交易
+export interface InvestmentPlan {
+  id: string;
+  ticker: string;
+  name: string;
+  market: MarketType;
+  isETF: boolean;
+  accountId?: string; // 扣款帳戶，手續費依該帳戶的券商費率
+  mode: 'amount' | 'shares';
+  amount?: number; // 每期投入金額 (原幣別，不含手續費)
+  shares?: number; // 每期股數
+  dayOfMonth: number; // 1-31，超過當月天數時以月底計
+  startDate: string;
+  endDate?: string;
+  paused?: boolean;
+  generatedThrough?: string; // 已產生到此日的扣款，之後的到期日才會再產生
+}
+
+// 現金帳：入金、出金與換匯 (台幣 ↔ 美元)；買賣股票的交割金額由帳務引擎另外計入
+export type CashEntryType = 'deposit' | 'withdrawal' | 'fxConversion';
+
+export interface CashEntry {
+  id: string;
+  date: string;
+  type: CashEntryType;
+  accountId?: string; // 未設定時視為預設帳戶
+  currency: CurrencyType; // 入金 / 出金的幣別；換匯為換出的幣別
+  amount: number; // 正數
+  toAmount?: number; // 換匯換得的另一幣別金額
+  note?: string;
+}
+
+// 美元兌台幣匯率 (1 USD = rate TWD)
+export interface FxRate {
+  date: string;
+  rate: number;
+}
+
+// 每檔標的的歷史價格 (每天最多一筆，依日期排序)
+export interface PricePoint {
+  date: string;
+  price: number;
+}
+
+export interface SnapshotHolding {
+  ticker: string;
+  market: MarketType;
+  shares: number;
+  price: number;
+  marketValue: number;
+  totalCost: number;
+  unrealizedPL: number;
+}
+
+// 每日自動記錄的持股快照 (原幣別)
+export interface PortfolioSnapshot {
+  date: string;
+  holdings: SnapshotHolding[];
+}
+
+// 觀察清單：尚未持有 (或已出清) 的標的
+export interface WatchlistItem {
+  ticker: string;
+  market: MarketType;
+  name: string;
+  isETF: boolean;
+  referencePrice: number; // 加入清單時的參考價；沒有現價時以此計算
+  entryPrice?: number; // 打算進場的價位
+  notes: string;
+  addedAt: string;
+}
+
+// 再平衡：目標權重 (百分比) 可依代號或依市場設定
+export type RebalanceScope = 'ticker' | 'market';
+
+export interface RebalanceSettings {
+  scope: RebalanceScope;
+  tickerTargets: Record<string, number>;
+  marketTargets: Partial<Record<MarketType, number>>;
+  twLotMode: 'board' | 'odd'; // 台股以整張 (1000 股) 或零股 (1 股) 為單位
+  usFractional: boolean; // 美股允許小數股
+  driftThreshold: number; // 偏離目標超過此百分點才調整
+}
+
+// 每檔持股的警示價位 (原幣別)；maxDrawdown 為自持有期間高點回落的百分比
+export interface AlertLevels {
+  targetPrice?: number;
+  stopPrice?: number;
+  maxDrawdown?: number;
+}
+
+export interface AlertSettings {
+  browserNotifications: boolean;
+  // 已確認的警示 key；價格回到區間內後會自動移除，下次觸及再通知
+  acknowledged: string[];
+}
+
+// 報價來源：manual 只用手動輸入；json 由 HTTP 端點或 JSON 檔批次取得
+export type QuoteProviderId = 'manual' | 'json';
+
+export interface QuoteSettings {
+  provider: QuoteProviderId;
+  url: string;
+  staleHours: number; // 超過此時數未更新的現價標示為過期
+}
+
+export interface VisualSettings {
+  darkMode: boolean;
+  density: 'compact' | 'normal';
+}
+
+// 需要保存的完整 App 狀態 (localStorage 與備份檔共用)
+export interface AppData {
+  transactions: Transaction[];
+  settings: AppSettings;
+  manualPrices: Record<string, number>;
+  priceUpdatedAt: Record<string, string>; // ISO 時間
+  quoteSettings: QuoteSettings;
+  priceHistory: Record<string, PricePoint[]>;
+  snapshots: PortfolioSnapshot[];
+  accounts: Account[];
+  alertLevels: Record<string, AlertLevels>;
+  alertSettings: AlertSettings;
+  watchlist: WatchlistItem[];
+  rebalanceSettings: RebalanceSettings;
+  tickerNotes: Record<string, string>; // 每檔的 Markdown 筆記
+  cashEntries: CashEntry[];
+  investmentPlans: InvestmentPlan[];
+  pendingTransactions: Transaction[]; // 定期定額到期、尚未確認成交價的買進
+  visualSettings: VisualSettings;
+  fxRates: FxRate[];
+  importPresets: ImportPreset[];
+}
@@ -0,0 +1,127 @@
+import { useEffect, useState } from 'react';
+
+// --- 復原 / 重做 ---
+// 每次變更前記下「變更前」的快照；快照只是既有物件的參考，不會複製整份帳本。
+// 最近幾步存在 sessionStorage，重新整理頁面後同一個分頁仍可復原；更早的步驟只留在記憶體中。
+
+const MAX_ENTRIES = 50;
+// 保存到 sessionStorage 的步數與總字元數上限；大型帳本的快照超過上限時不保存
+const PERSISTED_ENTRIES = 10;
+const MAX_PERSISTED_CHARS = 1_000_000;
+// 同一類連續輸入 (例如逐字輸入現價) 在此時間內合併為一步
+const COALESCE_MS = 1500;
+
+interface HistoryEntry<T> {
+  label: string;
+  snapshot: T;
+  at: number;
+}
+
+interface HistoryStacks<T> {
+  undo: HistoryEntry<T>[];
+  redo: HistoryEntry<T>[];
+}
+
+const readStacks = <T>(key: string): HistoryStacks<T> => {
+  try {
+    const raw = sessionStorage.getItem(key);
+    if (raw) return JSON.parse(raw) as HistoryStacks<T>;
+  } catch {
+    // 讀不到就從空的歷程開始
+  }
+  return { undo: [], redo: [] };
+};
+
+// 快照的序列化結果依物件參考快取：合併輸入或新增一步時，既有快照不必重新序列化
+const serializedSnapshots = new WeakMap<object, string>();
+
+const serializeSnapshot = (snapshot: unknown) => {
+  if (typeof snapshot !== 'object' || snapshot === null) return JSON.stringify(snapshot);
+  let json = serializedSnapshots.get(snapshot);
+  if (json === undefined) {
+    json = JSON.stringify(snapshot);
+    serializedSnapshots.set(snapshot, json);
+  }
+  return json;
+};
+
+// 由最新往回取，超過步數或字元數上限就停止
+const serializeEntries = <T>(entries: HistoryEntry<T>[], budget: number) => {
+  const parts: string[] = [];
+  let used = 0;
+  for (let i = entries.length - 1; i >= 0 && parts.length < PERSISTED_ENTRIES; i--) {
+    const { label, snapshot, at } = entries[i];
+    const part = `{"label":${JSON.stringify(label)},"at":${at},"snapshot":${serializeSnapshot(snapshot)}}`;
+    if (used + part.length > budget) break;
+    parts.unshift(part);
+    used += part.length;
+  }
+  return { json: `[${parts.join(',')}]`, used };
+};
+
+const writeStacks = <T>(key: string, stacks: HistoryStacks<T>) => {
+  const undo = serializeEntries(stacks.undo, MAX_PERSISTED_CHARS);
+  const redo = serializeEntries(stacks.redo, MAX_PERSISTED_CHARS - undo.used);
+  try {
+    sessionStorage.setItem(key, `{"undo":${undo.json},"redo":${redo.json}}`);
+  } catch {
+    // 容量不足就不保存
+    sessionStorage.removeItem(key);
+  }
+};
+
+export function useUndoHistory<T>(storageKey: string, current: T, apply: (snapshot: T) => void) {
+  const [stacks, setStacks] = useState<HistoryStacks<T>>(() => readStacks<T>(storageKey));
+
+  useEffect(() => {
+    writeStacks(storageKey, stacks);
+  }, [storageKey, stacks]);
+
+  // 在變更 state 之前呼叫
+  const record = (label: string, coalesce = false) => {
+    const at = Date.now();
+    setStacks(prev => {
+      const top = prev.undo[prev.undo.length - 1];
+      if (coalesce && top && top.label === label && at - top.at < COALESCE_MS) {
+        return { undo: [...prev.undo.slice(0, -1), { ...top, at }], redo: [] };
+      }
+      return { undo: [...prev.undo, { label, snapshot: current, at }].slice(-MAX_ENTRIES), redo: [] };
+    });
+  };
+
+  const undo = () => {
+    const entry = stacks.undo[stacks.undo.length - 1];
+    if (!entry) return null;
+    apply(entry.snapshot);
+    setStacks({
+      undo: stacks.undo.slice(0, -1),
+      redo: [...stacks.redo, { label: entry.label, snapshot: current, at: Date.now() }]
+    });
+    return entry.label;
+  };
+
+  const redo = () => {
+    const entry = stacks.redo[stacks.redo.length - 1];
+    if (!entry) return null;
+    apply(entry.snapshot);
+    setStacks({
+      undo: [...stacks.undo, { label: entry.label, snapshot: current, at: Date.now() }],
+      redo: stacks.redo.slice(0, -1)
+    });
+    return entry.label;
+  };
+
+  // 整份資料被替換 (例如還原備份) 後，既有快照只涵蓋部分資料，復原會混雜新舊內容，因此整個清空
+  const clear = () => setStacks({ undo: [], redo: [] });
+
+  return {
+    record,
+    undo,
+    redo,
+    clear,
+    canUndo: stacks.undo.length > 0,
+    canRedo: stacks.redo.length > 0,
+    nextUndoLabel: stacks.undo[stacks.undo.length - 1]?.label ?? null,
+    nextRedoLabel: stacks.redo[stacks.redo.length - 1]?.label ?? null
+  };
+}
@@ -0,0 +1,76 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import type { UIEvent } from 'react';
+
+// --- 虛擬捲動 ---
+// 只渲染捲動容器可見範圍 (前後再多留幾列) 的列，其餘以上下留白撐出總高度。
+// 列高先以呼叫端的估計值計算，渲染後量測實際高度 (依 key 記住)，之後以實測值為準。
+
+const DEFAULT_VIEWPORT = 800;
+
+// 最後一個起點不超過 offset 的列
+const findIndex = (offsets: number[], offset: number) => {
+  let lo = 0;
+  let hi = offsets.length - 2;
+  while (lo < hi) {
+    const mid = Math.ceil((lo + hi) / 2);
+    if (offsets[mid] <= offset) lo = mid;
+    else hi = mid - 1;
+  }
+  return Math.max(0, lo);
+};
+
+// 列高回呼：measured(key) 為該 key 已量到的高度，尚未渲染過時為 undefined
+export type RowHeight = (index: number, measured: (key: string) => number | undefined) => number;
+
+// active：容器目前是否在畫面上 (例如所在分頁已開啟)，切換時重新量測可視高度
+export const useVirtualRows = <T extends HTMLElement>(count: number, getHeight: RowHeight, active: boolean, overscan = 8) => {
+  const containerRef = useRef<T>(null);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewport, setViewport] = useState(DEFAULT_VIEWPORT);
+  const [heights, setHeights] = useState<Map<string, number>>(() => new Map());
+
+  useEffect(() => {
+    const el = containerRef.current;
+    if (!active || !el || typeof ResizeObserver === 'undefined') return;
+    // 開始觀察時會先觸發一次；容器重新掛載後捲動位置歸零，一併同步
+    const observer = new ResizeObserver(entries => {
+      setViewport(entries[0].contentRect.height || DEFAULT_VIEWPORT);
+      setScrollTop(el.scrollTop);
+    });
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, [active]);
+
+  // 掛在渲染出的列上 (ref={measureRow(key)})；高度不變時不觸發重新渲染
+  const measureRow = useCallback((key: string) => (el: HTMLElement | null) => {
+    if (!el) return;
+    const height = el.getBoundingClientRect().height;
+    if (!(height > 0)) return;
+    setHeights(prev => (Math.abs((prev.get(key) ?? 0) - height) < 0.5 ? prev : new Map(prev).set(key, height)));
+  }, []);
+
+  // offsets[i] 為第 i 列的起點，最後一項為總高度
+  const offsets = useMemo(() => {
+    const measured = (key: string) => heights.get(key);
+    const list = new Array<number>(count + 1);
+    list[0] = 0;
+    for (let i = 0; i < count; i++) list[i + 1] = list[i] + getHeight(i, measured);
+    return list;
+  }, [count, getHeight, heights]);
+
+  const total = offsets[count];
+  // 篩選後列數變少時，舊的捲動位置可能超過總高度
+  const top = Math.min(scrollTop, Math.max(0, total - viewport));
+  const start = count === 0 ? 0 : Math.max(0, findIndex(offsets, top) - overscan);
+  const end = count === 0 ? 0 : Math.min(count, findIndex(offsets, top + viewport) + 1 + overscan);
+
+  return {
+    containerRef,
+    onScroll: (e: UIEvent<T>) => setScrollTop(e.currentTarget.scrollTop),
+    measureRow,
+    start,
+    end,
+    paddingTop: offsets[start],
+    paddingBottom: total - offsets[end]
+  };
+};
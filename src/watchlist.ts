@@ -0,0 +1,22 @@
+import type { Holding, RealizedItem, WatchlistItem } from './types';
+
+// --- 觀察清單 ---
+
+// 現價距進場價的百分比；正數代表還要跌多少才到進場價
+export const getEntryDistance = (price: number, entryPrice: number | undefined) =>
+  entryPrice && entryPrice > 0 && price > 0 ? ((price - entryPrice) / entryPrice) * 100 : null;
+
+// 有現價時用現價，否則退回加入清單時的參考價
+export const getWatchPrice = (item: WatchlistItem, prices: Record<string, number>) => prices[item.ticker] || item.referencePrice;
+
+// 已出清、尚未加入清單的標的，依最後賣出日由近到遠
+export const getRecentlySold = (realizedGains: RealizedItem[], holdings: Holding[], watchlist: WatchlistItem[], limit = 5) => {
+  const held = new Set(holdings.map(h => h.ticker));
+  const watched = new Set(watchlist.map(w => w.ticker));
+  return realizedGains
+    .filter(r => !held.has(r.ticker) && !watched.has(r.ticker) && r.closedLots.length > 0)
+    .map(r => ({ item: r, lastSell: r.closedLots.reduce((max, lot) => (lot.sellDate > max ? lot.sellDate : max), '') }))
+    .sort((a, b) => b.lastSell.localeCompare(a.lastSell))
+    .slice(0, limit)
+    .map(({ item, lastSell }) => ({ ...item, lastSell }));
+};
@@ -1,7 +1,32 @@
 import { defineConfig } from 'vite'
+import type { Connect, Plugin } from 'vite'
 import react from '@vitejs/plugin-react'
 
+// 離線模擬報價：GET /mock-quotes?symbols=2330.TW,AAPL
+// 依代號產生固定的基準價，再隨時間小幅波動，方便在沒有網路時測試批次更新流程
+const mockQuotes = (): Plugin => {
+  const handler: Connect.NextHandleFunction = (req, res, next) => {
+    const url = new URL(req.url ?? '', 'http://localhost')
+    if (url.pathname !== '/mock-quotes') return next()
+    const symbols = (url.searchParams.get('symbols') ?? '').split(',').map(s => s.trim()).filter(Boolean)
+    const now = Date.now()
+    const quotes = Object.fromEntries(symbols.map(symbol => {
+      const seed = [...symbol].reduce((h, c) => (h * 31 + c.charCodeAt(0)) % 100000, 7)
+      const base = symbol.endsWith('.TW') || symbol.endsWith('.TWO') ? 20 + (seed % 1000) : 10 + (seed % 500)
+      const drift = 1 + 0.03 * Math.sin(now / 3600000 + seed)
+      return [symbol, { price: Math.round(base * drift * 100) / 100, time: new Date(now).toISOString() }]
+    }))
+    res.setHeader('Content-Type', 'application/json')
+    res.end(JSON.stringify({ quotes }))
+  }
+  return {
+    name: 'mock-quotes',
+    configureServer: server => { server.middlewares.use(handler) },
+    configurePreviewServer: server => { server.middlewares.use(handler) },
+  }
+}
+
 // https://vite.dev/config/
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), mockQuotes()],
 })